@@ -31,12 +31,14 @@ export const isSupabaseEnabled = !!supabase
 export interface WeatherDiary {
   id?: string
   date: string
+  entry_time?: string | null // 条目时间（HH:mm），同一天可以有多条
   weather_data: any // JSON字段存储天气数据
   content?: string
   mood?: string
   city?: string
   images?: string[] // 存储图片URL数组
   videos?: string[] // 存储视频URL数组
+  tags?: string[] // 用户自定义标签
   created_at?: string
   updated_at?: string
 }
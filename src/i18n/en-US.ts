@@ -0,0 +1,731 @@
+// English messages (same structure as zh-CN)
+import type { Messages } from './zh-CN'
+
+const enUS: Messages = {
+  common: {
+    cancel: 'Cancel',
+    close: 'Close',
+    delete: 'Delete',
+    loading: 'Loading...',
+    refresh: 'Refresh',
+    prevDay: 'Previous day',
+    nextDay: 'Next day',
+    collapse: 'Collapse',
+    expand: 'Expand',
+    expandAll: 'Show all',
+    noData: 'No data',
+    days: '{n} days',
+    forecast: 'Forecast',
+    diaryImage: 'Diary image',
+    imageIndex: 'Image {n}',
+    preview: 'Preview',
+    videoUnsupported: 'Your browser does not support video playback',
+    listSeparator: ', ',
+    rangeSeparator: 'to'
+  },
+  app: {
+    name: 'Weather Duck',
+    title: 'Weather Duck · Summer Weather Calendar',
+    about: 'About Weather Duck',
+    loadingData: 'Loading data...',
+    trendChart: 'Weather Trends',
+    windRose: 'Wind Rose',
+    comparison: 'City Comparison',
+    accuracy: 'Forecast Accuracy',
+    footerSource: 'Source: {provider} · Time zone: {timeZone} · Location: {address} ({lat}, {lon})',
+    defaultLocationNote: ' (default location)',
+    copyright: '©️ Copyright: Yang Ruoji · ',
+    githubProject: 'GitHub project',
+    refreshTooltip: 'Click to refresh the app',
+    invalidRange: 'Invalid date range (start must not be after end, and at most {max} days).',
+    fetchFailed: 'Failed to fetch weather',
+    loadNextFailed: 'Failed to load the next 7 days, please try again',
+    loadPreviousFailed: 'Failed to load the previous 7 days, please try again',
+    refreshDialog: {
+      header: 'Refresh app',
+      body: 'Current version: v{version}\n\nRefresh the app to get the latest version?\n\nThis clears the cache and reloads the app.',
+      confirm: 'Refresh'
+    },
+    refreshing: 'Refreshing app...',
+    refreshFailed: 'Refresh failed, please reload the page manually'
+  },
+  providers: {
+    'open-meteo': 'Open-Meteo free API',
+    fixture: 'Offline sample data'
+  },
+  language: {
+    label: 'Language'
+  },
+  location: {
+    locating: 'Locating...',
+    useLocation: 'Use my location',
+    unknown: 'Unknown location',
+    current: 'Current location',
+    defaultSuffix: ' (default)',
+    defaultCity: 'Shenzhen · Guangdong · China',
+    usingDefault: 'Using default location: {name}',
+    notSupported: 'Your browser does not support geolocation. Please choose a city manually or upgrade your browser',
+    needHttps: 'Geolocation requires HTTPS, please visit https://yangruoji.com',
+    permissionBlocked: 'Location permission denied. Click the 🔒 icon on the left of the address bar to allow location access',
+    success: {
+      geolocation: '🎯 GPS location found!',
+      ip: '🌐 IP location found!',
+      default: '🏠 Using default location'
+    },
+    failed: 'Location failed',
+    errors: {
+      denied: 'Location permission denied, please allow location access in your browser settings',
+      unavailable: 'Location service is temporarily unavailable, please check your network',
+      timeout: 'Location request timed out, please check your network and GPS signal',
+      generic: 'Location ran into a problem, the default location will be used'
+    }
+  },
+  header: {
+    searchPlaceholder: 'Search city (Chinese/English)',
+    selectCity: 'Select city',
+    startDate: 'Start date',
+    endDate: 'End date',
+    fetchWeather: 'Get weather',
+    print: 'Print'
+  },
+  savedLocations: {
+    saveCurrent: 'Save current location',
+    manage: 'Manage',
+    moveUp: 'Up',
+    moveDown: 'Down',
+    setHome: 'Set as default',
+    unsetHome: 'Unset default',
+    saved: 'Saved: {name}'
+  },
+  units: {
+    temperature: 'Temperature',
+    windSpeed: 'Wind',
+    precipitation: 'Precipitation',
+    beaufortSymbol: ' Bft',
+    options: {
+      celsius: 'Celsius °C',
+      fahrenheit: 'Fahrenheit °F',
+      kmh: 'km/h',
+      ms: 'm/s',
+      mph: 'mph',
+      beaufort: 'Beaufort',
+      mm: 'Millimeters mm',
+      inch: 'Inches in'
+    }
+  },
+  date: {
+    shortFormat: 'MMM D',
+    fullFormat: 'MMM D, YYYY',
+    weekdays: ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'],
+    weekdaysShort: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'],
+    months: ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'],
+    monthTitle: '{monthName} {year}'
+  },
+  wind: {
+    directions: ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'],
+    unknown: 'Variable'
+  },
+  weatherCodes: {
+    0: 'Clear sky',
+    1: 'Mainly clear',
+    2: 'Partly cloudy',
+    3: 'Overcast',
+    45: 'Fog',
+    48: 'Rime fog',
+    51: 'Light drizzle',
+    53: 'Moderate drizzle',
+    55: 'Dense drizzle',
+    56: 'Light freezing drizzle',
+    57: 'Dense freezing drizzle',
+    61: 'Slight rain',
+    63: 'Moderate rain',
+    65: 'Heavy rain',
+    66: 'Light freezing rain',
+    67: 'Heavy freezing rain',
+    71: 'Slight snow',
+    73: 'Moderate snow',
+    75: 'Heavy snow',
+    77: 'Snow grains',
+    80: 'Slight showers',
+    81: 'Moderate showers',
+    82: 'Violent showers',
+    85: 'Slight snow showers',
+    86: 'Heavy snow showers',
+    95: 'Thunderstorm',
+    96: 'Thunderstorm with slight hail',
+    99: 'Thunderstorm with heavy hail'
+  },
+  weather: {
+    unknown: 'Unknown',
+    unknownWeather: 'Unknown weather',
+    temperature: 'Temperature',
+    precipitation: 'Rain',
+    precipitationAmount: 'Precipitation',
+    cloudCover: 'Clouds',
+    windDirection: 'Direction',
+    wind: 'Wind',
+    gusts: 'Gusts',
+    humidity: 'Humidity',
+    feelsLike: 'Feels like',
+    uvIndex: 'UV',
+    pressure: 'Pressure',
+    sunriseSunset: 'Sun',
+    sunrise: 'Sunrise',
+    sunset: 'Sunset'
+  },
+  placeholder: {
+    missing: 'No data',
+    missingPast: 'Historical data missing',
+    missingToday: 'Current data missing',
+    missingFuture: 'Forecast data missing',
+    loading: 'Loading cache...',
+    loadingPast: 'Loading history...',
+    loadingToday: 'Loading current weather...',
+    loadingFuture: 'Loading forecast...',
+    offline: 'Offline',
+    offlinePast: 'History offline',
+    offlineToday: 'Current weather offline',
+    offlineFuture: 'Forecast offline',
+    windLoading: 'Loading',
+    retry: 'Retry',
+    retrying: 'Retrying...',
+    retrySuccess: 'Data for {date} has been filled in',
+    retryFailed: 'Data for {date} is still unavailable; it will be retried automatically when online'
+  },
+  moods: {
+    happy: 'Happy',
+    cheerful: 'Cheerful',
+    calm: 'Calm',
+    excited: 'Excited',
+    relaxed: 'Relaxed',
+    melancholy: 'Melancholy',
+    irritable: 'Irritable',
+    tired: 'Tired'
+  },
+  airQuality: {
+    air: 'Air',
+    ozone: 'Ozone',
+    pollen: 'Pollen (grains/m³)',
+    seriesName: 'Air quality AQI',
+    levels: {
+      good: 'Good',
+      moderate: 'Moderate',
+      unhealthySensitive: 'Unhealthy for sensitive groups',
+      unhealthy: 'Unhealthy',
+      veryUnhealthy: 'Very unhealthy',
+      hazardous: 'Hazardous'
+    },
+    pollenNames: {
+      alder: 'Alder',
+      birch: 'Birch',
+      grass: 'Grass',
+      mugwort: 'Mugwort',
+      olive: 'Olive',
+      ragweed: 'Ragweed'
+    }
+  },
+  climate: {
+    windowLabel: 'Climate normals',
+    windowYears: 'Last {n} yrs',
+    versusNormal: 'vs normal',
+    normalTitle: 'Normal: {min} / {max}, daily rain {precipitation}',
+    seriesName: 'Normal',
+    tooltip: 'Normal: {min} / {max}{anomaly}',
+    tooltipAnomaly: ' (max {delta})'
+  },
+  calendar: {
+    lunarMonths: ['1st month', '2nd month', '3rd month', '4th month', '5th month', '6th month', '7th month', '8th month', '9th month', '10th month', '11th month', '12th month'],
+    lunarDays: [
+      '1', '2', '3', '4', '5', '6', '7', '8', '9', '10',
+      '11', '12', '13', '14', '15', '16', '17', '18', '19', '20',
+      '21', '22', '23', '24', '25', '26', '27', '28', '29', '30'
+    ],
+    leapMonth: 'Leap {month}',
+    lunarShort: 'Lunar {m}/{d}',
+    lunarMonthStart: '{month} (lunar)',
+    lunarDate: 'Lunar {month}, day {day} · Year of the {zodiac} ({ganzhi})',
+    zodiac: ['Rat', 'Ox', 'Tiger', 'Rabbit', 'Dragon', 'Snake', 'Horse', 'Goat', 'Monkey', 'Rooster', 'Dog', 'Pig'],
+    solarTerms: [
+      'Spring Equinox', 'Clear and Bright', 'Grain Rain', 'Start of Summer', 'Grain Buds', 'Grain in Ear',
+      'Summer Solstice', 'Minor Heat', 'Major Heat', 'Start of Autumn', 'End of Heat', 'White Dew',
+      'Autumn Equinox', 'Cold Dew', 'Frost Descent', 'Start of Winter', 'Minor Snow', 'Major Snow',
+      'Winter Solstice', 'Minor Cold', 'Major Cold', 'Start of Spring', 'Rain Water', 'Awakening of Insects'
+    ],
+    solarTerm: 'Solar term: {name}',
+    holidays: {
+      newYear: "New Year's Day",
+      springFestival: 'Spring Festival',
+      qingming: 'Qingming Festival',
+      labourDay: 'Labour Day',
+      dragonBoat: 'Dragon Boat Festival',
+      midAutumn: 'Mid-Autumn Festival',
+      nationalDay: 'National Day',
+      nationalDayMidAutumn: 'National Day & Mid-Autumn'
+    },
+    holidayOff: 'Off',
+    makeUpWorkday: 'Work',
+    holidayTitle: '{name} holiday',
+    workdayTitle: 'Make-up workday for {name}'
+  },
+  astronomy: {
+    civilTwilight: 'Twilight',
+    civilTwilightFull: 'Civil dawn {dawn} · dusk {dusk}',
+    dayLength: 'Day length',
+    dayLengthValue: '{h}h {m}m',
+    polarDay: 'Polar day',
+    polarNight: 'Polar night',
+    moon: 'Moon',
+    moonValue: '{emoji} {phase} · {illumination}%',
+    seriesName: 'Day length',
+    moonPhases: {
+      new: 'New moon',
+      waxingCrescent: 'Waxing crescent',
+      firstQuarter: 'First quarter',
+      waxingGibbous: 'Waxing gibbous',
+      full: 'Full moon',
+      waningGibbous: 'Waning gibbous',
+      lastQuarter: 'Last quarter',
+      waningCrescent: 'Waning crescent'
+    }
+  },
+  alerts: {
+    bannerTitle: '⚠️ Weather alerts ({n})',
+    settings: 'Alert settings',
+    reset: 'Reset',
+    dayUnit: 'days',
+    fields: {
+      heatTemperature: 'Heat',
+      heatWaveDays: 'Heat wave',
+      heavyRain: 'Heavy rain',
+      strongWind: 'Strong wind',
+      temperatureDrop: 'Temperature drop',
+      freezingTemperature: 'Freezing'
+    },
+    titles: {
+      heatWave: 'Heat wave',
+      heavyRain: 'Heavy rain',
+      severeRain: 'Torrential rain',
+      strongWind: 'Gale, force {level}',
+      coldWave: 'Cold wave',
+      temperatureDrop: 'Sharp cooling',
+      freezing: 'Freezing'
+    },
+    messages: {
+      heatWave: 'Highs of at least {threshold} for {days} days in a row, peaking at {peak}',
+      heavyRain: 'Daily precipitation {precipitation}',
+      strongWind: 'Max wind {speed} {direction}',
+      temperatureDrop: 'Low drops by {drop}° to {min}',
+      freezing: 'Low of {min}, protect against frost',
+      freezingDays: 'Lows down to {min} for {days} days in a row, protect against frost'
+    }
+  },
+  card: {
+    editHint: "Tap to record today's mood"
+  },
+  loadMore: {
+    load: 'Load',
+    loading: 'Loading',
+    loadNext: 'Load next 7 days',
+    loadPrevious: 'Load previous 7 days',
+    forecastNext: 'Forecast next 3 days',
+    range: '{start} to {end}',
+    forecastRange: 'Forecast {start} to {end}'
+  },
+  comparison: {
+    placeholder: 'Add cities to compare (up to {n}, type to search)',
+    needLocation: 'Compare with other cities once your location is found',
+    hint: 'Pick saved locations or search for cities to compare the same period with the current location',
+    columns: {
+      city: 'City',
+      avgMax: 'Avg high',
+      avgMin: 'Avg low',
+      totalPrecipitation: 'Total rain',
+      rainyDays: 'Rainy days',
+      hottest: 'Highest',
+      coldest: 'Lowest',
+      wettest: 'Wettest day'
+    },
+    rainyDays: '{rainy}/{days} days',
+    noRain: 'No rain',
+    maxLocations: 'Compare up to {n} cities at a time',
+    temperatureAxis: 'Temperature ({unit})',
+    precipitationAxis: 'Precipitation ({unit})'
+  },
+  windRose: {
+    dominant: 'Prevailing wind',
+    averageSpeed: 'Average speed',
+    maxGust: 'Max gust',
+    days: '{n} days',
+    frequency: '{percent}% ({n} days)',
+    empty: 'No wind direction data in this range',
+    bins: {
+      light: 'Force {min}-{max}',
+      moderate: 'Force {min}-{max}',
+      fresh: 'Force {min}-{max}',
+      strong: 'Force {min}+'
+    }
+  },
+  accuracy: {
+    needLocation: 'Forecast accuracy is available once a location is set',
+    empty: 'No forecasts to evaluate yet. Forecasts are recorded whenever future dates are viewed and can be scored a few days later, once observations are available',
+    pending: '{n} forecasts awaiting observations',
+    summary: '{samples} forecasts evaluated: high MAE {maxMae}, low MAE {minMae}, rain accuracy {rain}',
+    leadDays: '{n}-day lead',
+    sameDay: 'Same day',
+    columns: {
+      lead: 'Lead time',
+      samples: 'Samples',
+      maxMae: 'High MAE',
+      minMae: 'Low MAE',
+      maxBias: 'High bias',
+      rain: 'Rain hit/miss/false',
+      rainAccuracy: 'Rain accuracy'
+    },
+    series: {
+      maxMae: 'High MAE',
+      minMae: 'Low MAE',
+      rainAccuracy: 'Rain accuracy'
+    },
+    errorAxis: 'Error ({unit})',
+    accuracyAxis: 'Accuracy (%)',
+    rainNote: 'A day counts as rainy at ≥ {threshold}; positive bias means the forecast ran warm',
+    clear: 'Clear history',
+    clearConfirm: 'Clear recorded forecasts for this location?',
+    loadFailed: 'Failed to fetch observations, please try again later'
+  },
+  chart: {
+    series: {
+      max: 'High',
+      min: 'Low',
+      current: 'Current',
+      precipitation: 'Precipitation',
+      weather: 'Weather',
+      mood: 'Mood',
+      wind: 'Wind direction'
+    },
+    temperatureAxis: 'Temperature ({unit})',
+    precipitationAxis: 'Precipitation ({unit})',
+    clickToOpen: '💡 Click to open the {date} diary',
+    video: '🎥 Video'
+  },
+  hourly: {
+    title: 'Hourly weather',
+    empty: 'No hourly data',
+    itemTitle: '{description} · clouds {cloudCover}% · {direction} {speed}',
+    rainPeriods: '🌧️ Rain: {periods}',
+    noRain: '☀️ No rain all day',
+    periodSeparator: ', ',
+    loadFailed: 'Failed to load hourly data',
+    offline: 'Offline, hourly data unavailable'
+  },
+  diary: {
+    title: 'Weather diary {date}',
+    editTitle: 'Edit weather diary {date}',
+    placeholder: 'How did the weather feel on {date}?',
+    loading: 'Loading diary...',
+    savedPreview: 'Saved diary: {preview}',
+    location: 'Place',
+    locationPlaceholder: 'Where were you?',
+    mood: "Today's mood",
+    moodLabel: 'Mood: ',
+    locationLabel: '📍 Place: ',
+    content: 'Diary',
+    images: 'Photos',
+    videos: 'Videos',
+    uploadImages: 'Upload photos',
+    selectImages: 'Choose photos ({count}/{max})',
+    uploadVideos: 'Upload videos',
+    selectVideos: 'Choose videos ({count}/{max})',
+    clearImages: 'Clear photos',
+    processingImages: 'Processing photos {current}/{total}',
+    supportedFormats: 'Supported formats: {formats}',
+    imageLimit: 'Up to {size}MB per photo, resized to {width}x{height}',
+    heicSupported: '✅ iPhone HEIC photos are converted automatically',
+    save: 'Save diary',
+    remove: 'Delete diary',
+    edit: 'Edit diary',
+    start: 'Start writing',
+    empty: 'No diary yet',
+    timeline: 'Entries of the day',
+    entryCount: '{n} entries',
+    entryTime: 'Time',
+    noTime: 'All day',
+    addEntry: 'Add entry',
+    editEntry: 'Edit entry',
+    deleteEntry: 'Delete entry',
+    deleteFailed: 'Delete failed, please try again',
+    progress: {
+      uploadingImages: 'Uploading photos...',
+      uploadingVideos: 'Uploading videos...',
+      saving: 'Saving diary...',
+      deleted: 'Diary deleted',
+      done: 'Saved!',
+      failed: 'Save failed, please try again'
+    },
+    confirmDelete: {
+      header: 'Confirm deletion',
+      body: 'Delete the weather diary for {date}? This cannot be undone.'
+    },
+    confirmDeleteEntry: {
+      header: 'Confirm deletion',
+      body: 'Delete the {time} entry of {date}? This cannot be undone.'
+    }
+  },
+  markdown: {
+    heading: 'Heading',
+    bold: 'Bold',
+    italic: 'Italic',
+    strike: 'Strikethrough',
+    bulletList: 'Bulleted list',
+    orderedList: 'Numbered list',
+    quote: 'Quote',
+    code: 'Inline code',
+    link: 'Link',
+    image: 'Insert image',
+    preview: 'Preview',
+    write: 'Write',
+    previewEmpty: 'Nothing to preview yet',
+    hint: 'Markdown supported: # heading, **bold**, *italic*, - list, > quote, [link](https://...), ![image](https://...)',
+    sample: 'text',
+    linkText: 'link text',
+    imageAlt: 'image description'
+  },
+  history: {
+    title: 'Revision history',
+    show: 'History',
+    hide: 'Hide history',
+    loading: 'Loading revisions...',
+    empty: 'No revisions for this day yet',
+    emptyContent: '(no text)',
+    compareHint: 'Tick two versions to compare them; tick one to compare it with the current entry',
+    compareTitle: '{from} → {to}',
+    current: 'Current',
+    deletedEntry: 'Deleted',
+    noChanges: 'No differences between these versions',
+    changeCount: '+{added} / -{removed} chars',
+    restore: 'Restore',
+    restored: 'Restored the selected version',
+    restoreFailed: 'Restore failed, please try again',
+    actions: {
+      create: 'Created',
+      update: 'Edited',
+      delete: 'Deleted',
+      restore: 'Restored'
+    },
+    fields: {
+      time: 'Time',
+      mood: 'Mood',
+      city: 'Location',
+      tags: 'Tags',
+      images: 'Photos',
+      videos: 'Videos',
+      content: 'Text'
+    },
+    confirmRestore: {
+      header: 'Restore revision',
+      body: 'Restore the {time} entry to the version saved at {savedAt}? The current content stays in the history.'
+    }
+  },
+  tags: {
+    label: 'Tags',
+    placeholder: 'Pick or type a tag, press Enter to add',
+    filter: 'Tags',
+    filterActive: 'Tags ({n})',
+    filterHint: 'Highlight days whose diary has all selected tags',
+    empty: 'No tags in diaries of the current date range yet',
+    mode: 'Other cards',
+    modes: {
+      dim: 'Dim',
+      hide: 'Hide'
+    },
+    clear: 'Clear filter',
+    hiddenDays: '{n} days hidden by tags {tags}'
+  },
+  search: {
+    open: 'Search diary',
+    title: 'Search diary',
+    keywordPlaceholder: 'Keywords, separated by spaces',
+    anyMood: 'Any mood',
+    cityPlaceholder: 'City',
+    submit: 'Search',
+    hint: 'Search diaries by keyword, date, mood or city, then click a result to open that day',
+    resultCount: '{n} results',
+    localSource: 'Offline results from cached diaries only',
+    noResults: 'No diaries match these filters',
+    failed: 'Search failed, please try again later'
+  },
+  backup: {
+    open: 'Backup',
+    title: 'Diary backup',
+    exportTitle: 'Export',
+    importTitle: 'Import',
+    formats: {
+      json: 'JSON',
+      markdown: 'Markdown',
+      zip: 'ZIP (with media)'
+    },
+    formatHints: {
+      json: 'Complete diary data that can be imported again; images and videos keep their original links',
+      markdown: 'One Markdown file per day for reading and archiving; cannot be imported',
+      zip: 'JSON, Markdown and all images and videos, for a complete restore'
+    },
+    export: 'Export',
+    exported: 'Exported {n} diary entries',
+    exportFailed: 'Export failed, please try again later',
+    mediaWarnings: '{n} media files could not be downloaded and keep their original links:',
+    chooseFile: 'Choose backup file (.json / .zip)',
+    parsedSummary: 'The backup contains {n} entries over {days} days and {media} media files',
+    invalidEntries: '{n} records could not be read and will be skipped:',
+    conflictDays: '{n} days already have diaries:',
+    conflictDetail: '{incoming} in backup, {existing} existing, {conflicts} of them the same entry',
+    noConflicts: 'None of the backup dates have diaries yet; everything will be imported',
+    strategies: {
+      skip: 'Skip existing entries',
+      overwrite: 'Overwrite with backup',
+      keepBoth: 'Keep both (import as new entries)'
+    },
+    import: 'Import',
+    imported: 'Import finished',
+    importPartial: 'Import finished, {n} entries failed',
+    importFailed: 'Import failed, please try again later',
+    importResult: '{created} created, {updated} updated, {skipped} skipped, {failed} failed.',
+    mediaResult: '{restored} media files restored, {failed} failed.',
+    videoIndex: 'Video {n}',
+    stages: {
+      loading: 'Reading diaries…',
+      media: 'Downloading images and videos…',
+      packing: 'Packing…',
+      saving: 'Importing…'
+    },
+    errors: {
+      parse: 'The file is not valid JSON',
+      zip: 'The file is not a valid ZIP archive',
+      noJson: 'The archive does not contain {file}',
+      notObject: 'The backup content is malformed',
+      format: 'This is not a Weather Duck diary backup',
+      version: 'The backup version is invalid',
+      newerVersion: 'Backup version {version} is newer than the supported version {supported}; please update the app',
+      diaries: 'The backup has no diary list',
+      entryNotObject: 'Not a valid diary entry',
+      date: 'Invalid date',
+      time: 'Invalid time',
+      field: 'Invalid {field} field',
+      empty: 'The entry is empty'
+    }
+  },
+  offline: {
+    mode: 'Offline'
+  },
+  pwa: {
+    promptTitle: 'Install Weather Diary',
+    promptDesc: 'Add it to your home screen for a better experience',
+    install: 'Install',
+    later: 'Later',
+    addToDesktop: 'Add to desktop',
+    installed: 'The app is installed on your device',
+    installDesc: 'Add Weather Duck to your desktop and log weather and mood anywhere',
+    installApp: 'Install app',
+    desktop: 'Desktop',
+    autoInstallStep: 'Click the "Install app" button below to install automatically',
+    guides: {
+      installed: {
+        title: 'Installed',
+        steps: ['The app is already installed on your device!']
+      },
+      iosSafari: {
+        title: 'iOS Safari install guide',
+        steps: [
+          '1. Tap the "Share" button at the bottom (square with arrow)',
+          '2. Scroll down and tap "Add to Home Screen"',
+          '3. Tap "Add" in the top right corner',
+          '4. The app icon appears on your home screen'
+        ]
+      },
+      iosChrome: {
+        title: 'iOS Chrome install guide',
+        steps: [
+          '1. Tap the "..." menu in the top right corner',
+          '2. Choose "Add to Home Screen"',
+          '3. Tap "Add"',
+          'Note: Safari offers a better PWA experience'
+        ]
+      },
+      androidChrome: {
+        title: 'Android Chrome install guide',
+        steps: [
+          '1. Tap the "⋮" menu in the top right corner',
+          '2. Choose "Install app" or "Add to Home screen"',
+          '3. Tap "Install"',
+          '4. The app icon appears on your home screen'
+        ]
+      },
+      samsung: {
+        title: 'Samsung Internet install guide',
+        steps: [
+          '1. Tap the "≡" menu at the bottom',
+          '2. Choose "Add page to"',
+          '3. Choose "Home screen"',
+          '4. Tap "Add"'
+        ]
+      },
+      desktop: {
+        title: '{browser} desktop install guide',
+        steps: [
+          '1. Click the install icon (⊕) at the right of the address bar',
+          '2. Or open the "⋮" menu in the top right corner',
+          '3. Choose "Install Weather Duck Diary..."',
+          '4. Click "Install"'
+        ]
+      },
+      firefox: {
+        title: 'Firefox install notes',
+        steps: [
+          'Firefox does not fully support installing PWAs yet',
+          'Chrome, Edge or Safari are recommended',
+          'for the full offline and install experience'
+        ]
+      },
+      generic: {
+        title: 'Install guide',
+        steps: [
+          '1. Look for "Add to Home Screen" or "Install app" in the browser menu',
+          '2. Follow the prompts to finish installing',
+          '3. The app icon appears on your device'
+        ]
+      }
+    }
+  },
+  about: {
+    scanToVisit: 'Scan to open on your phone',
+    developer: 'Developer: ',
+    developerName: 'Yang Ruoji',
+    email: 'Email: ',
+    className: 'Class: ',
+    classValue: 'Senior 3 (10), Shenzhen Senior High School North',
+    project: 'Project: ',
+    projectValue: 'Summer homework',
+    github: 'GitHub: Weather Duck source code'
+  },
+  cache: {
+    title: 'Cache status',
+    network: 'Network:',
+    online: '🌐 Online',
+    offline: '📱 Offline',
+    mode: 'Mode:',
+    cacheFirst: '⚡ Cache first',
+    weather: 'Weather cache:',
+    diary: 'Diary cache:',
+    size: 'Cache size:',
+    range: 'Cache range:',
+    refreshing: 'Refreshing...',
+    refresh: '🔄 Refresh cache',
+    clear: '🗑️ Clear cache',
+    refreshStarted: 'Cache refresh started',
+    refreshFailed: 'Failed to refresh cache',
+    cleared: 'Cache cleared',
+    clearFailed: 'Failed to clear cache',
+    empty: 'No data'
+  }
+}
+
+export default enUS
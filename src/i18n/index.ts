@@ -0,0 +1,110 @@
+// 界面国际化：响应式的当前语言 + 按键取文案，模板中调用 t() 会随语言切换自动刷新
+import { reactive } from 'vue'
+import zhCN, { type Messages } from './zh-CN'
+import enUS from './en-US'
+
+export type Locale = 'zh-CN' | 'en-US'
+
+export const LOCALE_OPTIONS: { label: string; value: Locale }[] = [
+  { label: '中文', value: 'zh-CN' },
+  { label: 'English', value: 'en-US' }
+]
+
+const STORAGE_KEY = 'weather_locale'
+const DEFAULT_LOCALE: Locale = 'zh-CN'
+
+const MESSAGES: Record<Locale, Messages> = {
+  'zh-CN': zhCN,
+  'en-US': enUS
+}
+
+function isLocale(value: unknown): value is Locale {
+  return LOCALE_OPTIONS.some(o => o.value === value)
+}
+
+// 优先使用保存的语言，其次按浏览器语言判断
+function loadLocale(): Locale {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    if (isLocale(saved)) return saved
+  } catch {
+    // 存储不可用时按浏览器语言
+  }
+  if (typeof navigator !== 'undefined' && navigator.language && !/^zh/i.test(navigator.language)) {
+    return 'en-US'
+  }
+  return DEFAULT_LOCALE
+}
+
+export const i18nState = reactive<{ locale: Locale }>({ locale: loadLocale() })
+
+if (typeof document !== 'undefined') {
+  document.documentElement.lang = i18nState.locale
+}
+
+function lookup(messages: Messages, key: string): unknown {
+  return key.split('.').reduce<unknown>((node, part) => {
+    return node && typeof node === 'object' ? (node as Record<string, unknown>)[part] : undefined
+  }, messages)
+}
+
+// 按点分隔的键取文案，{name} 形式的占位符用 params 替换；缺失时回退到中文，再回退到键本身
+export function t(key: string, params?: Record<string, string | number>): string {
+  let value = lookup(MESSAGES[i18nState.locale], key)
+  if (typeof value !== 'string') value = lookup(MESSAGES[DEFAULT_LOCALE], key)
+  if (typeof value !== 'string') return key
+  if (!params) return value
+  return value.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] !== undefined ? String(params[name]) : match
+  )
+}
+
+// 取数组等非字符串文案（如星期、风向列表）
+export function tm<T = string[]>(key: string): T {
+  const value = lookup(MESSAGES[i18nState.locale], key)
+  return (value !== undefined ? value : lookup(MESSAGES[DEFAULT_LOCALE], key)) as T
+}
+
+// 取指定语言的文案（不回退），用于识别以其他语言保存的文本
+export function tmIn<T = string[]>(locale: Locale, key: string): T {
+  return lookup(MESSAGES[locale], key) as T
+}
+
+// 在所有语言中查找与文本完全一致的文案，返回其所在路径下的子键（用于把已保存的文本映射回编码）
+export function findMessageKey(section: string, text: string): string | null {
+  for (const locale of LOCALE_OPTIONS.map(o => o.value)) {
+    const node = lookup(MESSAGES[locale], section)
+    if (!node || typeof node !== 'object') continue
+    const entry = Object.entries(node as Record<string, unknown>).find(([, value]) => value === text)
+    if (entry) return entry[0]
+  }
+  return null
+}
+
+export function getLocale(): Locale {
+  return i18nState.locale
+}
+
+export function isEnglish(): boolean {
+  return i18nState.locale === 'en-US'
+}
+
+// 切换语言并保存，通知需要手动重绘的组件（如图表）
+export function setLocale(locale: Locale): void {
+  if (!isLocale(locale) || locale === i18nState.locale) return
+  i18nState.locale = locale
+  try {
+    localStorage.setItem(STORAGE_KEY, locale)
+  } catch {
+    // 存储不可用时仅本次会话生效
+  }
+  if (typeof document !== 'undefined') {
+    document.documentElement.lang = locale
+  }
+  window.dispatchEvent(new CustomEvent('locale:changed', { detail: { locale } }))
+}
+
+// 地理编码接口使用的语言代码
+export function geocodingLanguage(): string {
+  return i18nState.locale === 'en-US' ? 'en' : 'zh'
+}
@@ -0,0 +1,730 @@
+// 简体中文文案（作为其他语言文案的结构基准）
+const zhCN = {
+  common: {
+    cancel: '取消',
+    close: '关闭',
+    delete: '删除',
+    loading: '加载中...',
+    refresh: '刷新',
+    prevDay: '上一天',
+    nextDay: '下一天',
+    collapse: '收起',
+    expand: '展开',
+    expandAll: '展开全部',
+    noData: '暂无数据',
+    days: '{n}天',
+    forecast: '预报',
+    diaryImage: '日记图片',
+    imageIndex: '图片 {n}',
+    preview: '预览',
+    videoUnsupported: '您的浏览器不支持视频播放',
+    listSeparator: '、',
+    rangeSeparator: '至'
+  },
+  app: {
+    name: '天气小鸭',
+    title: '天气小鸭 · 暑假天气日历',
+    about: '关于天气小鸭',
+    loadingData: '数据加载中...',
+    trendChart: '天气趋势图表',
+    windRose: '风向玫瑰图',
+    comparison: '城市对比',
+    accuracy: '预报准确率',
+    footerSource: '数据来源：{provider} · 时区：{timeZone} · 位置：{address}（{lat}, {lon}）',
+    defaultLocationNote: '（默认位置）',
+    copyright: '©️版权所有：杨若即 · ',
+    githubProject: 'GitHub项目',
+    refreshTooltip: '点击刷新应用',
+    invalidRange: '日期范围不合法（开始不能晚于结束，且最多{max}天）。',
+    fetchFailed: '获取天气失败',
+    loadNextFailed: '加载后7天数据失败，请重试',
+    loadPreviousFailed: '加载前7天数据失败，请重试',
+    refreshDialog: {
+      header: '刷新应用',
+      body: '当前版本：v{version}\n\n确定要刷新应用以获取最新版本吗？\n\n这将清除缓存并重新加载应用。',
+      confirm: '确认刷新'
+    },
+    refreshing: '正在刷新应用...',
+    refreshFailed: '刷新失败，请手动刷新页面'
+  },
+  providers: {
+    'open-meteo': 'Open-Meteo 免费API',
+    fixture: '离线样例数据'
+  },
+  language: {
+    label: '语言'
+  },
+  location: {
+    locating: '定位中...',
+    useLocation: '使用定位',
+    unknown: '未知位置',
+    current: '当前定位',
+    defaultSuffix: '（默认）',
+    defaultCity: '深圳市 · 广东省 · 中国',
+    usingDefault: '已使用默认位置：{name}',
+    notSupported: '您的浏览器不支持定位功能，请手动选择城市或升级浏览器',
+    needHttps: '定位功能需要HTTPS环境，请使用 https://yangruoji.com 访问',
+    permissionBlocked: '定位权限被拒绝，请在浏览器地址栏左侧点击🔒图标，允许位置访问权限',
+    success: {
+      geolocation: '🎯 GPS定位成功！',
+      ip: '🌐 IP定位成功！',
+      default: '🏠 使用默认位置'
+    },
+    failed: '定位失败',
+    errors: {
+      denied: '定位权限被拒绝，请在浏览器设置中允许访问位置信息',
+      unavailable: '定位服务暂时不可用，请检查网络连接',
+      timeout: '定位请求超时，请检查网络连接和GPS信号',
+      generic: '定位功能遇到问题，将使用默认位置'
+    }
+  },
+  header: {
+    searchPlaceholder: '搜索城市（中文/英文）',
+    selectCity: '选择城市',
+    startDate: '开始日期',
+    endDate: '结束日期',
+    fetchWeather: '获取天气',
+    print: '打印'
+  },
+  savedLocations: {
+    saveCurrent: '收藏当前位置',
+    manage: '管理',
+    moveUp: '上移',
+    moveDown: '下移',
+    setHome: '设为默认',
+    unsetHome: '取消默认',
+    saved: '已收藏：{name}'
+  },
+  units: {
+    temperature: '温度',
+    windSpeed: '风速',
+    precipitation: '降水',
+    beaufortSymbol: '级',
+    options: {
+      celsius: '摄氏度 °C',
+      fahrenheit: '华氏度 °F',
+      kmh: 'km/h',
+      ms: 'm/s',
+      mph: 'mph',
+      beaufort: '风力等级',
+      mm: '毫米 mm',
+      inch: '英寸 in'
+    }
+  },
+  date: {
+    shortFormat: 'MM月DD日',
+    fullFormat: 'YYYY年MM月DD日',
+    weekdays: ['星期日', '星期一', '星期二', '星期三', '星期四', '星期五', '星期六'],
+    weekdaysShort: ['日', '一', '二', '三', '四', '五', '六'],
+    months: ['一月', '二月', '三月', '四月', '五月', '六月', '七月', '八月', '九月', '十月', '十一月', '十二月'],
+    monthTitle: '{year}年{month}月'
+  },
+  wind: {
+    directions: ['北风', '东北风', '东风', '东南风', '南风', '西南风', '西风', '西北风'],
+    unknown: '不详'
+  },
+  // WMO 天气代码
+  weatherCodes: {
+    0: '晴天',
+    1: '晴间多云',
+    2: '多云',
+    3: '阴天',
+    45: '雾',
+    48: '雾凇',
+    51: '小毛毛雨',
+    53: '中毛毛雨',
+    55: '大毛毛雨',
+    56: '轻度冻毛毛雨',
+    57: '重度冻毛毛雨',
+    61: '小雨',
+    63: '中雨',
+    65: '大雨',
+    66: '轻度冻雨',
+    67: '重度冻雨',
+    71: '小雪',
+    73: '中雪',
+    75: '大雪',
+    77: '雪粒',
+    80: '小阵雨',
+    81: '中阵雨',
+    82: '大阵雨',
+    85: '小阵雪',
+    86: '大阵雪',
+    95: '雷雨',
+    96: '雷阵雨伴小冰雹',
+    99: '雷阵雨伴大冰雹'
+  },
+  weather: {
+    unknown: '未知',
+    unknownWeather: '未知天气',
+    temperature: '温度',
+    precipitation: '降雨',
+    precipitationAmount: '降雨量',
+    cloudCover: '云量',
+    windDirection: '风向',
+    wind: '风力',
+    gusts: '阵风',
+    humidity: '湿度',
+    feelsLike: '体感',
+    uvIndex: '紫外线',
+    pressure: '气压',
+    sunriseSunset: '日出落',
+    sunrise: '日出',
+    sunset: '日落'
+  },
+  placeholder: {
+    missing: '数据缺失',
+    missingPast: '历史数据缺失',
+    missingToday: '实时数据缺失',
+    missingFuture: '预报数据缺失',
+    loading: '缓存加载中...',
+    loadingPast: '历史数据加载中...',
+    loadingToday: '实时数据加载中...',
+    loadingFuture: '预报数据加载中...',
+    offline: '离线模式',
+    offlinePast: '历史数据离线',
+    offlineToday: '实时数据离线',
+    offlineFuture: '预报数据离线',
+    windLoading: '加载中',
+    retry: '重试',
+    retrying: '重试中...',
+    retrySuccess: '已补齐 {date} 的数据',
+    retryFailed: '{date} 的数据仍无法获取，将在联网后自动重试'
+  },
+  moods: {
+    happy: '开心',
+    cheerful: '愉快',
+    calm: '平静',
+    excited: '兴奋',
+    relaxed: '放松',
+    melancholy: '忧郁',
+    irritable: '烦躁',
+    tired: '疲惫'
+  },
+  airQuality: {
+    air: '空气',
+    ozone: '臭氧',
+    pollen: '花粉(粒/m³)',
+    seriesName: '空气质量AQI',
+    levels: {
+      good: '优',
+      moderate: '良',
+      unhealthySensitive: '轻度污染',
+      unhealthy: '中度污染',
+      veryUnhealthy: '重度污染',
+      hazardous: '严重污染'
+    },
+    pollenNames: {
+      alder: '桤木',
+      birch: '桦树',
+      grass: '禾草',
+      mugwort: '艾蒿',
+      olive: '橄榄',
+      ragweed: '豚草'
+    }
+  },
+  climate: {
+    windowLabel: '常年值统计',
+    windowYears: '近{n}年',
+    versusNormal: '较常年',
+    normalTitle: '常年同期：{min} / {max}，日均降雨 {precipitation}',
+    seriesName: '常年同期',
+    tooltip: '常年同期: {min} / {max}{anomaly}',
+    tooltipAnomaly: '（最高温{delta}）'
+  },
+  calendar: {
+    lunarMonths: ['正月', '二月', '三月', '四月', '五月', '六月', '七月', '八月', '九月', '十月', '冬月', '腊月'],
+    lunarDays: [
+      '初一', '初二', '初三', '初四', '初五', '初六', '初七', '初八', '初九', '初十',
+      '十一', '十二', '十三', '十四', '十五', '十六', '十七', '十八', '十九', '二十',
+      '廿一', '廿二', '廿三', '廿四', '廿五', '廿六', '廿七', '廿八', '廿九', '三十'
+    ],
+    leapMonth: '闰{month}',
+    lunarShort: '{day}',
+    lunarMonthStart: '{month}',
+    lunarDate: '农历{ganzhi}年（{zodiac}）{month}{day}',
+    zodiac: ['鼠', '牛', '虎', '兔', '龙', '蛇', '马', '羊', '猴', '鸡', '狗', '猪'],
+    // 按太阳黄经 0° 春分起，每 15° 一个
+    solarTerms: [
+      '春分', '清明', '谷雨', '立夏', '小满', '芒种', '夏至', '小暑', '大暑', '立秋', '处暑', '白露',
+      '秋分', '寒露', '霜降', '立冬', '小雪', '大雪', '冬至', '小寒', '大寒', '立春', '雨水', '惊蛰'
+    ],
+    solarTerm: '节气：{name}',
+    holidays: {
+      newYear: '元旦',
+      springFestival: '春节',
+      qingming: '清明节',
+      labourDay: '劳动节',
+      dragonBoat: '端午节',
+      midAutumn: '中秋节',
+      nationalDay: '国庆节',
+      nationalDayMidAutumn: '国庆节、中秋节'
+    },
+    holidayOff: '休',
+    makeUpWorkday: '班',
+    holidayTitle: '{name}假期',
+    workdayTitle: '{name}调休上班'
+  },
+  astronomy: {
+    civilTwilight: '晨昏',
+    civilTwilightFull: '民用晨光始 {dawn} · 昏影终 {dusk}',
+    dayLength: '日长',
+    dayLengthValue: '{h}小时{m}分',
+    polarDay: '极昼',
+    polarNight: '极夜',
+    moon: '月相',
+    moonValue: '{emoji} {phase} · {illumination}%',
+    seriesName: '日长',
+    moonPhases: {
+      new: '新月',
+      waxingCrescent: '娥眉月',
+      firstQuarter: '上弦月',
+      waxingGibbous: '盈凸月',
+      full: '满月',
+      waningGibbous: '亏凸月',
+      lastQuarter: '下弦月',
+      waningCrescent: '残月'
+    }
+  },
+  alerts: {
+    bannerTitle: '⚠️ 天气预警（{n}）',
+    settings: '预警设置',
+    reset: '恢复默认',
+    dayUnit: '天',
+    fields: {
+      heatTemperature: '高温',
+      heatWaveDays: '连续高温',
+      heavyRain: '强降雨',
+      strongWind: '大风',
+      temperatureDrop: '降温幅度',
+      freezingTemperature: '冰冻'
+    },
+    titles: {
+      heatWave: '高温热浪',
+      heavyRain: '暴雨',
+      severeRain: '大暴雨',
+      strongWind: '大风 {level} 级',
+      coldWave: '寒潮',
+      temperatureDrop: '骤然降温',
+      freezing: '低温冰冻'
+    },
+    messages: {
+      heatWave: '连续 {days} 天最高气温不低于 {threshold}，最高 {peak}',
+      heavyRain: '日降水量 {precipitation}',
+      strongWind: '最大风速 {speed} {direction}',
+      temperatureDrop: '最低气温下降 {drop}°，降至 {min}',
+      freezing: '最低气温 {min}，注意防冻',
+      freezingDays: '连续 {days} 天最低气温 {min}，注意防冻'
+    }
+  },
+  card: {
+    editHint: '点击记录今日心情'
+  },
+  loadMore: {
+    load: '加载',
+    loading: '加载中',
+    loadNext: '加载后7天数据',
+    loadPrevious: '加载前7天数据',
+    forecastNext: '预测未来3天数据',
+    range: '{start} 至 {end}',
+    forecastRange: '预测 {start} 至 {end}'
+  },
+  comparison: {
+    placeholder: '添加对比城市（最多 {n} 个，可输入搜索）',
+    needLocation: '定位完成后即可与其他城市对比',
+    hint: '选择收藏地点或搜索城市，与当前位置对比同一时间段的天气',
+    columns: {
+      city: '城市',
+      avgMax: '平均最高',
+      avgMin: '平均最低',
+      totalPrecipitation: '总降雨量',
+      rainyDays: '雨天',
+      hottest: '最高温',
+      coldest: '最低温',
+      wettest: '最大日降雨'
+    },
+    rainyDays: '{rainy}/{days} 天',
+    noRain: '无降雨',
+    maxLocations: '最多同时对比 {n} 个城市',
+    temperatureAxis: '温度({unit})',
+    precipitationAxis: '降雨量({unit})'
+  },
+  windRose: {
+    dominant: '主导风向',
+    averageSpeed: '平均风速',
+    maxGust: '最大阵风',
+    days: '共 {n} 天',
+    frequency: '{percent}%（{n} 天）',
+    empty: '当前范围内没有风向数据',
+    bins: {
+      light: '{min}-{max} 级',
+      moderate: '{min}-{max} 级',
+      fresh: '{min}-{max} 级',
+      strong: '{min} 级以上'
+    }
+  },
+  accuracy: {
+    needLocation: '定位完成后即可查看该地点的预报准确率',
+    empty: '还没有可评估的预报。查看包含未来日期的天气时会自动记录预报，几天后有实况数据即可评估',
+    pending: '{n} 条预报等待实况数据',
+    summary: '已评估 {samples} 条预报：最高温平均误差 {maxMae}，最低温平均误差 {minMae}，降雨预报正确率 {rain}',
+    leadDays: '提前 {n} 天',
+    sameDay: '当天',
+    columns: {
+      lead: '提前天数',
+      samples: '样本数',
+      maxMae: '最高温误差',
+      minMae: '最低温误差',
+      maxBias: '最高温偏差',
+      rain: '降雨命中/漏报/空报',
+      rainAccuracy: '降雨正确率'
+    },
+    series: {
+      maxMae: '最高温平均误差',
+      minMae: '最低温平均误差',
+      rainAccuracy: '降雨正确率'
+    },
+    errorAxis: '误差({unit})',
+    accuracyAxis: '正确率(%)',
+    rainNote: '日降水量 ≥ {threshold} 记为有雨；偏差为正表示预报偏暖',
+    clear: '清空记录',
+    clearConfirm: '确定清空该地点的预报记录吗？',
+    loadFailed: '获取实况数据失败，请稍后重试'
+  },
+  chart: {
+    series: {
+      max: '最高温度',
+      min: '最低温度',
+      current: '当前温度',
+      precipitation: '降雨量',
+      weather: '天气状态',
+      mood: '心情状态',
+      wind: '风向'
+    },
+    temperatureAxis: '温度 ({unit})',
+    precipitationAxis: '降雨量 ({unit})',
+    clickToOpen: '💡 点击打开 {date} 天气日记',
+    video: '🎥 视频'
+  },
+  hourly: {
+    title: '逐小时天气',
+    empty: '暂无逐小时数据',
+    itemTitle: '{description} · 云量 {cloudCover}% · {direction} {speed}',
+    rainPeriods: '🌧️ 降雨时段：{periods}',
+    noRain: '☀️ 全天无降雨',
+    periodSeparator: '，',
+    loadFailed: '逐小时数据加载失败',
+    offline: '离线状态，无法加载逐小时数据'
+  },
+  diary: {
+    title: '{date} 天气日记',
+    editTitle: '编辑 {date} 天气日记',
+    placeholder: '记录一下 {date} 的天气感受吧...',
+    loading: '正在加载日记...',
+    savedPreview: '已保存日记：{preview}',
+    location: '具体位置',
+    locationPlaceholder: '记录当时所在的具体地点',
+    mood: '今日心情',
+    moodLabel: '心情：',
+    locationLabel: '📍 位置：',
+    content: '日记内容',
+    images: '图片记录',
+    videos: '视频记录',
+    uploadImages: '上传图片',
+    selectImages: '选择图片 ({count}/{max})',
+    uploadVideos: '上传视频',
+    selectVideos: '选择视频 ({count}/{max})',
+    clearImages: '清空图片',
+    processingImages: '正在处理图片 {current}/{total}',
+    supportedFormats: '支持格式：{formats}',
+    imageLimit: '单张图片最大{size}MB，自动压缩至{width}x{height}',
+    heicSupported: '✅ 自动转换iPhone HEIC格式',
+    save: '保存日记',
+    remove: '删除日记',
+    edit: '编辑日记',
+    start: '开始记录',
+    empty: '暂无日记内容',
+    timeline: '当天记录',
+    entryCount: '{n} 条日记',
+    entryTime: '记录时间',
+    noTime: '全天',
+    addEntry: '再记一条',
+    editEntry: '编辑这条',
+    deleteEntry: '删除这条',
+    deleteFailed: '删除失败，请重试',
+    progress: {
+      uploadingImages: '正在上传图片...',
+      uploadingVideos: '正在上传视频...',
+      saving: '正在保存日记...',
+      deleted: '日记已删除',
+      done: '保存完成！',
+      failed: '保存失败，请重试'
+    },
+    confirmDelete: {
+      header: '确认删除',
+      body: '确定要删除 {date} 的天气日记吗？删除后无法恢复。'
+    },
+    confirmDeleteEntry: {
+      header: '确认删除',
+      body: '确定要删除 {date} {time} 的这条日记吗？删除后无法恢复。'
+    }
+  },
+  markdown: {
+    heading: '标题',
+    bold: '粗体',
+    italic: '斜体',
+    strike: '删除线',
+    bulletList: '无序列表',
+    orderedList: '有序列表',
+    quote: '引用',
+    code: '行内代码',
+    link: '链接',
+    image: '插入图片',
+    preview: '预览',
+    write: '编辑',
+    previewEmpty: '还没有内容可以预览',
+    hint: '支持 Markdown：# 标题、**粗体**、*斜体*、- 列表、> 引用、[链接](https://...)、![图片](https://...)',
+    sample: '文字',
+    linkText: '链接文字',
+    imageAlt: '图片说明'
+  },
+  history: {
+    title: '修订历史',
+    show: '修订历史',
+    hide: '收起历史',
+    loading: '正在加载修订记录...',
+    empty: '这一天还没有修订记录',
+    emptyContent: '（无文字内容）',
+    compareHint: '勾选两个版本查看差异；只勾选一个时与该条目的当前内容对比',
+    compareTitle: '{from} → {to}',
+    current: '当前内容',
+    deletedEntry: '已删除',
+    noChanges: '两个版本没有差异',
+    changeCount: '+{added} / -{removed} 字',
+    restore: '恢复',
+    restored: '已恢复到所选版本',
+    restoreFailed: '恢复失败，请重试',
+    actions: {
+      create: '新建',
+      update: '修改',
+      delete: '删除',
+      restore: '恢复'
+    },
+    fields: {
+      time: '时间',
+      mood: '心情',
+      city: '位置',
+      tags: '标签',
+      images: '图片数',
+      videos: '视频数',
+      content: '正文'
+    },
+    confirmRestore: {
+      header: '恢复历史版本',
+      body: '将 {time} 的这条日记恢复到 {savedAt} 保存的版本？当前内容会保留在修订历史中。'
+    }
+  },
+  tags: {
+    label: '标签',
+    placeholder: '选择或输入标签，回车添加',
+    filter: '标签筛选',
+    filterActive: '标签筛选 ({n})',
+    filterHint: '只突出当天日记包含全部所选标签的卡片',
+    empty: '当前日期范围内的日记还没有标签',
+    mode: '不匹配的卡片',
+    modes: {
+      dim: '调暗',
+      hide: '隐藏'
+    },
+    clear: '清除筛选',
+    hiddenDays: '已按标签 {tags} 隐藏 {n} 天'
+  },
+  search: {
+    open: '搜索日记',
+    title: '搜索日记',
+    keywordPlaceholder: '关键词，多个词用空格分隔',
+    anyMood: '任意心情',
+    cityPlaceholder: '城市',
+    submit: '搜索',
+    hint: '按关键词、日期、心情或城市搜索日记，点击结果查看当天日记',
+    resultCount: '共 {n} 条结果',
+    localSource: '离线结果，仅包含已缓存的日记',
+    noResults: '没有找到符合条件的日记',
+    failed: '搜索失败，请稍后重试'
+  },
+  backup: {
+    open: '备份',
+    title: '日记备份',
+    exportTitle: '导出',
+    importTitle: '导入',
+    formats: {
+      json: 'JSON',
+      markdown: 'Markdown',
+      zip: 'ZIP（含媒体）'
+    },
+    formatHints: {
+      json: '完整的日记数据，可用于导入恢复；图片和视频保留原链接',
+      markdown: '每天一个 Markdown 文件，方便阅读和归档，不能用于导入',
+      zip: '包含 JSON、Markdown 和全部图片视频，可完整导入恢复'
+    },
+    export: '导出',
+    exported: '已导出 {n} 条日记',
+    exportFailed: '导出失败，请稍后重试',
+    mediaWarnings: '{n} 个媒体文件下载失败，备份中保留了原链接：',
+    chooseFile: '选择备份文件（.json / .zip）',
+    parsedSummary: '备份包含 {n} 条日记，共 {days} 天，{media} 个媒体文件',
+    invalidEntries: '{n} 条记录无法识别，将被跳过：',
+    conflictDays: '{n} 天已有日记：',
+    conflictDetail: '备份 {incoming} 条，现有 {existing} 条，其中 {conflicts} 条对应同一篇',
+    noConflicts: '备份中的日期都还没有日记，将直接导入',
+    strategies: {
+      skip: '跳过已有的条目',
+      overwrite: '用备份覆盖',
+      keepBoth: '全部保留（新增为另一条）'
+    },
+    import: '开始导入',
+    imported: '导入完成',
+    importPartial: '导入完成，其中 {n} 条失败',
+    importFailed: '导入失败，请稍后重试',
+    importResult: '新增 {created} 条，更新 {updated} 条，跳过 {skipped} 条，失败 {failed} 条。',
+    mediaResult: '恢复媒体 {restored} 个，失败 {failed} 个。',
+    videoIndex: '视频 {n}',
+    stages: {
+      loading: '正在读取日记…',
+      media: '正在下载图片和视频…',
+      packing: '正在打包…',
+      saving: '正在导入…'
+    },
+    errors: {
+      parse: '文件不是有效的 JSON',
+      zip: '文件不是有效的 ZIP 压缩包',
+      noJson: '压缩包中缺少 {file}',
+      notObject: '备份内容格式不正确',
+      format: '不是天气小鸭的日记备份文件',
+      version: '备份版本号无效',
+      newerVersion: '备份版本 {version} 高于当前支持的版本 {supported}，请先更新应用',
+      diaries: '备份中缺少日记列表',
+      entryNotObject: '不是有效的日记条目',
+      date: '日期格式不正确',
+      time: '时间格式不正确',
+      field: '字段 {field} 格式不正确',
+      empty: '日记内容为空'
+    }
+  },
+  offline: {
+    mode: '离线模式'
+  },
+  pwa: {
+    promptTitle: '安装天气日记',
+    promptDesc: '添加到主屏幕，获得更好的使用体验',
+    install: '安装',
+    later: '稍后',
+    addToDesktop: '添加到桌面',
+    installed: '应用已安装到您的设备',
+    installDesc: '将天气小鸭添加到桌面，随时随地记录天气与心情',
+    installApp: '安装应用',
+    desktop: '桌面版',
+    autoInstallStep: '点击下方的 "安装应用" 按钮即可自动安装',
+    guides: {
+      installed: {
+        title: '已安装',
+        steps: ['应用已经安装到您的设备上了！']
+      },
+      iosSafari: {
+        title: 'iOS Safari 安装指南',
+        steps: [
+          '1. 点击底部的 "分享" 按钮 (方框+箭头图标)',
+          '2. 向下滚动并点击 "添加到主屏幕"',
+          '3. 点击右上角的 "添加"',
+          '4. 应用图标将出现在主屏幕上'
+        ]
+      },
+      iosChrome: {
+        title: 'iOS Chrome 安装指南',
+        steps: [
+          '1. 点击右上角的 "..." 菜单',
+          '2. 选择 "添加到主屏幕"',
+          '3. 点击 "添加"',
+          '注意：建议使用 Safari 浏览器获得更好的 PWA 体验'
+        ]
+      },
+      androidChrome: {
+        title: 'Android Chrome 安装指南',
+        steps: [
+          '1. 点击右上角的 "⋮" 菜单',
+          '2. 选择 "安装应用" 或 "添加到主屏幕"',
+          '3. 点击 "安装"',
+          '4. 应用图标将出现在主屏幕上'
+        ]
+      },
+      samsung: {
+        title: 'Samsung 浏览器安装指南',
+        steps: [
+          '1. 点击底部的 "≡" 菜单',
+          '2. 选择 "添加页面到"',
+          '3. 选择 "主屏幕"',
+          '4. 点击 "添加"'
+        ]
+      },
+      desktop: {
+        title: '{browser} 桌面版安装指南',
+        steps: [
+          '1. 点击地址栏右侧的安装图标 (⊕)',
+          '2. 或点击右上角 "⋮" 菜单',
+          '3. 选择 "安装 天气小鸭日记..."',
+          '4. 点击 "安装"'
+        ]
+      },
+      firefox: {
+        title: 'Firefox 安装说明',
+        steps: [
+          'Firefox 目前不完全支持 PWA 安装',
+          '建议使用 Chrome、Edge 或 Safari 浏览器',
+          '以获得完整的离线和安装体验'
+        ]
+      },
+      generic: {
+        title: '安装指南',
+        steps: [
+          '1. 在浏览器菜单中查找 "添加到主屏幕" 或 "安装应用"',
+          '2. 按照提示完成安装',
+          '3. 应用图标将出现在您的设备上'
+        ]
+      }
+    }
+  },
+  about: {
+    scanToVisit: '手机扫码访问',
+    developer: '开发者：',
+    developerName: '杨若即',
+    email: '邮箱：',
+    className: '班级：',
+    classValue: '深高北三（10）班',
+    project: '项目：',
+    projectValue: '暑期作业',
+    github: 'GitHub 项目：天气小鸭源码'
+  },
+  cache: {
+    title: '缓存状态',
+    network: '网络状态:',
+    online: '🌐 在线',
+    offline: '📱 离线',
+    mode: '缓存模式:',
+    cacheFirst: '⚡ 缓存优先',
+    weather: '天气缓存:',
+    diary: '日记缓存:',
+    size: '缓存大小:',
+    range: '缓存范围:',
+    refreshing: '刷新中...',
+    refresh: '🔄 刷新缓存',
+    clear: '🗑️ 清空缓存',
+    refreshStarted: '缓存刷新已启动',
+    refreshFailed: '刷新缓存失败',
+    cleared: '缓存已清空',
+    clearFailed: '清空缓存失败',
+    empty: '无数据'
+  }
+}
+
+export type Messages = typeof zhCN
+export default zhCN
@@ -0,0 +1,30 @@
+-- 日记修订记录
+-- 每次保存、删除或恢复日记条目时写入一份快照，误删或误清空内容后可以从历史中恢复
+-- 在 multiple_diary_entries.sql 之后执行，可重复执行
+
+-- 不对 weather_diaries 建外键：条目被删除后修订记录仍要保留，才能恢复
+CREATE TABLE IF NOT EXISTS weather_diary_revisions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  diary_id UUID NOT NULL,
+  date DATE NOT NULL,
+  entry_time TIME,
+  content TEXT,
+  mood VARCHAR(50),
+  city VARCHAR(100),
+  weather_data JSONB,
+  images TEXT[],
+  videos TEXT[],
+  action VARCHAR(20) NOT NULL CHECK (action IN ('create', 'update', 'delete', 'restore')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 历史面板按日期列出当天所有条目的修订，按条目查看单条的修订
+CREATE INDEX IF NOT EXISTS idx_weather_diary_revisions_date
+ON weather_diary_revisions(date, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_weather_diary_revisions_diary_id
+ON weather_diary_revisions(diary_id, created_at DESC);
+
+COMMENT ON TABLE weather_diary_revisions IS '天气日记修订记录，每次保存一份快照';
+COMMENT ON COLUMN weather_diary_revisions.diary_id IS '对应的日记条目 id，条目删除后仍保留';
+COMMENT ON COLUMN weather_diary_revisions.action IS '产生该快照的操作：create/update/delete/restore';
@@ -0,0 +1,62 @@
+-- 日记全文搜索
+-- PostgreSQL 内置的 to_tsvector 不切分中文（整句会被当成一个词），这里改用 pg_trgm 三元组索引加速子串匹配，
+-- 中英文都按"包含关键词"匹配；关键词按空白拆成多个词，每个词都要出现
+-- 在 diary_tags.sql 之后执行，可重复执行
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- 参与搜索的文本：正文、城市和标签，统一转小写
+-- array_to_string 不是 IMMUTABLE，包一层函数才能用于表达式索引
+CREATE OR REPLACE FUNCTION weather_diary_search_text(p_content TEXT, p_city TEXT, p_tags TEXT[])
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT lower(coalesce(p_content, '') || ' ' || coalesce(p_city, '') || ' ' || coalesce(array_to_string(p_tags, ' '), ''))
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_weather_diaries_search_trgm
+ON weather_diaries USING GIN (weather_diary_search_text(content, city, tags) gin_trgm_ops);
+
+-- 转义 LIKE 通配符，关键词中的 %、_ 和 \ 按字面匹配
+CREATE OR REPLACE FUNCTION weather_diary_like_pattern(p_term TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT '%' || replace(replace(replace(lower(p_term), '\', '\\'), '%', '\%'), '_', '\_') || '%'
+$$;
+
+-- 前端通过 supabase.rpc('search_weather_diaries', {...}) 调用，参数都以绑定变量传入，不拼接 SQL
+CREATE OR REPLACE FUNCTION search_weather_diaries(
+  p_query TEXT DEFAULT '',
+  p_start_date DATE DEFAULT NULL,
+  p_end_date DATE DEFAULT NULL,
+  p_mood TEXT DEFAULT NULL,
+  p_city TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS SETOF weather_diaries
+LANGUAGE sql
+STABLE
+AS $$
+  WITH terms AS (
+    SELECT array_agg(weather_diary_like_pattern(term)) AS patterns
+    FROM regexp_split_to_table(trim(coalesce(p_query, '')), '\s+') AS term
+    WHERE term <> ''
+  )
+  SELECT d.*
+  FROM weather_diaries d, terms
+  WHERE (terms.patterns IS NULL OR weather_diary_search_text(d.content, d.city, d.tags) LIKE ALL (terms.patterns))
+    AND (p_start_date IS NULL OR d.date >= p_start_date)
+    AND (p_end_date IS NULL OR d.date <= p_end_date)
+    AND (coalesce(p_mood, '') = '' OR d.mood = p_mood)
+    AND (coalesce(p_city, '') = '' OR lower(coalesce(d.city, '')) LIKE weather_diary_like_pattern(p_city))
+  ORDER BY
+    similarity(weather_diary_search_text(d.content, d.city, d.tags), lower(coalesce(p_query, ''))) DESC,
+    d.date DESC,
+    d.entry_time DESC NULLS LAST
+  LIMIT least(greatest(coalesce(p_limit, 50), 1), 200)
+$$;
+
+COMMENT ON FUNCTION search_weather_diaries IS '日记搜索：关键词（空白分隔，全部包含）、日期范围、心情和城市筛选';
@@ -0,0 +1,16 @@
+-- 日记标签
+-- 每条日记可以有多个用户自定义标签，顶部可按标签筛选卡片
+-- 在 diary_revisions.sql 之后执行，可重复执行
+
+ALTER TABLE weather_diaries
+ADD COLUMN IF NOT EXISTS tags TEXT[] DEFAULT '{}';
+
+-- 修订快照同样保存标签，恢复时一并还原
+ALTER TABLE weather_diary_revisions
+ADD COLUMN IF NOT EXISTS tags TEXT[] DEFAULT '{}';
+
+-- 按标签查询（tags @> ARRAY['旅行']）走 GIN 索引
+CREATE INDEX IF NOT EXISTS idx_weather_diaries_tags
+ON weather_diaries USING GIN (tags);
+
+COMMENT ON COLUMN weather_diaries.tags IS '用户自定义标签，去掉首尾空格和 # 后保存，不区分大小写去重';
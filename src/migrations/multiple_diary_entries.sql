@@ -0,0 +1,46 @@
+-- 支持同一天多条日记
+-- 原表 date 列带 UNIQUE 约束，一天只能有一条；改为按条目时间记录多条（例如上午出行、晚上回顾）
+-- 在 optimize_weather_diaries.sql 之后执行，可重复执行
+
+-- 删除 date 列上的唯一约束（约束名由建表语句自动生成，按列查找）
+DO $$
+DECLARE
+  constraint_name TEXT;
+BEGIN
+  FOR constraint_name IN
+    SELECT con.conname
+    FROM pg_constraint con
+    JOIN pg_class rel ON rel.oid = con.conrelid
+    JOIN pg_attribute att ON att.attrelid = rel.oid AND att.attnum = ANY(con.conkey)
+    WHERE rel.relname = 'weather_diaries'
+      AND con.contype = 'u'
+      AND att.attname = 'date'
+      AND array_length(con.conkey, 1) = 1
+  LOOP
+    EXECUTE format('ALTER TABLE weather_diaries DROP CONSTRAINT %I', constraint_name);
+  END LOOP;
+END $$;
+
+-- 条目时间（本地时间 HH:mm），旧数据为空，排在当天最前
+ALTER TABLE weather_diaries ADD COLUMN IF NOT EXISTS entry_time TIME;
+
+-- 按日期取当天条目并按时间排序
+CREATE INDEX IF NOT EXISTS idx_weather_diaries_date_entry_time
+ON weather_diaries(date, entry_time, created_at);
+
+-- 统计视图改为同时统计条目数和有日记的天数（列有变化，需要先删除再创建）
+DROP VIEW IF EXISTS weather_diary_stats;
+CREATE VIEW weather_diary_stats AS
+SELECT
+  DATE_TRUNC('month', date) as month,
+  COUNT(*) as diary_count,
+  COUNT(DISTINCT date) as diary_days,
+  COUNT(CASE WHEN images IS NOT NULL AND array_length(images, 1) > 0 THEN 1 END) as diaries_with_images,
+  COUNT(CASE WHEN videos IS NOT NULL AND array_length(videos, 1) > 0 THEN 1 END) as diaries_with_videos,
+  array_agg(DISTINCT mood) FILTER (WHERE mood IS NOT NULL) as moods,
+  array_agg(DISTINCT city) FILTER (WHERE city IS NOT NULL) as cities
+FROM weather_diaries
+GROUP BY DATE_TRUNC('month', date)
+ORDER BY month DESC;
+
+COMMENT ON COLUMN weather_diaries.entry_time IS '条目时间，同一天的多条日记按此排序';
@@ -0,0 +1,120 @@
+import axios from 'axios'
+import type { AirQualityApiResponse, AirQualityData } from '../types/weather'
+import { DateUtils } from '../utils/dateUtils'
+import { t } from '../i18n'
+
+// Open-Meteo 空气质量接口只提供逐小时数据，按日聚合
+const AIR_QUALITY_API_URL = 'https://air-quality-api.open-meteo.com/v1/air-quality'
+const HOURLY_VARIABLES = [
+  'us_aqi',
+  'pm2_5',
+  'pm10',
+  'ozone',
+  'alder_pollen',
+  'birch_pollen',
+  'grass_pollen',
+  'mugwort_pollen',
+  'olive_pollen',
+  'ragweed_pollen'
+].join(',')
+// 空气质量预报只覆盖未来几天（含今天共5天）
+const FORECAST_DAYS = 5
+
+const POLLEN_KEYS = ['alder', 'birch', 'grass', 'mugwort', 'olive', 'ragweed'] as const
+
+// AQI 等级（中文沿用国内六级划分的名称，文案见 i18n 的 airQuality.levels）
+const AQI_LEVELS = [
+  { max: 50, key: 'good', color: '#00b894' },
+  { max: 100, key: 'moderate', color: '#fdcb6e' },
+  { max: 150, key: 'unhealthySensitive', color: '#e17055' },
+  { max: 200, key: 'unhealthy', color: '#d63031' },
+  { max: 300, key: 'veryUnhealthy', color: '#6c5ce7' },
+  { max: Infinity, key: 'hazardous', color: '#7b2d26' }
+]
+
+export class AirQualityApiService {
+  // 获取日期范围内每天的空气质量，没有数据的日期不返回
+  static async getDailyAirQuality(
+    latitude: number,
+    longitude: number,
+    startDate: string,
+    endDate: string,
+    timeZone: string = DateUtils.getTimeZone()
+  ): Promise<AirQualityData[]> {
+    const maxDate = DateUtils.addDays(DateUtils.today(timeZone), FORECAST_DAYS - 1)
+    const end = endDate > maxDate ? maxDate : endDate
+    if (startDate > end) return []
+
+    const { data } = await axios.get<AirQualityApiResponse>(AIR_QUALITY_API_URL, {
+      params: {
+        latitude,
+        longitude,
+        start_date: startDate,
+        end_date: end,
+        hourly: HOURLY_VARIABLES,
+        timezone: timeZone
+      },
+      timeout: 15000
+    })
+
+    const hourly = data?.hourly
+    if (!hourly || !Array.isArray(hourly.time)) {
+      throw new Error('空气质量数据格式异常')
+    }
+
+    // 按日期收集逐小时下标
+    const indexesByDate = new Map<string, number[]>()
+    hourly.time.forEach((time, index) => {
+      const date = time.slice(0, 10)
+      if (!indexesByDate.has(date)) indexesByDate.set(date, [])
+      indexesByDate.get(date)!.push(index)
+    })
+
+    const result: AirQualityData[] = []
+    indexesByDate.forEach((indexes, date) => {
+      const aqi = this.aggregate(hourly.us_aqi, indexes, 'max')
+      // 没有 AQI 的日期视为无数据
+      if (aqi === null) return
+
+      const record: AirQualityData = {
+        date,
+        aqi: Math.round(aqi),
+        pm2_5: Math.round((this.aggregate(hourly.pm2_5, indexes, 'mean') ?? 0) * 10) / 10,
+        pm10: Math.round((this.aggregate(hourly.pm10, indexes, 'mean') ?? 0) * 10) / 10,
+        ozone: Math.round(this.aggregate(hourly.ozone, indexes, 'max') ?? 0)
+      }
+
+      const pollen: NonNullable<AirQualityData['pollen']> = {}
+      POLLEN_KEYS.forEach((key) => {
+        const value = this.aggregate(hourly[`${key}_pollen`], indexes, 'max')
+        if (value !== null) pollen[key] = Math.round(value * 10) / 10
+      })
+      if (Object.keys(pollen).length > 0) record.pollen = pollen
+
+      result.push(record)
+    })
+
+    return result.sort((a, b) => a.date.localeCompare(b.date))
+  }
+
+  // 根据 AQI 获取等级名称和颜色
+  static getAqiLevel(aqi: number): { label: string; color: string } {
+    const level = AQI_LEVELS.find(l => aqi <= l.max) || AQI_LEVELS[AQI_LEVELS.length - 1]
+    return { label: t(`airQuality.levels.${level.key}`), color: level.color }
+  }
+
+  // 聚合某一天的逐小时数值，忽略缺失值
+  private static aggregate(
+    values: (number | null)[] | undefined,
+    indexes: number[],
+    mode: 'max' | 'mean'
+  ): number | null {
+    if (!values) return null
+    const valid = indexes
+      .map(i => values[i])
+      .filter((v): v is number => typeof v === 'number' && !isNaN(v))
+    if (valid.length === 0) return null
+    if (mode === 'max') return Math.max(...valid)
+    return valid.reduce((sum, v) => sum + v, 0) / valid.length
+  }
+}
@@ -0,0 +1,154 @@
+// 中国日历信息：农历、节气（本地计算）与法定节假日/调休上班日（内置数据，可在线更新）
+import { shallowRef } from 'vue'
+import bundledHolidays from '../data/holidaysCN.json'
+import { LunarUtils, type LunarDate, type SolarTerm } from '../utils/lunarUtils'
+import { DateUtils } from '../utils/dateUtils'
+import { t } from '../i18n'
+
+export interface HolidayEntry {
+  key: string // 文案见 calendar.holidays
+  start: string
+  end: string
+  workdays: string[] // 调休上班日
+}
+
+export interface HolidayDataset {
+  version: string
+  years: Record<string, HolidayEntry[]>
+}
+
+export interface HolidayDay {
+  key: string
+  type: 'off' | 'workday'
+}
+
+export interface CalendarDayInfo {
+  lunar: LunarDate
+  lunarText: string // 紧凑显示：初一显示月名，其余显示日名
+  lunarFull: string
+  solarTerm: SolarTerm | null
+  solarTermName: string
+  holiday: HolidayDay | null
+  holidayName: string
+  label: string // 卡片/日历格子上的标签：节日 > 节气 > 农历
+  title: string // 悬停提示的完整说明
+}
+
+// 记录所属年份，更新某一年的安排时整体替换
+interface StoredHolidayDay extends HolidayDay {
+  year: string
+}
+
+const STORAGE_KEY = 'holiday_data_cn'
+
+function isValidDataset(value: unknown): value is HolidayDataset {
+  const data = value as HolidayDataset | null
+  return !!data && typeof data.version === 'string' && !!data.years && typeof data.years === 'object' &&
+    Object.values(data.years).every(list => Array.isArray(list) &&
+      list.every(item => typeof item.key === 'string' && typeof item.start === 'string' &&
+        typeof item.end === 'string' && Array.isArray(item.workdays)))
+}
+
+class ChineseCalendarService {
+  // 日期 -> 节假日信息；替换为新对象以触发依赖它的计算属性更新
+  private days = shallowRef<Map<string, StoredHolidayDay>>(new Map())
+
+  constructor() {
+    this.apply(bundledHolidays as HolidayDataset)
+    this.apply(this.loadSaved())
+  }
+
+  getHoliday(date: string): HolidayDay | null {
+    return this.days.value.get(date) || null
+  }
+
+  getHolidayName(holiday: HolidayDay): string {
+    return t(`calendar.holidays.${holiday.key}`)
+  }
+
+  describeDay(date: string): CalendarDayInfo {
+    const lunar = LunarUtils.getLunarDate(date)
+    const solarTerm = LunarUtils.getSolarTerm(date)
+    const holiday = this.getHoliday(date)
+    const lunarText = LunarUtils.formatShort(lunar)
+    const lunarFull = LunarUtils.formatFull(lunar)
+    const solarTermName = solarTerm ? LunarUtils.getSolarTermName(solarTerm) : ''
+    const holidayName = holiday ? this.getHolidayName(holiday) : ''
+
+    // 节日只在假期第一天作为标签，其余假期日仍显示节气或农历
+    const isFirstHolidayDay = holiday?.type === 'off' && this.getHoliday(DateUtils.addDays(date, -1))?.key !== holiday.key
+    const label = isFirstHolidayDay ? holidayName : solarTermName || lunarText
+
+    const titleParts = [lunarFull]
+    if (solarTerm) titleParts.push(t('calendar.solarTerm', { name: solarTermName }))
+    if (holiday) {
+      titleParts.push(t(holiday.type === 'off' ? 'calendar.holidayTitle' : 'calendar.workdayTitle', { name: holidayName }))
+    }
+
+    return {
+      lunar,
+      lunarText,
+      lunarFull,
+      solarTerm,
+      solarTermName,
+      holiday,
+      holidayName,
+      label,
+      title: titleParts.join('\n')
+    }
+  }
+
+  // 从 VITE_HOLIDAYS_URL 获取更新的节假日数据（未配置或失败时继续使用已有数据）
+  async refresh(): Promise<boolean> {
+    const url = import.meta.env.VITE_HOLIDAYS_URL
+    if (!url) return false
+    try {
+      const response = await fetch(url, { cache: 'no-cache' })
+      if (!response.ok) return false
+      const data = await response.json()
+      if (!isValidDataset(data)) {
+        console.warn('节假日数据格式无效，已忽略')
+        return false
+      }
+      this.apply(data)
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(data))
+      return true
+    } catch (error) {
+      console.warn('更新节假日数据失败:', error)
+      return false
+    }
+  }
+
+  private loadSaved(): HolidayDataset | null {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY)
+      const data = raw ? JSON.parse(raw) : null
+      return isValidDataset(data) ? data : null
+    } catch {
+      return null
+    }
+  }
+
+  // 按年份合并：新数据中出现的年份整体替换已有安排
+  private apply(dataset: HolidayDataset | null): void {
+    if (!dataset) return
+    const next = new Map(this.days.value)
+    Object.entries(dataset.years).forEach(([year, entries]) => {
+      Array.from(next.entries()).forEach(([date, day]) => {
+        if (day.year === year) next.delete(date)
+      })
+      entries.forEach((entry) => {
+        DateUtils.getDatesBetween(entry.start, entry.end).forEach((date) => {
+          next.set(date, { key: entry.key, type: 'off', year })
+        })
+        entry.workdays.forEach((date) => {
+          next.set(date, { key: entry.key, type: 'workday', year })
+        })
+      })
+    })
+    this.days.value = next
+  }
+}
+
+export const chineseCalendarService = new ChineseCalendarService()
+export default chineseCalendarService
@@ -0,0 +1,94 @@
+// 多城市对比：同一日期范围并行获取多个地点的逐日天气，复用 weatherService 的缓存
+import { weatherService } from './weatherService'
+import type { WeatherData } from '../types/weather'
+import type { SavedLocation } from './savedLocationService'
+import { t } from '../i18n'
+
+export type ComparisonLocation = Omit<SavedLocation, 'id' | 'isHome'>
+
+export interface ComparisonExtreme {
+  date: string
+  value: number
+}
+
+export interface ComparisonSummary {
+  days: number
+  avgMax: number
+  avgMin: number
+  totalPrecipitation: number
+  rainyDays: number
+  hottest: ComparisonExtreme
+  coldest: ComparisonExtreme
+  wettest: ComparisonExtreme | null
+}
+
+export interface ComparisonResult {
+  location: ComparisonLocation
+  data: WeatherData[]
+  summary: ComparisonSummary | null
+  error?: string
+}
+
+export const MIN_COMPARISON_LOCATIONS = 2
+export const MAX_COMPARISON_LOCATIONS = 4
+
+// 日降水量达到 0.1mm 记为雨天（气象上的降水日标准）
+const RAINY_DAY_THRESHOLD = 0.1
+
+class CityComparisonService {
+  // 并行获取各地点数据；单个地点失败不影响其他地点
+  async compare(locations: ComparisonLocation[], startDate: string, endDate: string): Promise<ComparisonResult[]> {
+    const settled = await Promise.allSettled(
+      locations.map(location => weatherService.getHistoricalWeather(
+        location.latitude,
+        location.longitude,
+        startDate,
+        endDate,
+        false,
+        location.timezone
+      ))
+    )
+
+    return settled.map((result, index) => {
+      const location = locations[index]
+      if (result.status === 'rejected') {
+        const message = result.reason instanceof Error ? result.reason.message : String(result.reason)
+        return { location, data: [], summary: null, error: message || t('app.fetchFailed') }
+      }
+      const data = [...(result.value as WeatherData[])].sort((a, b) => a.date.localeCompare(b.date))
+      return { location, data, summary: this.summarize(data) }
+    })
+  }
+
+  // 统计均值、雨天数和极值（忽略占位数据）
+  summarize(list: WeatherData[]): ComparisonSummary | null {
+    const valid = list.filter(w => w && !w.isPlaceholder)
+    if (valid.length === 0) return null
+
+    const round = (value: number) => Math.round(value * 10) / 10
+    let hottest = valid[0]
+    let coldest = valid[0]
+    let wettest = valid[0]
+    valid.forEach((w) => {
+      if (w.temperature.max > hottest.temperature.max) hottest = w
+      if (w.temperature.min < coldest.temperature.min) coldest = w
+      if (w.precipitation > wettest.precipitation) wettest = w
+    })
+
+    return {
+      days: valid.length,
+      avgMax: round(valid.reduce((sum, w) => sum + w.temperature.max, 0) / valid.length),
+      avgMin: round(valid.reduce((sum, w) => sum + w.temperature.min, 0) / valid.length),
+      totalPrecipitation: round(valid.reduce((sum, w) => sum + w.precipitation, 0)),
+      rainyDays: valid.filter(w => w.precipitation >= RAINY_DAY_THRESHOLD).length,
+      hottest: { date: hottest.date, value: hottest.temperature.max },
+      coldest: { date: coldest.date, value: coldest.temperature.min },
+      wettest: wettest.precipitation >= RAINY_DAY_THRESHOLD
+        ? { date: wettest.date, value: wettest.precipitation }
+        : null
+    }
+  }
+}
+
+export const cityComparisonService = new CityComparisonService()
+export default cityComparisonService
@@ -0,0 +1,228 @@
+// 气候常年值：用 Open-Meteo archive 多年逐日数据计算每个日历日的平均最高/最低气温和降水
+import { reactive } from 'vue'
+import { WeatherApiService } from './weatherApi'
+import type { ClimateNormal, WeatherData } from '../types/weather'
+import { DateUtils } from '../utils/dateUtils'
+
+export interface ClimateNormals {
+  latitude: number
+  longitude: number
+  startYear: number
+  endYear: number
+  yearsWithData: number
+  days: Record<string, ClimateNormal> // 键为 MM-DD
+}
+
+// 可选的统计年数（界面文案见 i18n 的 climate.windowYears）
+export const CLIMATE_WINDOW_OPTIONS = [
+  { value: 5 },
+  { value: 10 },
+  { value: 20 },
+  { value: 30 }
+]
+
+const SETTINGS_KEY = 'weather_climate_settings'
+const CACHE_KEY = 'weather_climate_normals'
+// 持久化缓存最多保留的地点数
+const MAX_CACHED_LOCATIONS = 6
+// 计算某一天的常年值时合并前后各7天，减少单日噪声
+const SMOOTHING_DAYS = 7
+// 闰年作为参考年，保证 02-29 也有下标
+const REFERENCE_YEAR = 2000
+const DAYS_IN_REFERENCE_YEAR = 366
+
+interface CachedNormals extends ClimateNormals {
+  key: string
+  savedAt: number
+}
+
+function loadSettings(): { years: number } {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY)
+    const saved = raw ? JSON.parse(raw) : null
+    if (saved && CLIMATE_WINDOW_OPTIONS.some(o => o.value === saved.years)) {
+      return { years: saved.years }
+    }
+  } catch {
+    // 使用默认值
+  }
+  return { years: 10 }
+}
+
+// 常年值统计窗口（响应式，修改后需重新加载常年值）
+export const climateSettings = reactive(loadSettings())
+
+class ClimatologyService {
+  private memoryCache = new Map<string, ClimateNormals>()
+  private pending = new Map<string, Promise<ClimateNormals>>()
+
+  // 修改统计窗口年数并通知界面重新加载
+  setWindowYears(years: number): void {
+    if (!CLIMATE_WINDOW_OPTIONS.some(o => o.value === years) || years === climateSettings.years) return
+    climateSettings.years = years
+    try {
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify({ ...climateSettings }))
+    } catch {
+      // 存储不可用时仅本次会话生效
+    }
+    window.dispatchEvent(new CustomEvent('climate:settings:changed', { detail: { years } }))
+  }
+
+  // 获取地点的常年值：内存缓存 → 本地持久化缓存 → 请求 archive 计算
+  async getNormals(
+    latitude: number,
+    longitude: number,
+    years: number = climateSettings.years,
+    timeZone: string = DateUtils.getTimeZone()
+  ): Promise<ClimateNormals> {
+    // 截止到去年，保证每个统计年份都是完整的一年
+    const endYear = Number(DateUtils.today(timeZone).slice(0, 4)) - 1
+    const startYear = endYear - years + 1
+    // 坐标保留2位小数（约1公里），相邻位置共用常年值
+    const key = `${latitude.toFixed(2)},${longitude.toFixed(2)}|${startYear}-${endYear}`
+
+    const cached = this.memoryCache.get(key) || this.readPersisted(key)
+    if (cached) {
+      this.memoryCache.set(key, cached)
+      return cached
+    }
+
+    const inFlight = this.pending.get(key)
+    if (inFlight) return inFlight
+
+    const request = this.computeNormals(latitude, longitude, startYear, endYear, timeZone)
+      .then((normals) => {
+        this.memoryCache.set(key, normals)
+        // 有年份请求失败（限流、超时）时只在本次会话使用，下次加载重新计算
+        if (this.isComplete(normals)) this.persist(key, normals)
+        return normals
+      })
+      .finally(() => {
+        this.pending.delete(key)
+      })
+    this.pending.set(key, request)
+    return request
+  }
+
+  // 取某天对应的常年值
+  getNormalForDate(normals: ClimateNormals, date: string): ClimateNormal | null {
+    return normals.days[date.slice(5, 10)] || null
+  }
+
+  // 最高气温相对常年值的偏差（°C），没有常年值或占位数据时返回 null
+  getAnomaly(weather: WeatherData): number | null {
+    if (!weather.normal || weather.isPlaceholder) return null
+    return Math.round((weather.temperature.max - weather.normal.max) * 10) / 10
+  }
+
+  // 逐年请求 archive 数据并按日历日汇总
+  private async computeNormals(
+    latitude: number,
+    longitude: number,
+    startYear: number,
+    endYear: number,
+    timeZone: string
+  ): Promise<ClimateNormals> {
+    const maxSum = new Array<number>(DAYS_IN_REFERENCE_YEAR).fill(0)
+    const minSum = new Array<number>(DAYS_IN_REFERENCE_YEAR).fill(0)
+    const precipSum = new Array<number>(DAYS_IN_REFERENCE_YEAR).fill(0)
+    const count = new Array<number>(DAYS_IN_REFERENCE_YEAR).fill(0)
+    let yearsWithData = 0
+
+    // 逐年顺序请求，避免一次请求过大或并发过多触发限流
+    for (let year = startYear; year <= endYear; year++) {
+      const { data } = await WeatherApiService.getArchiveWeather(
+        latitude,
+        longitude,
+        `${year}-01-01`,
+        `${year}-12-31`,
+        'archive',
+        timeZone
+      )
+      if (data.length === 0) continue
+      yearsWithData++
+      data.forEach((day) => {
+        const index = this.dayIndex(day.date)
+        maxSum[index] += day.temperature.max
+        minSum[index] += day.temperature.min
+        precipSum[index] += day.precipitation
+        count[index]++
+      })
+    }
+
+    if (yearsWithData === 0) {
+      throw new Error('无法获取历史气候数据')
+    }
+
+    const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits
+    const days: Record<string, ClimateNormal> = {}
+    for (let i = 0; i < DAYS_IN_REFERENCE_YEAR; i++) {
+      let max = 0
+      let min = 0
+      let precip = 0
+      let n = 0
+      for (let offset = -SMOOTHING_DAYS; offset <= SMOOTHING_DAYS; offset++) {
+        const j = (i + offset + DAYS_IN_REFERENCE_YEAR) % DAYS_IN_REFERENCE_YEAR
+        max += maxSum[j]
+        min += minSum[j]
+        precip += precipSum[j]
+        n += count[j]
+      }
+      if (n === 0) continue
+      days[this.monthDay(i)] = {
+        max: round(max / n, 1),
+        min: round(min / n, 1),
+        precipitation: round(precip / n, 2)
+      }
+    }
+
+    return { latitude, longitude, startYear, endYear, yearsWithData, days }
+  }
+
+  // MM-DD 在参考闰年中的下标（0-365）
+  private dayIndex(date: string): number {
+    const start = Date.UTC(REFERENCE_YEAR, 0, 1)
+    const [month, day] = date.slice(5, 10).split('-').map(Number)
+    return Math.round((Date.UTC(REFERENCE_YEAR, month - 1, day) - start) / 86400000)
+  }
+
+  private monthDay(index: number): string {
+    return DateUtils.addDays(`${REFERENCE_YEAR}-01-01`, index).slice(5, 10)
+  }
+
+  private readAll(): CachedNormals[] {
+    try {
+      const raw = localStorage.getItem(CACHE_KEY)
+      const list = raw ? JSON.parse(raw) : []
+      return Array.isArray(list) ? list : []
+    } catch {
+      return []
+    }
+  }
+
+  private readPersisted(key: string): ClimateNormals | null {
+    const entry = this.readAll().find(item => item.key === key)
+    if (!entry || !entry.days || !this.isComplete(entry)) return null
+    const { key: _key, savedAt: _savedAt, ...normals } = entry
+    return normals
+  }
+
+  // 统计窗口内每一年都取到了数据
+  private isComplete(normals: ClimateNormals): boolean {
+    return normals.yearsWithData === normals.endYear - normals.startYear + 1
+  }
+
+  // 按保存时间保留最近的几个地点
+  private persist(key: string, normals: ClimateNormals): void {
+    try {
+      const list = this.readAll().filter(item => item.key !== key)
+      list.unshift({ ...normals, key, savedAt: Date.now() })
+      localStorage.setItem(CACHE_KEY, JSON.stringify(list.slice(0, MAX_CACHED_LOCATIONS)))
+    } catch {
+      // 存储空间不足时只保留内存缓存
+    }
+  }
+}
+
+export const climatologyService = new ClimatologyService()
+export default climatologyService
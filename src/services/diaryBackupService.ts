@@ -0,0 +1,397 @@
+// 日记备份服务
+// 导出：JSON（完整数据，带格式版本）、按天的 Markdown 文件夹、或同时包含二者和图片视频的 ZIP；
+// 导入：校验备份结构，按日期报告与现有日记的冲突，再通过 Supabase（含存储桶）或本地数据库恢复条目和媒体
+import dayjs from 'dayjs'
+import { supabase } from '../config/supabase'
+import { diaryService } from './diaryService'
+import { diaryDb } from './diaryDb'
+import { SupabaseStorageService } from './supabaseStorage'
+import { optimizedUnifiedCacheService } from './optimizedUnifiedCacheService'
+import { ZipUtils, type ZipEntry } from '../utils/zipUtils'
+import { BackupUtils, BACKUP_JSON_PATH, MARKDOWN_DIR, type BackupIssue } from '../utils/backupUtils'
+import { DiaryUtils } from '../utils/diaryUtils'
+import type { DiaryBackup, DiaryData } from '../types/diary'
+import { t } from '../i18n'
+
+export type BackupExportFormat = 'json' | 'markdown' | 'zip'
+
+// skip：保留现有条目；overwrite：用备份覆盖；keepBoth：备份条目全部新增
+export type ImportConflictStrategy = 'skip' | 'overwrite' | 'keepBoth'
+
+export type BackupStage = 'loading' | 'media' | 'packing' | 'saving'
+
+export interface BackupProgress {
+  stage: BackupStage
+  done: number
+  total: number
+}
+
+export interface BackupExportResult {
+  blob: Blob
+  fileName: string
+  count: number
+  // 下载失败的媒体，备份中保留原地址
+  warnings: string[]
+}
+
+export interface ParsedBackup {
+  backup: DiaryBackup
+  diaries: DiaryData[]
+  issues: BackupIssue[]
+  // ZIP 内的文件（路径 -> 内容），JSON 备份为空
+  files: Map<string, Uint8Array>
+}
+
+export interface DateConflict {
+  date: string
+  incoming: number
+  existing: number
+  // 备份中与现有条目对应（同一 id，或同一时间）的条数
+  conflicts: number
+}
+
+export interface BackupImportResult {
+  created: number
+  updated: number
+  skipped: number
+  failed: number
+  mediaRestored: number
+  mediaFailed: number
+}
+
+type ProgressCallback = (progress: BackupProgress) => void
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+}
+
+class DiaryBackupService {
+  async exportBackup(format: BackupExportFormat, onProgress?: ProgressCallback): Promise<BackupExportResult> {
+    onProgress?.({ stage: 'loading', done: 0, total: 1 })
+    const diaries = await this.loadAllDiaries()
+    const source: DiaryBackup['source'] = supabase ? 'supabase' : 'indexeddb'
+    const stamp = dayjs().format('YYYYMMDD-HHmm')
+    const warnings: string[] = []
+
+    if (format === 'json') {
+      const backup = BackupUtils.createBackup(diaries, source)
+      return {
+        blob: new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }),
+        fileName: `weather-diary-${stamp}.json`,
+        count: diaries.length,
+        warnings
+      }
+    }
+
+    const entries: ZipEntry[] = []
+    const media: Record<string, string> = {}
+    if (format === 'zip') {
+      entries.push(...await this.collectMedia(diaries, media, warnings, onProgress))
+    }
+
+    onProgress?.({ stage: 'packing', done: 0, total: 1 })
+    DiaryUtils.groupByDate(diaries).forEach((list, date) => {
+      entries.push({ path: `${MARKDOWN_DIR}/${date}.md`, data: BackupUtils.toMarkdownDay(date, list, media) })
+    })
+    if (format === 'zip') {
+      const backup = BackupUtils.createBackup(diaries, source, media)
+      entries.unshift({ path: BACKUP_JSON_PATH, data: JSON.stringify(backup, null, 2) })
+    }
+
+    return {
+      blob: ZipUtils.createZip(entries),
+      fileName: format === 'zip' ? `weather-diary-${stamp}.zip` : `weather-diary-markdown-${stamp}.zip`,
+      count: diaries.length,
+      warnings
+    }
+  }
+
+  // 读取备份文件（.json 或 .zip）并校验；文件本身无法识别时抛出带提示文字的错误
+  async parseBackupFile(file: File): Promise<ParsedBackup> {
+    let files = new Map<string, Uint8Array>()
+    let text: string
+
+    if (/\.zip$/i.test(file.name) || file.type.includes('zip')) {
+      try {
+        files = await ZipUtils.readZip(await file.arrayBuffer())
+      } catch (error) {
+        console.error('读取 ZIP 备份失败:', error)
+        throw new Error(t('backup.errors.zip'))
+      }
+      const json = files.get(BACKUP_JSON_PATH)
+      if (!json) throw new Error(t('backup.errors.noJson', { file: BACKUP_JSON_PATH }))
+      text = ZipUtils.decodeText(json)
+    } else {
+      text = await file.text()
+    }
+
+    let raw: unknown
+    try {
+      raw = JSON.parse(text)
+    } catch {
+      throw new Error(t('backup.errors.parse'))
+    }
+
+    const validation = BackupUtils.validate(raw)
+    if (!validation.backup) throw new Error(validation.fatal)
+    return { backup: validation.backup, diaries: validation.diaries, issues: validation.issues, files }
+  }
+
+  // 按日期统计备份与现有日记的重叠情况，只返回已有日记的日期
+  async findConflicts(parsed: ParsedBackup): Promise<DateConflict[]> {
+    const existingByDate = await this.loadExisting(parsed.diaries)
+    const conflicts: DateConflict[] = []
+
+    DiaryUtils.groupByDate(parsed.diaries).forEach((incoming, date) => {
+      const existing = existingByDate.get(date) || []
+      if (existing.length === 0) return
+      const claimed = new Set<string>()
+      const matched = incoming.filter(diary => {
+        const match = this.findMatch(diary, existing, claimed)
+        if (match) claimed.add(DiaryUtils.getEntryKey(match))
+        return !!match
+      })
+      conflicts.push({ date, incoming: incoming.length, existing: existing.length, conflicts: matched.length })
+    })
+
+    return conflicts.sort((a, b) => a.date.localeCompare(b.date))
+  }
+
+  async importBackup(
+    parsed: ParsedBackup,
+    strategy: ImportConflictStrategy,
+    onProgress?: ProgressCallback
+  ): Promise<BackupImportResult> {
+    const result: BackupImportResult = { created: 0, updated: 0, skipped: 0, failed: 0, mediaRestored: 0, mediaFailed: 0 }
+    const existingByDate = await this.loadExisting(parsed.diaries)
+    // 导入后每天的完整条目列表，用于刷新缓存
+    const touched = new Map<string, DiaryData[]>()
+    // 同一媒体只恢复一次：原地址 -> 恢复后的地址
+    const restoredMedia = new Map<string, string>()
+    const claimed = new Set<string>()
+    // 现有日记已引用的媒体地址，备份中的同一地址直接沿用，不再重复上传
+    const knownMedia = new Set<string>()
+    existingByDate.forEach(list => list.forEach(item => {
+      ;[...(item.images || []), ...(item.videos || [])].forEach(url => knownMedia.add(url))
+    }))
+    const total = parsed.diaries.length
+
+    for (let index = 0; index < total; index++) {
+      onProgress?.({ stage: 'saving', done: index, total })
+      const diary = parsed.diaries[index]
+      const existing = existingByDate.get(diary.date) || []
+      const match = strategy === 'keepBoth' ? undefined : this.findMatch(diary, existing, claimed)
+      if (match && strategy === 'skip') {
+        result.skipped++
+        continue
+      }
+      if (match) claimed.add(DiaryUtils.getEntryKey(match))
+
+      try {
+        const images = await this.restoreMedia(diary.images || [], 'images', parsed, restoredMedia, knownMedia, result)
+        const videos = await this.restoreMedia(diary.videos || [], 'videos', parsed, restoredMedia, knownMedia, result)
+        const saved = await this.saveEntry({ ...diary, images, videos }, match)
+
+        const list = touched.get(diary.date) || existing.slice()
+        const position = match ? list.findIndex(item => DiaryUtils.getEntryKey(item) === DiaryUtils.getEntryKey(match)) : -1
+        if (position >= 0) list.splice(position, 1, saved)
+        else list.push(saved)
+        touched.set(diary.date, list)
+
+        if (match) result.updated++
+        else result.created++
+      } catch (error) {
+        console.error(`导入日记失败 (${diary.date}):`, error)
+        result.failed++
+      }
+    }
+    onProgress?.({ stage: 'saving', done: total, total })
+
+    diaryService.clearDiaryCache()
+    const globalManager = (window as any).__globalDataManager
+    touched.forEach((list, date) => {
+      const sorted = DiaryUtils.sortEntries(list)
+      optimizedUnifiedCacheService.setDiaryData(date, sorted, true)
+      if (globalManager && typeof globalManager.setDiaries === 'function') {
+        globalManager.setDiaries(date, sorted)
+      }
+    })
+
+    return result
+  }
+
+  private async loadAllDiaries(): Promise<DiaryData[]> {
+    if (supabase) return diaryService.getAllDiaries()
+    const entries = await diaryDb.getAllDiaries()
+    return entries.map(entry => diaryDb.entryToDiaryData(entry))
+  }
+
+  // 备份涉及日期范围内的现有日记，按日期分组
+  private async loadExisting(diaries: DiaryData[]): Promise<Map<string, DiaryData[]>> {
+    const dates = new Set(diaries.map(diary => diary.date))
+    if (dates.size === 0) return new Map()
+
+    let existing: DiaryData[]
+    if (supabase) {
+      const sorted = Array.from(dates).sort()
+      existing = await diaryService.getDiariesByDateRange(sorted[0], sorted[sorted.length - 1], true)
+    } else {
+      existing = await this.loadAllDiaries()
+    }
+    return DiaryUtils.groupByDate(existing.filter(diary => dates.has(diary.date)))
+  }
+
+  // 对应的现有条目：同一 id 优先，其次同一天同一时间（都没有时间的旧条目也视为同一条）
+  private findMatch(diary: DiaryData, existing: DiaryData[], claimed: Set<string>): DiaryData | undefined {
+    const candidates = existing.filter(item => !claimed.has(DiaryUtils.getEntryKey(item)))
+    if (diary.id) {
+      const sameId = candidates.find(item => String(item.id) === diary.id)
+      if (sameId) return sameId
+    }
+    const time = DiaryUtils.normalizeTime(diary.entry_time)
+    return candidates.find(item => DiaryUtils.normalizeTime(item.entry_time) === time)
+  }
+
+  // 下载日记引用的图片和视频，记录 原地址 -> 包内路径；逐个下载，避免大视频同时占用内存
+  private async collectMedia(
+    diaries: DiaryData[],
+    media: Record<string, string>,
+    warnings: string[],
+    onProgress?: ProgressCallback
+  ): Promise<ZipEntry[]> {
+    const targets: Array<{ kind: 'images' | 'videos'; url: string }> = []
+    const seen = new Set<string>()
+    diaries.forEach(diary => {
+      ;(['images', 'videos'] as const).forEach(kind => {
+        ;(diary[kind] || []).forEach(url => {
+          if (!url || seen.has(url)) return
+          seen.add(url)
+          targets.push({ kind, url })
+        })
+      })
+    })
+
+    const entries: ZipEntry[] = []
+    const counters = { images: 0, videos: 0 }
+    for (let index = 0; index < targets.length; index++) {
+      onProgress?.({ stage: 'media', done: index, total: targets.length })
+      const { kind, url } = targets[index]
+      try {
+        const response = await fetch(url)
+        if (!response.ok) throw new Error(`HTTP ${response.status}`)
+        const data = new Uint8Array(await response.arrayBuffer())
+        const path = BackupUtils.mediaPath(kind, counters[kind]++, url, response.headers.get('content-type') || '')
+        media[url] = path
+        entries.push({ path, data })
+      } catch (error) {
+        console.warn('下载媒体失败:', url, error)
+        warnings.push(url.startsWith('data:') ? `${url.slice(0, 40)}…` : url)
+      }
+    }
+    onProgress?.({ stage: 'media', done: targets.length, total: targets.length })
+    return entries
+  }
+
+  // 恢复包内的媒体：原地址仍可用时直接沿用，否则 Supabase 模式上传到存储桶，本地模式转成 data URL；
+  // 包内没有的保留原地址
+  private async restoreMedia(
+    urls: string[],
+    kind: 'images' | 'videos',
+    parsed: ParsedBackup,
+    restored: Map<string, string>,
+    known: Set<string>,
+    result: BackupImportResult
+  ): Promise<string[]> {
+    const output: string[] = []
+    for (const url of urls) {
+      const cached = restored.get(url)
+      if (cached) {
+        output.push(cached)
+        continue
+      }
+      const path = parsed.backup.media?.[url]
+      const data = path ? parsed.files.get(path) : undefined
+      if (!path || !data || await this.mediaExists(url, known)) {
+        restored.set(url, url)
+        output.push(url)
+        continue
+      }
+
+      try {
+        const file = new File([data as BlobPart], path.split('/').pop() || path, { type: BackupUtils.guessMimeType(path) })
+        let restoredUrl: string
+        if (supabase) {
+          restoredUrl = kind === 'images'
+            ? await SupabaseStorageService.uploadImage(file)
+            : await SupabaseStorageService.uploadVideo(file)
+        } else {
+          restoredUrl = await readAsDataUrl(file)
+        }
+        restored.set(url, restoredUrl)
+        output.push(restoredUrl)
+        result.mediaRestored++
+      } catch (error) {
+        console.warn('恢复媒体失败:', path, error)
+        result.mediaFailed++
+        output.push(url)
+      }
+    }
+    return output
+  }
+
+  // 原地址是否仍然可用：data URL 自带内容；现有日记引用的地址视为存在；其他 http(s) 地址用 HEAD 请求确认
+  private async mediaExists(url: string, known: Set<string>): Promise<boolean> {
+    if (url.startsWith('data:') || known.has(url)) return true
+    if (!/^https?:\/\//i.test(url)) return false
+    try {
+      const response = await fetch(url, { method: 'HEAD', cache: 'no-store' })
+      return response.ok
+    } catch {
+      return false
+    }
+  }
+
+  private async saveEntry(diary: DiaryData, match?: DiaryData): Promise<DiaryData> {
+    const fields = {
+      date: diary.date,
+      entry_time: diary.entry_time || null,
+      content: diary.content || '',
+      mood: diary.mood || '',
+      city: diary.city || '',
+      weather_data: diary.weather_data ?? null,
+      images: diary.images || [],
+      videos: diary.videos || [],
+      tags: diary.tags || []
+    }
+
+    if (supabase) {
+      return match?.id
+        ? diaryService.updateDiary(String(match.id), fields)
+        : diaryService.createDiary(fields)
+    }
+
+    // 本地数据库每条只保存一个视频
+    const entry = await diaryDb.saveDiary(
+      fields.date,
+      fields.content,
+      fields.weather_data,
+      '',
+      fields.images,
+      fields.mood,
+      fields.city,
+      fields.videos[0] || '',
+      fields.entry_time || undefined,
+      match?.id ? String(match.id) : undefined,
+      fields.tags
+    )
+    return diaryDb.entryToDiaryData(entry)
+  }
+}
+
+export const diaryBackupService = new DiaryBackupService()
+export default diaryBackupService
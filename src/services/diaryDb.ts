@@ -1,14 +1,17 @@
 import { supabase } from '../config/supabase'
+import type { DiaryData, DiaryRevision, DiaryRevisionAction } from '../types/diary'
 
 export interface DiaryEntry {
   id: string
   date: string
+  entryTime?: string
   content: string
   image?: string
   images?: string[]
   mood?: string
   city?: string
   video?: string
+  tags?: string[]
   weather?: any
   createdAt?: number
   updatedAt?: number
@@ -29,6 +32,7 @@ interface CleanWeather {
 }
 
 const TABLE = 'weather_diaries'
+const REVISION_TABLE = 'weather_diary_revisions'
 
 function toString(value: any, defaultValue: string = ''): string {
   return value != null ? String(value) : defaultValue
@@ -42,8 +46,11 @@ function toNumber(value: any, defaultValue: number = 0): number {
 export class DiaryDatabase {
   private db: IDBDatabase | null = null
   private readonly dbName = 'WeatherDiaryDB'
-  private readonly dbVersion = 1
+  // 版本 2：同一天可以有多条日记，date 索引改为非唯一
+  // 版本 3：增加修订记录
+  private readonly dbVersion = 3
   private readonly storeName = 'diaries'
+  private readonly revisionStoreName = 'revisions'
   private isRemote = false
 
   constructor() {
@@ -67,7 +74,21 @@ export class DiaryDatabase {
         const db = request.result
         if (!db.objectStoreNames.contains(this.storeName)) {
           const store = db.createObjectStore(this.storeName, { keyPath: 'id' })
-          store.createIndex('date', 'date', { unique: true })
+          store.createIndex('date', 'date', { unique: false })
+        } else {
+          // 旧库的 date 索引是唯一索引，重建为非唯一；已有条目的 id（diary_日期）保持不变
+          const store = request.transaction!.objectStore(this.storeName)
+          if (store.indexNames.contains('date') && store.index('date').unique) {
+            store.deleteIndex('date')
+          }
+          if (!store.indexNames.contains('date')) {
+            store.createIndex('date', 'date', { unique: false })
+          }
+        }
+        if (!db.objectStoreNames.contains(this.revisionStoreName)) {
+          const revisions = db.createObjectStore(this.revisionStoreName, { keyPath: 'id' })
+          revisions.createIndex('date', 'date', { unique: false })
+          revisions.createIndex('diary_id', 'diary_id', { unique: false })
         }
       }
     })
@@ -100,6 +121,7 @@ export class DiaryDatabase {
     return {
       id: toString(row.id),
       date: toString(row.date),
+      entryTime: toString(row.entry_time ?? row.entryTime, '').slice(0, 5),
       content: toString(row.content),
       weather: row.weather as CleanWeather,
       image: toString(row.image, ''),
@@ -107,11 +129,31 @@ export class DiaryDatabase {
       mood: toString(row.mood, ''),
       city: toString(row.city, ''),
       video: toString(row.video, ''),
+      tags: Array.isArray(row.tags) ? row.tags as string[] : [],
       createdAt: createdAtMs || Date.now(),
       updatedAt: updatedAtMs || Date.now()
     }
   }
 
+  // 本地条目转成与 Supabase 行一致的结构，用于写修订记录和导出备份
+  entryToDiaryData(entry: DiaryEntry): DiaryData {
+    return {
+      id: entry.id,
+      date: entry.date,
+      entry_time: entry.entryTime || null,
+      content: entry.content,
+      mood: entry.mood || '',
+      city: entry.city || '',
+      weather_data: entry.weather,
+      images: entry.images || [],
+      videos: entry.video ? [entry.video] : [],
+      tags: entry.tags || [],
+      created_at: entry.createdAt ? new Date(entry.createdAt).toISOString() : undefined,
+      updated_at: entry.updatedAt ? new Date(entry.updatedAt).toISOString() : undefined
+    }
+  }
+
+  // 保存日记条目：传入 entryId 时更新该条目，否则新增一条
   async saveDiary(
     date: string,
     content: string,
@@ -120,14 +162,19 @@ export class DiaryDatabase {
     images?: string[],
     mood?: string,
     city?: string,
-    video?: string
+    video?: string,
+    entryTime?: string,
+    entryId?: string,
+    tags?: string[]
   ): Promise<DiaryEntry> {
-    const id = `diary_${date}`
     const now = Date.now()
     const cleanWeather = this.cleanWeather(weather)
 
     if (this.isRemote && supabase) {
-      const existing = await this.getDiary(date)
+      const existing = entryId ? await this.getDiaryById(entryId) : null
+      if (existing) {
+        await this.ensureBaselineRevision(existing.id, async () => this.entryToDiaryData(existing))
+      }
       
       // 处理图片数组
       const finalImages = images && images.length > 0 ? images : []
@@ -136,29 +183,36 @@ export class DiaryDatabase {
       }
 
       const diaryData = {
-        id,
         date,
+        entry_time: entryTime || null,
         content,
         weather_data: cleanWeather,
         images: finalImages,
         mood: mood || null,
         city: city || null,
         video: video || null,
+        tags: tags || [],
         created_at: existing?.createdAt ? new Date(existing.createdAt).toISOString() : new Date(now).toISOString(),
         updated_at: new Date(now).toISOString()
       }
 
       const { data, error } = existing
-        ? await supabase.from(TABLE).update(diaryData).eq('date', date).select().maybeSingle()
+        ? await supabase.from(TABLE).update(diaryData).eq('id', existing.id).select().maybeSingle()
         : await supabase.from(TABLE).insert(diaryData).select().single()
 
       if (error) throw error
       if (!data) {
         throw new Error('Supabase操作未返回数据')
       }
+      await this.addRevision(data, existing ? 'update' : 'create')
       return this.mapRowToDiary(data)
     }
 
+    const existingLocal = entryId ? await this.getDiaryById(entryId) : null
+    if (existingLocal) {
+      await this.ensureBaselineRevision(existingLocal.id, async () => this.entryToDiaryData(existingLocal))
+    }
+
     // IndexedDB fallback
     if (!this.db) await this.initIDB()
     
@@ -172,8 +226,9 @@ export class DiaryDatabase {
       const store = transaction.objectStore(this.storeName)
       
       const diaryData = {
-        id,
+        id: entryId || `diary_${date}_${now}`,
         date,
+        entryTime: entryTime || '',
         content,
         weather: cleanWeather,
         image: image || '',
@@ -181,32 +236,73 @@ export class DiaryDatabase {
         mood: mood || '',
         city: city || '',
         video: video || '',
-        createdAt: now,
+        tags: tags || [],
+        createdAt: existingLocal?.createdAt || now,
         updatedAt: now
       }
 
       const request = store.put(diaryData)
       
-      request.onsuccess = () => resolve(diaryData as DiaryEntry)
+      request.onsuccess = () => {
+        const saved = diaryData as DiaryEntry
+        this.addRevision(this.entryToDiaryData(saved), existingLocal ? 'update' : 'create')
+          .finally(() => resolve(saved))
+      }
       request.onerror = () => reject(new Error('保存日记失败'))
     })
   }
 
+  // 获取某一天的所有条目（按条目时间排序）
+  async getDiariesByDate(date: string): Promise<DiaryEntry[]> {
+    if (this.isRemote && supabase) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select('*')
+        .eq('date', date)
+        .order('entry_time', { ascending: true, nullsFirst: true })
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+      return (data || []).map((row) => this.mapRowToDiary(row))
+    }
+
+    if (!this.db) await this.initIDB()
+    
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('数据库未初始化'))
+        return
+      }
+
+      const transaction = this.db.transaction([this.storeName], 'readonly')
+      const store = transaction.objectStore(this.storeName)
+      const request = store.index('date').getAll(date)
+      
+      request.onsuccess = () => {
+        const diaries = (request.result || []).map(row => this.mapRowToDiary(row))
+        diaries.sort((a, b) => (a.entryTime || '').localeCompare(b.entryTime || '') || (a.createdAt || 0) - (b.createdAt || 0))
+        resolve(diaries)
+      }
+      request.onerror = () => reject(new Error('获取日记失败'))
+    })
+  }
+
+  // 兼容旧调用：返回当天最晚的一条
   async getDiary(date: string): Promise<DiaryEntry | null> {
-    const id = `diary_${date}`
+    const diaries = await this.getDiariesByDate(date)
+    return diaries.length > 0 ? diaries[diaries.length - 1] : null
+  }
 
+  async getDiaryById(id: string): Promise<DiaryEntry | null> {
     if (this.isRemote && supabase) {
       const { data, error } = await supabase
         .from(TABLE)
         .select('*')
-        .eq('date', date)
+        .eq('id', id)
         .maybeSingle()
 
-      if (error) {
-        if (error.code === 'PGRST116') return null // Not found
-        throw error
-      }
-      return this.mapRowToDiary(data)
+      if (error) throw error
+      return data ? this.mapRowToDiary(data) : null
     }
 
     if (!this.db) await this.initIDB()
@@ -229,19 +325,24 @@ export class DiaryDatabase {
     })
   }
 
-  async deleteDiary(date: string): Promise<void> {
-    const id = `diary_${date}`
-
+  // 按条目 id 删除单条日记，删除前的内容写入修订记录
+  async deleteDiary(id: string): Promise<void> {
     if (this.isRemote && supabase) {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from(TABLE)
         .delete()
-        .eq('date', date)
+        .eq('id', id)
+        .select()
 
       if (error) throw error
+      for (const row of data || []) {
+        await this.addRevision(row, 'delete')
+      }
       return
     }
 
+    const existing = await this.getDiaryById(id)
+
     if (!this.db) await this.initIDB()
     
     return new Promise((resolve, reject) => {
@@ -254,7 +355,13 @@ export class DiaryDatabase {
       const store = transaction.objectStore(this.storeName)
       const request = store.delete(id)
       
-      request.onsuccess = () => resolve()
+      request.onsuccess = () => {
+        if (!existing) {
+          resolve()
+          return
+        }
+        this.addRevision(this.entryToDiaryData(existing), 'delete').finally(() => resolve())
+      }
       request.onerror = () => reject(new Error('删除日记失败'))
     })
   }
@@ -280,7 +387,7 @@ export class DiaryDatabase {
       request.onsuccess = () => {
         const results = request.result || []
         const diaries = results.map(row => this.mapRowToDiary(row))
-        diaries.sort((a, b) => b.date.localeCompare(a.date))
+        diaries.sort((a, b) => b.date.localeCompare(a.date) || (b.entryTime || '').localeCompare(a.entryTime || ''))
         resolve(diaries)
       }
       request.onerror = () => reject(new Error('获取所有日记失败'))
@@ -315,6 +422,128 @@ export class DiaryDatabase {
       request.onerror = () => reject(new Error('清空数据库失败'))
     })
   }
+
+  // 记录一份修订快照；写入失败只记日志，不影响保存本身
+  async addRevision(diary: DiaryData, action: DiaryRevisionAction, savedAt?: string): Promise<void> {
+    if (!diary?.id) return
+    const createdAt = savedAt || new Date().toISOString()
+    const snapshot = {
+      diary_id: String(diary.id),
+      date: diary.date,
+      entry_time: diary.entry_time || null,
+      content: diary.content || '',
+      mood: diary.mood || '',
+      city: diary.city || '',
+      weather_data: diary.weather_data ?? null,
+      images: diary.images || [],
+      videos: diary.videos || [],
+      tags: diary.tags || [],
+      action,
+      created_at: createdAt
+    }
+
+    try {
+      if (this.isRemote && supabase) {
+        const { error } = await supabase.from(REVISION_TABLE).insert(snapshot)
+        if (error) throw error
+        return
+      }
+
+      if (!this.db) await this.initIDB()
+      await new Promise<void>((resolve, reject) => {
+        if (!this.db) {
+          reject(new Error('数据库未初始化'))
+          return
+        }
+
+        const transaction = this.db.transaction([this.revisionStoreName], 'readwrite')
+        const store = transaction.objectStore(this.revisionStoreName)
+        const request = store.put({
+          ...snapshot,
+          id: `rev_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
+        })
+
+        request.onsuccess = () => resolve()
+        request.onerror = () => reject(new Error('保存修订记录失败'))
+      })
+    } catch (error) {
+      console.warn('记录日记修订失败:', error)
+    }
+  }
+
+  // 修订功能上线前保存的条目没有历史，第一次修改前先把原内容记为基线版本
+  // 只有没有历史时才调用 load 读取原内容
+  async ensureBaselineRevision(diaryId: string, load: () => Promise<DiaryData | null>): Promise<void> {
+    try {
+      if (await this.hasRevisions(diaryId)) return
+      const diary = await load()
+      if (!diary) return
+      await this.addRevision(diary, 'create', diary.updated_at || diary.created_at)
+    } catch (error) {
+      console.warn('记录基线修订失败:', error)
+    }
+  }
+
+  private async hasRevisions(diaryId: string): Promise<boolean> {
+    if (this.isRemote && supabase) {
+      const { count, error } = await supabase
+        .from(REVISION_TABLE)
+        .select('id', { count: 'exact', head: true })
+        .eq('diary_id', diaryId)
+
+      if (error) throw error
+      return (count || 0) > 0
+    }
+
+    if (!this.db) await this.initIDB()
+
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('数据库未初始化'))
+        return
+      }
+
+      const transaction = this.db.transaction([this.revisionStoreName], 'readonly')
+      const request = transaction.objectStore(this.revisionStoreName).index('diary_id').count(diaryId)
+
+      request.onsuccess = () => resolve(request.result > 0)
+      request.onerror = () => reject(new Error('获取修订记录失败'))
+    })
+  }
+
+  // 某一天所有条目（包括已删除条目）的修订记录，最新的在前
+  async getRevisionsByDate(date: string): Promise<DiaryRevision[]> {
+    if (this.isRemote && supabase) {
+      const { data, error } = await supabase
+        .from(REVISION_TABLE)
+        .select('*')
+        .eq('date', date)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      return data || []
+    }
+
+    if (!this.db) await this.initIDB()
+
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('数据库未初始化'))
+        return
+      }
+
+      const transaction = this.db.transaction([this.revisionStoreName], 'readonly')
+      const store = transaction.objectStore(this.revisionStoreName)
+      const request = store.index('date').getAll(date)
+
+      request.onsuccess = () => {
+        const revisions = (request.result || []) as DiaryRevision[]
+        revisions.sort((a, b) => b.created_at.localeCompare(a.created_at))
+        resolve(revisions)
+      }
+      request.onerror = () => reject(new Error('获取修订记录失败'))
+    })
+  }
 }
 
 export const diaryDb = new DiaryDatabase()
\ No newline at end of file
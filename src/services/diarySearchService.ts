@@ -0,0 +1,197 @@
+// 日记搜索服务
+// 在线时调用服务端搜索（search_weather_diaries），离线或服务端不可用时在本地倒排索引中搜索，
+// 本地索引覆盖已加载和离线缓存的日记；未配置 Supabase 时还包括本地数据库中的全部日记
+import { supabase } from '../config/supabase'
+import { diaryService } from './diaryService'
+import { optimizedUnifiedCacheService } from './optimizedUnifiedCacheService'
+import { enhancedOfflineCacheService } from './enhancedOfflineCacheService'
+import { StorageAdapter } from './storageAdapter'
+import { DiaryUtils } from '../utils/diaryUtils'
+import { SearchUtils, type HighlightSegment } from '../utils/searchUtils'
+import { MarkdownUtils } from '../utils/markdownUtils'
+import type { DiaryData, DiarySearchQuery } from '../types/diary'
+
+export type DiarySearchSource = 'remote' | 'local'
+
+export interface DiarySearchHit {
+  diary: DiaryData
+  snippet: HighlightSegment[]
+  score: number
+}
+
+export interface DiarySearchResult {
+  source: DiarySearchSource
+  hits: DiarySearchHit[]
+}
+
+interface IndexedDiary {
+  diary: DiaryData
+  text: string
+  tokens: string[]
+  signature: string
+}
+
+const DEFAULT_LIMIT = 50
+
+function intersect(a: Set<string>, b: Set<string>): Set<string> {
+  return new Set(Array.from(a).filter(key => b.has(key)))
+}
+
+class DiarySearchService {
+  // 条目 key -> 已索引的条目
+  private docs = new Map<string, IndexedDiary>()
+  // 索引词 -> 包含它的条目 key
+  private postings = new Map<string, Set<string>>()
+  private localLoaded = false
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      // 保存、删除、恢复后同步索引
+      window.addEventListener('diary:updated', (event: Event) => {
+        const detail = (event as CustomEvent<{ date: string; diaries: DiaryData[] }>).detail
+        if (detail?.date) this.replaceDate(detail.date, detail.diaries || [])
+      })
+    }
+  }
+
+  async search(query: DiarySearchQuery): Promise<DiarySearchResult> {
+    const terms = SearchUtils.parseKeyword(query.keyword)
+
+    if (supabase && navigator.onLine) {
+      try {
+        const diaries = await diaryService.searchDiaries(query)
+        // 服务端结果也加入本地索引，之后离线时同样能搜到
+        diaries.forEach(diary => this.indexDiary(diary))
+        return {
+          source: 'remote',
+          hits: diaries.map(diary => this.toHit(diary, terms))
+        }
+      } catch (error) {
+        console.warn('服务端搜索失败，改用本地索引:', error)
+      }
+    }
+
+    await this.syncIndex()
+    return { source: 'local', hits: this.searchLocal(query, terms) }
+  }
+
+  // 已索引的某一天的条目（离线时打开搜索结果用）
+  getIndexedDiaries(date: string): DiaryData[] {
+    const diaries = Array.from(this.docs.values())
+      .map(doc => doc.diary)
+      .filter(diary => diary.date === date)
+    return DiaryUtils.sortEntries(diaries)
+  }
+
+  private searchLocal(query: DiarySearchQuery, terms: string[]): DiarySearchHit[] {
+    let candidates: Set<string> | null = null
+    for (const term of terms) {
+      const keys = this.lookupTerm(term)
+      candidates = candidates ? intersect(candidates, keys) : keys
+      if (candidates.size === 0) break
+    }
+
+    const keys = candidates ? Array.from(candidates) : Array.from(this.docs.keys())
+    return keys
+      .map(key => this.docs.get(key))
+      .filter((doc): doc is IndexedDiary => !!doc)
+      // 倒排索引按二元组召回，可能有误报，再按子串校验一遍
+      .filter(doc => SearchUtils.matchesFilters(doc.diary, query) &&
+        terms.every(term => doc.text.toLowerCase().includes(term)))
+      .map(doc => this.toHit(doc.diary, terms, doc.text))
+      .sort((a, b) => b.score - a.score || DiaryUtils.compareEntries(b.diary, a.diary))
+      .slice(0, query.limit || DEFAULT_LIMIT)
+  }
+
+  // 一个查询词可能命中的条目：各索引词的交集；英文单词允许只输入一部分
+  private lookupTerm(term: string): Set<string> {
+    const tokens = SearchUtils.queryTokens(term)
+    if (tokens.length === 0) return new Set(this.docs.keys())
+
+    let result: Set<string> | null = null
+    for (const token of tokens) {
+      const keys = new Set<string>()
+      if (SearchUtils.isCjk(token)) {
+        this.postings.get(token)?.forEach(key => keys.add(key))
+      } else {
+        for (const [indexed, postingKeys] of this.postings) {
+          if (indexed.includes(token)) postingKeys.forEach(key => keys.add(key))
+        }
+      }
+      result = result ? intersect(result, keys) : keys
+      if (result.size === 0) break
+    }
+    return result || new Set()
+  }
+
+  // 摘要只取正文，城市和标签在结果中单独高亮显示
+  private toHit(diary: DiaryData, terms: string[], text = SearchUtils.getSearchText(diary)): DiarySearchHit {
+    return {
+      diary,
+      snippet: SearchUtils.buildSnippet(MarkdownUtils.toPlainText(diary.content), terms),
+      score: SearchUtils.countHits(text, terms)
+    }
+  }
+
+  // 把已加载和离线缓存的日记补进索引；本地模式首次搜索时读取本地数据库
+  private async syncIndex(): Promise<void> {
+    if (!supabase && !this.localLoaded) {
+      try {
+        const diaries = await StorageAdapter.getAllDiaries()
+        diaries.forEach(diary => this.indexDiary(diary as DiaryData))
+        this.localLoaded = true
+      } catch (error) {
+        console.warn('读取本地日记失败:', error)
+      }
+    }
+    enhancedOfflineCacheService.getAllCachedDiaries().forEach(diary => this.indexDiary(diary))
+    // 统一缓存中的数据最新，最后写入
+    optimizedUnifiedCacheService.getDiaryData().forEach(diary => this.indexDiary(diary))
+  }
+
+  private indexDiary(diary: DiaryData): void {
+    if (!diary?.date) return
+    const key = DiaryUtils.getEntryKey(diary)
+    const signature = `${diary.updated_at || ''}|${diary.content || ''}|${diary.city || ''}|${(diary.tags || []).join(',')}`
+    const existing = this.docs.get(key)
+    if (existing?.signature === signature) {
+      existing.diary = diary
+      return
+    }
+    if (existing) this.removeDoc(key)
+
+    const text = SearchUtils.getSearchText(diary)
+    const tokens = SearchUtils.tokenize(text)
+    tokens.forEach(token => {
+      let keys = this.postings.get(token)
+      if (!keys) {
+        keys = new Set()
+        this.postings.set(token, keys)
+      }
+      keys.add(key)
+    })
+    this.docs.set(key, { diary, text, tokens, signature })
+  }
+
+  private removeDoc(key: string): void {
+    const doc = this.docs.get(key)
+    if (!doc) return
+    doc.tokens.forEach(token => {
+      const keys = this.postings.get(token)
+      keys?.delete(key)
+      if (keys && keys.size === 0) this.postings.delete(token)
+    })
+    this.docs.delete(key)
+  }
+
+  private replaceDate(date: string, diaries: DiaryData[]): void {
+    const keep = new Set(diaries.map(diary => DiaryUtils.getEntryKey(diary)))
+    Array.from(this.docs.entries())
+      .filter(([key, doc]) => doc.diary.date === date && !keep.has(key))
+      .forEach(([key]) => this.removeDoc(key))
+    diaries.forEach(diary => this.indexDiary(diary))
+  }
+}
+
+export const diarySearchService = new DiarySearchService()
+export default diarySearchService
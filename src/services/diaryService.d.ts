@@ -2,13 +2,19 @@ export declare class DiaryService {
   constructor();
   getDiaries(limit?: number, forceRefresh?: boolean): Promise<any[]>;
   getDiariesByDateRange(startDate: string, endDate: string, forceRefresh?: boolean): Promise<any[]>;
+  getDiariesByDate(date: string, forceRefresh?: boolean): Promise<any[]>;
   getDiaryByDate(date: string, forceRefresh?: boolean): Promise<any>;
   createDiary(diaryData: any): Promise<any>;
   updateDiary(id: string, diaryData: any): Promise<any>;
   deleteDiary(id: string): Promise<boolean>;
+  deleteDiaryByDate(date: string): Promise<boolean>;
+  getRevisionsByDate(date: string): Promise<any[]>;
+  searchDiaries(query: any): Promise<any[]>;
+  getAllDiaries(): Promise<any[]>;
+  restoreRevision(revision: any): Promise<any>;
   updateCacheAfterModification(diary: any): void;
   clearDiaryCache(): void;
-  refreshDiaryByDate(date: string): Promise<any>;
+  refreshDiariesByDate(date: string): Promise<any[]>;
   preloadAdjacentDiaries(currentDate: string): Promise<void>;
 }
 
@@ -1,8 +1,15 @@
 // 优化的日记服务
 import { supabase } from '../config/supabase'
 import { cacheService } from './cacheService'
+import { diaryDb } from './diaryDb'
+import { DiaryUtils } from '../utils/diaryUtils'
 
-import type { DiaryData, DiaryServiceInterface } from '../types/diary'
+import type { DiaryData, DiaryRevision, DiarySearchQuery, DiaryServiceInterface } from '../types/diary'
+
+// 按日期范围查询时每页的条数，长范围（一整年）分页加载，避免单次响应过大
+const DIARY_PAGE_SIZE = 100
+
+const DIARY_COLUMNS = 'id,date,entry_time,content,mood,city,weather_data,images,videos,tags,created_at,updated_at'
 
 class DiaryService implements DiaryServiceInterface {
   private defaultTTL: number
@@ -25,21 +32,17 @@ class DiaryService implements DiaryServiceInterface {
 
       const { data, error } = await supabase
         .from('weather_diaries')
-        .select('id,date,content,mood,city,weather_data,images,videos,created_at,updated_at')
+        .select(DIARY_COLUMNS)
         .order('date', { ascending: false })
+        .order('entry_time', { ascending: false, nullsFirst: false })
+        .order('created_at', { ascending: false })
         .limit(limit)
 
       if (error) throw error
 
+      // 按条数截断时最后一天可能不完整，不写入按日期的缓存
       const diaries = data || []
       cacheService.set(key, diaries, this.defaultTTL)
-      
-      // 同时缓存单个日记
-      diaries.forEach(diary => {
-        const singleKey = cacheService.generateKey('diary_by_date', { date: diary.date })
-        cacheService.set(singleKey, diary, this.defaultTTL)
-      })
-
       return diaries
     } catch (error) {
       console.error('获取日记列表失败:', error)
@@ -70,27 +73,35 @@ class DiaryService implements DiaryServiceInterface {
 
       // console.log(`🌐 DiaryService: 发起网络请求查询日记 ${startDate} 到 ${endDate}`)
 
-      const { data, error } = await supabase
-        .from('weather_diaries')
-        .select('*')
-        .gte('date', startDate)
-        .lte('date', endDate)
-        .order('date', { ascending: true })
-
-      if (error) {
-        console.error('❌ DiaryService: Supabase查询错误:', error)
-        throw error
+      const diaries: DiaryData[] = []
+      for (let offset = 0; ; offset += DIARY_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('weather_diaries')
+          .select('*')
+          .gte('date', startDate)
+          .lte('date', endDate)
+          .order('date', { ascending: true })
+          .order('entry_time', { ascending: true, nullsFirst: true })
+          .order('created_at', { ascending: true })
+          .range(offset, offset + DIARY_PAGE_SIZE - 1)
+
+        if (error) {
+          console.error('❌ DiaryService: Supabase查询错误:', error)
+          throw error
+        }
+
+        const page = data || []
+        diaries.push(...page)
+        if (page.length < DIARY_PAGE_SIZE) break
       }
-
-      const diaries = data || []
       // console.log(`✅ DiaryService: 查询到 ${diaries.length} 条日记数据`)
       
       cacheService.set(key, diaries, this.defaultTTL)
       
-      // 同时缓存单个日记
-      diaries.forEach(diary => {
-        const singleKey = cacheService.generateKey('diary_by_date', { date: diary.date })
-        cacheService.set(singleKey, diary, this.defaultTTL)
+      // 同时按日期缓存当天的所有条目
+      DiaryUtils.groupByDate(diaries).forEach((entries, date) => {
+        const dayKey = cacheService.generateKey('diaries_by_date', { date })
+        cacheService.set(dayKey, entries, this.defaultTTL)
       })
 
       return diaries
@@ -108,11 +119,12 @@ class DiaryService implements DiaryServiceInterface {
     }
   }
 
-  async getDiaryByDate(date: string, forceRefresh: boolean = false): Promise<DiaryData | null> {
-    const key = cacheService.generateKey('diary_by_date', { date })
+  // 获取某一天的所有日记条目（按条目时间排序）
+  async getDiariesByDate(date: string, forceRefresh: boolean = false): Promise<DiaryData[]> {
+    const key = cacheService.generateKey('diaries_by_date', { date })
     
     if (!forceRefresh && cacheService.has(key)) {
-      return cacheService.get<DiaryData>(key)
+      return cacheService.get<DiaryData[]>(key) || []
     }
 
     try {
@@ -122,45 +134,50 @@ class DiaryService implements DiaryServiceInterface {
 
       const { data, error } = await supabase
         .from('weather_diaries')
-        .select('id,date,content,mood,city,weather_data,images,videos,created_at,updated_at')
+        .select(DIARY_COLUMNS)
         .eq('date', date)
-        .maybeSingle()
+        .order('entry_time', { ascending: true, nullsFirst: true })
+        .order('created_at', { ascending: true })
 
       if (error) {
         throw error
       }
 
-      const diary = data || null
-      cacheService.set(key, diary, this.defaultTTL)
-      return diary
+      const diaries = data || []
+      cacheService.set(key, diaries, this.defaultTTL)
+      return diaries
     } catch (error) {
       console.error(`获取日记失败 (${date}):`, error)
-      const cachedData = cacheService.get<DiaryData>(key)
+      const cachedData = cacheService.get<DiaryData[]>(key)
       if (cachedData) {
         return cachedData
       }
-      return null // 对于日记，如果获取失败就返回null
+      return [] // 对于日记，如果获取失败就返回空列表
     }
   }
 
+  // 兼容旧调用：返回当天最晚的一条
+  async getDiaryByDate(date: string, forceRefresh: boolean = false): Promise<DiaryData | null> {
+    const diaries = await this.getDiariesByDate(date, forceRefresh)
+    return DiaryUtils.getLatestEntry(diaries)
+  }
+
   async createDiary(diaryData: Omit<DiaryData, 'id' | 'created_at' | 'updated_at'>): Promise<DiaryData> {
     try {
       if (!supabase) {
         throw new Error('Supabase not configured')
       }
 
-      // 使用 upsert 操作，一次请求完成插入或更新
+      // 同一天可以有多条日记，总是插入新条目；修改已有条目用 updateDiary
       const { data, error } = await supabase
         .from('weather_diaries')
-        .upsert(diaryData, {
-          onConflict: 'date',
-          ignoreDuplicates: false
-        })
+        .insert(diaryData)
         .select()
         .single()
 
       if (error) throw error
 
+      await diaryDb.addRevision(data, 'create')
       // 更新缓存
       this.updateCacheAfterModification(data)
       return data
@@ -176,6 +193,8 @@ class DiaryService implements DiaryServiceInterface {
         throw new Error('Supabase not configured')
       }
 
+      await this.recordBaselineRevision(id)
+
       const { data, error } = await supabase
         .from('weather_diaries')
         .update(diaryData)
@@ -185,6 +204,7 @@ class DiaryService implements DiaryServiceInterface {
 
       if (error) throw error
 
+      await diaryDb.addRevision(data, 'update')
       // 更新缓存
       this.updateCacheAfterModification(data)
       return data
@@ -200,12 +220,15 @@ class DiaryService implements DiaryServiceInterface {
         throw new Error('Supabase not configured')
       }
 
-      const { error } = await supabase
+      // 删除时取回被删的行，写入修订记录以便恢复
+      const { data, error } = await supabase
         .from('weather_diaries')
         .delete()
         .eq('id', id)
+        .select(DIARY_COLUMNS)
 
       if (error) throw error
+      await this.recordDeletedRevisions(data || [])
 
       // 清理相关缓存
       this.clearDiaryCache()
@@ -222,12 +245,14 @@ class DiaryService implements DiaryServiceInterface {
         throw new Error('Supabase not configured')
       }
 
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('weather_diaries')
         .delete()
         .eq('date', date)
+        .select(DIARY_COLUMNS)
 
       if (error) throw error
+      await this.recordDeletedRevisions(data || [])
 
       // 清理相关缓存
       this.clearDiaryCache()
@@ -238,10 +263,130 @@ class DiaryService implements DiaryServiceInterface {
     }
   }
 
+  // 没有修订记录的旧条目，修改前先保存原内容
+  private async recordBaselineRevision(id: string): Promise<void> {
+    await diaryDb.ensureBaselineRevision(id, async () => {
+      if (!supabase) return null
+      const { data, error } = await supabase
+        .from('weather_diaries')
+        .select(DIARY_COLUMNS)
+        .eq('id', id)
+        .maybeSingle()
+
+      if (error) throw error
+      return data
+    })
+  }
+
+  private async recordDeletedRevisions(diaries: DiaryData[]): Promise<void> {
+    for (const diary of diaries) {
+      await diaryDb.addRevision(diary, 'delete')
+    }
+  }
+
+  // 某一天所有条目的修订记录（最新的在前），包括已删除的条目
+  async getRevisionsByDate(date: string): Promise<DiaryRevision[]> {
+    try {
+      return await diaryDb.getRevisionsByDate(date)
+    } catch (error) {
+      console.error('获取修订记录失败:', error)
+      return []
+    }
+  }
+
+  // 全部日记（导出备份用），分页读取，不走缓存
+  async getAllDiaries(): Promise<DiaryData[]> {
+    if (!supabase) {
+      throw new Error('Supabase not configured')
+    }
+
+    const diaries: DiaryData[] = []
+    for (let offset = 0; ; offset += DIARY_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('weather_diaries')
+        .select(DIARY_COLUMNS)
+        .order('date', { ascending: true })
+        .order('entry_time', { ascending: true, nullsFirst: true })
+        .order('created_at', { ascending: true })
+        .range(offset, offset + DIARY_PAGE_SIZE - 1)
+
+      if (error) throw error
+      const page = data || []
+      diaries.push(...page)
+      if (page.length < DIARY_PAGE_SIZE) break
+    }
+    return diaries
+  }
+
+  // 服务端搜索（search_weather_diaries，见 migrations/diary_search.sql）；失败时抛出，由调用方回退到本地索引
+  async searchDiaries(query: DiarySearchQuery): Promise<DiaryData[]> {
+    if (!supabase) {
+      throw new Error('Supabase not configured')
+    }
+
+    const { data, error } = await supabase.rpc('search_weather_diaries', {
+      p_query: query.keyword?.trim() || '',
+      p_start_date: query.startDate || null,
+      p_end_date: query.endDate || null,
+      p_mood: query.mood || null,
+      p_city: query.city?.trim() || null,
+      p_limit: query.limit || 50
+    })
+
+    if (error) throw error
+    return (data || []) as DiaryData[]
+  }
+
+  // 把条目恢复到某个修订：条目还在时覆盖内容，已删除时用原 id 重新创建
+  async restoreRevision(revision: DiaryRevision): Promise<DiaryData> {
+    try {
+      if (!supabase) {
+        throw new Error('Supabase not configured')
+      }
+
+      const fields = {
+        date: revision.date,
+        entry_time: revision.entry_time || null,
+        content: revision.content || '',
+        mood: revision.mood || '',
+        city: revision.city || '',
+        weather_data: revision.weather_data ?? null,
+        images: revision.images || [],
+        videos: revision.videos || [],
+        tags: revision.tags || []
+      }
+
+      const { data: existing, error: lookupError } = await supabase
+        .from('weather_diaries')
+        .select('id')
+        .eq('id', revision.diary_id)
+        .maybeSingle()
+
+      if (lookupError) throw lookupError
+
+      const { data, error } = existing
+        ? await supabase.from('weather_diaries').update(fields).eq('id', revision.diary_id).select().single()
+        : await supabase.from('weather_diaries').insert({ id: revision.diary_id, ...fields }).select().single()
+
+      if (error) throw error
+
+      await diaryDb.addRevision(data, 'restore')
+      this.updateCacheAfterModification(data)
+      return data
+    } catch (error) {
+      console.error('恢复日记失败:', error)
+      throw error
+    }
+  }
+
   private updateCacheAfterModification(diary: DiaryData): void {
-    // 更新单个日记缓存
-    const singleKey = cacheService.generateKey('diary_by_date', { date: diary.date })
-    cacheService.set(singleKey, diary, this.defaultTTL)
+    // 更新当天的条目缓存（没有缓存时等下次加载）
+    const dayKey = cacheService.generateKey('diaries_by_date', { date: diary.date })
+    const cachedDay = cacheService.get<DiaryData[]>(dayKey)
+    if (cachedDay) {
+      const others = cachedDay.filter(item => item.id !== diary.id)
+      cacheService.set(dayKey, DiaryUtils.sortEntries([...others, diary]), this.defaultTTL)
+    }
     
     // 清理列表缓存，强制重新加载
     cacheService.invalidateByType('diaries')
@@ -249,13 +394,13 @@ class DiaryService implements DiaryServiceInterface {
   }
 
   clearDiaryCache(): void {
-    cacheService.invalidateByType('diary_by_date')
+    cacheService.invalidateByType('diaries_by_date')
     cacheService.invalidateByType('diaries')
     cacheService.invalidateByType('diaries_range')
   }
 
-  async refreshDiaryByDate(date: string): Promise<DiaryData | null> {
-    return this.getDiaryByDate(date, true)
+  async refreshDiariesByDate(date: string): Promise<DiaryData[]> {
+    return this.getDiariesByDate(date, true)
   }
 
   async preloadAdjacentDiaries(currentDate: string): Promise<void> {
@@ -265,8 +410,8 @@ class DiaryService implements DiaryServiceInterface {
     
     // 预加载相邻日期的日记（不等待结果）
     Promise.all([
-      this.getDiaryByDate(prevDate).catch(() => null),
-      this.getDiaryByDate(nextDate).catch(() => null)
+      this.getDiariesByDate(prevDate).catch(() => []),
+      this.getDiariesByDate(nextDate).catch(() => [])
     ])
   }
 }
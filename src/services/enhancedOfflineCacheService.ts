@@ -1,6 +1,9 @@
 // 增强的离线缓存服务 - 实现缓存优先和按日期索引的智能缓存策略
 import { WeatherData } from '../types/weather'
 import { DiaryData } from '../types/diary'
+import { DateUtils } from '../utils/dateUtils'
+import { DiaryUtils } from '../utils/diaryUtils'
+import { t } from '../i18n'
 
 interface CacheConfig {
   maxDateCount: number // 最大缓存日期数量
@@ -25,7 +28,7 @@ interface CacheStats {
 export class EnhancedOfflineCacheService {
   private static instance: EnhancedOfflineCacheService
   
-  // 按日期索引的缓存存储
+  // 天气按日期索引；日记一天可以有多条，按条目 id 索引
   private weatherCache = new Map<string, DateCacheItem<WeatherData>>()
   private diaryCache = new Map<string, DateCacheItem<DiaryData>>()
   
@@ -63,13 +66,13 @@ export class EnhancedOfflineCacheService {
         })
       }
 
-      // 恢复日记数据
+      // 恢复日记数据（旧版本按日期保存，统一按条目 id 重新索引）
       const diaryData = localStorage.getItem('enhanced_diary_cache')
       if (diaryData) {
         const parsed = JSON.parse(diaryData)
-        Object.entries(parsed).forEach(([date, item]: [string, any]) => {
-          if (this.isValidCacheItem(item)) {
-            this.diaryCache.set(date, item)
+        Object.values(parsed).forEach((item: any) => {
+          if (this.isValidCacheItem(item) && item.data.date) {
+            this.diaryCache.set(DiaryUtils.getEntryKey(item.data), item)
           }
         })
       }
@@ -138,16 +141,16 @@ export class EnhancedOfflineCacheService {
     
     // 从缓存获取数据
     dates.forEach(date => {
-      const cached = this.getDiaryFromCache(date)
-      if (cached) {
-        result.push(cached)
+      const cached = this.getDiariesFromCache(date)
+      if (cached.length > 0) {
+        result.push(...cached)
       } else {
         missingDates.push(date)
       }
     })
     
-    // 按日期排序
-    result.sort((a, b) => a.date.localeCompare(b.date))
+    // 按日期和条目时间排序
+    result.sort((a, b) => DiaryUtils.compareEntries(a, b))
     
 
     
@@ -206,18 +209,26 @@ export class EnhancedOfflineCacheService {
       const onlineData = await onlineLoader()
       const updatedDates: string[] = []
       
-      // 缓存新数据
+      // 缓存新数据，已在结果中的条目原地替换
       for (const diary of onlineData) {
         if (diary && diary.date) {
-          this.cacheDiaryData(diary.date, diary)
-          updatedDates.push(diary.date)
-          currentResult.push(diary)
+          this.cacheDiaryData(diary)
+          if (!updatedDates.includes(diary.date)) {
+            updatedDates.push(diary.date)
+          }
+          const key = DiaryUtils.getEntryKey(diary)
+          const index = currentResult.findIndex(d => DiaryUtils.getEntryKey(d) === key)
+          if (index !== -1) {
+            currentResult[index] = diary
+          } else {
+            currentResult.push(diary)
+          }
         }
       }
       
       if (updatedDates.length > 0) {
         // 重新排序
-        currentResult.sort((a, b) => a.date.localeCompare(b.date))
+        currentResult.sort((a, b) => DiaryUtils.compareEntries(a, b))
         
 
         
@@ -251,20 +262,39 @@ export class EnhancedOfflineCacheService {
     return cached.data
   }
 
-  // 从缓存获取日记数据
-  private getDiaryFromCache(date: string): DiaryData | null {
-    const cached = this.diaryCache.get(date)
-    if (!cached) return null
+  // 从缓存获取某一天的所有日记条目
+  private getDiariesFromCache(date: string): DiaryData[] {
+    const result: DiaryData[] = []
+    const now = Date.now()
     
-    // 检查是否过期
-    if (this.isExpired(cached, this.config.diaryTTL)) {
-      this.diaryCache.delete(date)
-      return null
+    for (const [key, cached] of this.diaryCache.entries()) {
+      if (cached.data.date !== date) continue
+      
+      // 检查是否过期
+      if (this.isExpired(cached, this.config.diaryTTL)) {
+        this.diaryCache.delete(key)
+        continue
+      }
+      
+      // 更新访问时间
+      cached.lastAccessed = now
+      result.push(cached.data)
     }
     
-    // 更新访问时间
-    cached.lastAccessed = Date.now()
-    return cached.data
+    return result
+  }
+
+  // 所有未过期的日记条目（离线搜索用）
+  getAllCachedDiaries(): DiaryData[] {
+    const result: DiaryData[] = []
+    for (const [key, cached] of this.diaryCache.entries()) {
+      if (this.isExpired(cached, this.config.diaryTTL)) {
+        this.diaryCache.delete(key)
+        continue
+      }
+      result.push(cached.data)
+    }
+    return result
   }
 
   // 缓存天气数据（按日期索引，支持合并）
@@ -288,9 +318,9 @@ export class EnhancedOfflineCacheService {
     this.persistWeatherCache()
   }
 
-  // 缓存日记数据（按日期索引，支持合并）
-  cacheDiaryData(date: string, diary: DiaryData): void {
-    if (!diary || !date) return
+  // 缓存单条日记（按条目 id 索引，同一条目以最新数据为准）
+  cacheDiaryData(diary: DiaryData): void {
+    if (!diary || !diary.date) return
     
     const _now = Date.now()
     const cacheItem: DateCacheItem<DiaryData> = {
@@ -299,8 +329,7 @@ export class EnhancedOfflineCacheService {
       lastAccessed: _now
     }
     
-    // 如果是重复日期，以最新数据为准
-    this.diaryCache.set(date, cacheItem)
+    this.diaryCache.set(DiaryUtils.getEntryKey(diary), cacheItem)
     
     // 检查缓存容量并清理
     this.enforceDiaryCacheLimit()
@@ -309,6 +338,34 @@ export class EnhancedOfflineCacheService {
     this.persistDiaryCache()
   }
 
+  // 用最新的条目列表替换某一天的缓存（当天删除的条目一并移除）
+  replaceDiaryDataForDate(date: string, diaries: DiaryData[]): void {
+    if (!date) return
+    
+    for (const [key, cached] of this.diaryCache.entries()) {
+      if (cached.data.date === date) {
+        this.diaryCache.delete(key)
+      }
+    }
+    
+    const _now = Date.now()
+    diaries.forEach(diary => {
+      if (diary && diary.date === date) {
+        this.diaryCache.set(DiaryUtils.getEntryKey(diary), { data: diary, timestamp: _now, lastAccessed: _now })
+      }
+    })
+    
+    this.enforceDiaryCacheLimit()
+    this.persistDiaryCache()
+  }
+
+  // 移除单条日记
+  removeDiaryData(key: string): void {
+    if (this.diaryCache.delete(key)) {
+      this.persistDiaryCache()
+    }
+  }
+
   // 批量缓存天气数据
   batchCacheWeatherData(weatherList: WeatherData[]): void {
     if (!weatherList || weatherList.length === 0) return
@@ -360,7 +417,8 @@ export class EnhancedOfflineCacheService {
     
     diaryList.forEach(diary => {
       if (diary && diary.date) {
-        const existed = this.diaryCache.has(diary.date)
+        const key = DiaryUtils.getEntryKey(diary)
+        const existed = this.diaryCache.has(key)
         
         const cacheItem: DateCacheItem<DiaryData> = {
           data: diary,
@@ -368,7 +426,7 @@ export class EnhancedOfflineCacheService {
           lastAccessed: now
         }
         
-        this.diaryCache.set(diary.date, cacheItem)
+        this.diaryCache.set(key, cacheItem)
         
         if (existed) {
           updateCount++
@@ -406,23 +464,23 @@ export class EnhancedOfflineCacheService {
 
   }
 
-  // 强制执行日记缓存容量限制
+  // 强制执行日记缓存容量限制（按日期计数，一天的多条日记一起保留或删除）
   private enforceDiaryCacheLimit(): void {
-    if (this.diaryCache.size <= this.config.maxDateCount) return
-    
-
-    
-    // 按日期排序，删除最远的日期数据
-    const sortedDates = Array.from(this.diaryCache.keys()).sort()
-    const toDelete = this.diaryCache.size - this.config.maxDateCount
-    
-    for (let i = 0; i < toDelete; i++) {
-      const dateToDelete = sortedDates[i]
-      this.diaryCache.delete(dateToDelete)
-
+    const sortedDates = this.getDiaryDates()
+    if (sortedDates.length <= this.config.maxDateCount) return
+    
+    // 删除最远的日期数据
+    const datesToDelete = new Set(sortedDates.slice(0, sortedDates.length - this.config.maxDateCount))
+    for (const [key, cached] of this.diaryCache.entries()) {
+      if (datesToDelete.has(cached.data.date)) {
+        this.diaryCache.delete(key)
+      }
     }
-    
+  }
 
+  // 日记缓存中出现的日期（升序）
+  private getDiaryDates(): string[] {
+    return Array.from(new Set(Array.from(this.diaryCache.values()).map(item => item.data.date))).sort()
   }
 
   // 检查缓存项是否过期
@@ -445,25 +503,24 @@ export class EnhancedOfflineCacheService {
 
   // 生成占位天气数据
   private generatePlaceholderWeatherData(date: string): WeatherData {
-    const today = new Date().toISOString().slice(0, 10)
+    const today = DateUtils.today()
     const isPast = date < today
     const isToday = date === today
     
-    let description = '缓存加载中...'
+    let description = t('placeholder.loading')
     if (isPast) {
-      description = '历史数据加载中...'
+      description = t('placeholder.loadingPast')
     } else if (isToday) {
-      description = '实时数据加载中...'
+      description = t('placeholder.loadingToday')
     } else {
-      description = '预报数据加载中...'
+      description = t('placeholder.loadingFuture')
     }
     
     return {
       date,
       temperature: { min: 0, max: 0, current: 0 },
-      humidity: 0,
       windSpeed: 0,
-      windDirection: '加载中',
+      windDirection: t('placeholder.windLoading'),
       precipitation: 0,
       cloudCover: 0,
       description,
@@ -506,9 +563,9 @@ export class EnhancedOfflineCacheService {
     }
     
     // 清理过期日记数据
-    for (const [date, item] of this.diaryCache.entries()) {
+    for (const [key, item] of this.diaryCache.entries()) {
       if (this.isExpired(item, this.config.diaryTTL)) {
-        this.diaryCache.delete(date)
+        this.diaryCache.delete(key)
         diaryCleaned++
       }
     }
@@ -531,7 +588,7 @@ export class EnhancedOfflineCacheService {
   // 获取缓存统计信息
   getCacheStats(): CacheStats {
     const weatherDates = Array.from(this.weatherCache.keys()).sort()
-    const diaryDates = Array.from(this.diaryCache.keys()).sort()
+    const diaryDates = this.getDiaryDates()
     
     const totalSize = this.calculateCacheSize()
     
@@ -555,7 +612,7 @@ export class EnhancedOfflineCacheService {
       if (totalBytes < 1024 * 1024) return `${(totalBytes / 1024).toFixed(1)}KB`
       return `${(totalBytes / (1024 * 1024)).toFixed(1)}MB`
     } catch {
-      return '未知'
+      return t('weather.unknown')
     }
   }
 
@@ -568,6 +625,12 @@ export class EnhancedOfflineCacheService {
 
   }
 
+  // 只清空天气缓存（切换天气数据源时使用，保留日记）
+  clearWeatherCache(): void {
+    this.weatherCache.clear()
+    localStorage.removeItem('enhanced_weather_cache')
+  }
+
   // 更新配置
   updateConfig(newConfig: Partial<CacheConfig>): void {
     this.config = { ...this.config, ...newConfig }
@@ -0,0 +1,123 @@
+// 离线样例天气数据源：不访问网络，按日期和坐标从内置 JSON 确定性地生成数据，用于演示和无网开发
+import fixtures from '../data/weatherFixtures.json'
+import { WeatherApiService } from './weatherApi'
+import { DateUtils } from '../utils/dateUtils'
+import type { WeatherData, HourlyWeather, WeatherProvider } from '../types/weather'
+
+interface FixtureDay {
+  weatherCode: number
+  temperatureOffset: number
+  precipitation: number
+  cloudCover: number
+  windSpeed: number
+  windDirection: number
+  humidityOffset: number
+  uvIndex: number
+  pressure: number
+}
+
+export class FixtureWeatherProvider implements WeatherProvider {
+  readonly id = 'fixture'
+  readonly name = '离线样例数据'
+  readonly requiresNetwork = false
+
+  async getDailyRange(latitude: number, longitude: number, startDate: string, endDate: string): Promise<WeatherData[]> {
+    return DateUtils.generateDateRange(startDate, endDate).map((date) => this.buildDay(latitude, longitude, date))
+  }
+
+  async getCurrent(latitude: number, longitude: number): Promise<Partial<WeatherData> | null> {
+    // 按地点当地时间取当前小时，而不是浏览器所在时区
+    const timeZone = DateUtils.getTimeZone()
+    const today = DateUtils.today(timeZone)
+    const hour = DateUtils.currentHour(timeZone)
+    const hourly = await this.getHourly(latitude, longitude, today)
+    const now = hourly[hour]
+    if (!now) return null
+    return {
+      date: today,
+      temperature: { current: Math.round(now.temperature), min: 0, max: 0 },
+      windSpeed: now.windSpeed,
+      windDirection: now.windDirection,
+      windDirectionDegrees: this.buildDay(latitude, longitude, today).windDirectionDegrees,
+      description: now.description,
+      icon: now.icon,
+      weatherCode: now.weatherCode
+    }
+  }
+
+  async getForecast(latitude: number, longitude: number, days: number): Promise<WeatherData[]> {
+    const today = DateUtils.today()
+    return this.getDailyRange(latitude, longitude, today, DateUtils.addDays(today, days - 1))
+  }
+
+  async getHourly(latitude: number, longitude: number, date: string): Promise<HourlyWeather[]> {
+    const day = this.buildDay(latitude, longitude, date)
+    const { temperature, precipitation } = fixtures.hourlyProfile
+    const precipWeight = precipitation.reduce((sum, w) => sum + w, 0) || 1
+    const dryCode = day.cloudCover >= 80 ? 3 : day.cloudCover >= 40 ? 2 : 1
+    const dryInfo = { ...WeatherApiService.getWeatherInfo(dryCode), weatherCode: dryCode }
+
+    return temperature.map((ratio, hour) => {
+      const hourPrecip = Math.round(day.precipitation * (precipitation[hour] / precipWeight) * 100) / 100
+      const info = hourPrecip > 0 ? { description: day.description, icon: day.icon, weatherCode: day.weatherCode } : dryInfo
+      return {
+        time: `${date}T${String(hour).padStart(2, '0')}:00`,
+        hour,
+        temperature: Math.round((day.temperature.min + (day.temperature.max - day.temperature.min) * ratio) * 10) / 10,
+        precipitation: hourPrecip,
+        cloudCover: day.cloudCover,
+        windSpeed: day.windSpeed,
+        windDirection: day.windDirection,
+        description: info.description,
+        icon: info.icon,
+        weatherCode: info.weatherCode
+      }
+    })
+  }
+
+  // 组合月份气候基准和典型天气日，得到某地某天的数据
+  private buildDay(latitude: number, longitude: number, date: string): WeatherData {
+    const days = fixtures.days as FixtureDay[]
+    const sample = days[this.hash(`${date}|${latitude.toFixed(2)}|${longitude.toFixed(2)}`) % days.length]
+    // 南半球季节相反
+    let month = Number(date.slice(5, 7)) - 1
+    if (latitude < 0) month = (month + 6) % 12
+    const normal = fixtures.monthlyNormals[month]
+
+    const min = normal.min + sample.temperatureOffset
+    const max = normal.max + sample.temperatureOffset
+    const info = WeatherApiService.getWeatherInfo(sample.weatherCode)
+
+    return {
+      date,
+      temperature: { min, max, current: Math.round((min + max) / 2) },
+      humidity: Math.min(100, Math.max(0, normal.humidity + sample.humidityOffset)),
+      apparentTemperature: { min: min - 1, max: max + (normal.humidity > 75 ? 3 : 1) },
+      uvIndex: sample.uvIndex,
+      pressure: sample.pressure,
+      sunrise: normal.sunrise,
+      sunset: normal.sunset,
+      windSpeed: sample.windSpeed,
+      windDirection: WeatherApiService.getWindDirection(sample.windDirection),
+      windDirectionDegrees: sample.windDirection,
+      // 样例数据没有阵风，按风速的 1.5 倍估算
+      windGusts: Math.round(sample.windSpeed * 1.5),
+      precipitation: sample.precipitation,
+      cloudCover: sample.cloudCover,
+      description: info.description,
+      icon: info.icon,
+      weatherCode: sample.weatherCode
+    }
+  }
+
+  // 简单字符串哈希，保证同一输入始终得到同一样例
+  private hash(input: string): number {
+    let h = 0
+    for (let i = 0; i < input.length; i++) {
+      h = (h * 31 + input.charCodeAt(i)) >>> 0
+    }
+    return h
+  }
+}
+
+export const fixtureWeatherProvider = new FixtureWeatherProvider()
@@ -0,0 +1,297 @@
+// 预报准确率：记录获取到的未来日期预报（按目标日期和提前天数），archive 有实况后计算误差
+import { WeatherApiService } from './weatherApi'
+import type { WeatherData } from '../types/weather'
+import { DateUtils } from '../utils/dateUtils'
+
+export interface ForecastSnapshot {
+  location: string // 坐标保留2位小数，相邻位置视为同一地点
+  targetDate: string
+  leadDays: number // 提前天数，0 表示当天获取的当天预报
+  issuedDate: string // 获取预报时地点当地的日期
+  max: number
+  min: number
+  precipitation: number
+  weatherCode?: number
+}
+
+// archive 实况（°C / mm）
+export interface ForecastActual {
+  max: number
+  min: number
+  precipitation: number
+}
+
+export interface LeadTimeAccuracy {
+  leadDays: number // 汇总全部提前天数时为 -1
+  samples: number
+  maxMae: number // 最高温平均绝对误差 °C
+  minMae: number // 最低温平均绝对误差 °C
+  maxBias: number // 最高温平均偏差（预报 - 实况）°C，正值表示预报偏暖
+  rainHits: number // 预报有雨、实际有雨
+  rainMisses: number // 预报无雨、实际有雨
+  falseAlarms: number // 预报有雨、实际无雨
+  correctNegatives: number // 预报无雨、实际无雨
+  rainAccuracy: number // 降雨预报正确率 0-1
+}
+
+export interface ForecastAccuracyReport {
+  byLeadTime: LeadTimeAccuracy[]
+  overall: LeadTimeAccuracy | null
+  recordedSnapshots: number
+  pendingSnapshots: number // 尚无实况、无法评估的预报数
+}
+
+const SNAPSHOTS_KEY = 'weather_forecast_snapshots'
+const ACTUALS_KEY = 'weather_forecast_actuals'
+// Open-Meteo 预报最多16天
+const MAX_LEAD_DAYS = 15
+// 日降水量达到 1mm 记为有雨；0.1mm 的毛毛雨在预报和实况中都很不稳定
+export const FORECAST_RAIN_THRESHOLD = 1
+// 只保留最近一年的记录，控制本地存储占用
+const RETENTION_DAYS = 400
+const MAX_SNAPSHOTS = 4000
+// 单次请求 archive 的最大天数
+const MAX_ARCHIVE_REQUEST_DAYS = 92
+
+function locationKey(latitude: number, longitude: number): string {
+  return `${latitude.toFixed(2)},${longitude.toFixed(2)}`
+}
+
+function snapshotKey(snapshot: Pick<ForecastSnapshot, 'location' | 'targetDate' | 'leadDays'>): string {
+  return `${snapshot.location}|${snapshot.targetDate}|${snapshot.leadDays}`
+}
+
+function actualKey(location: string, date: string): string {
+  return `${location}|${date}`
+}
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key)
+    return raw ? JSON.parse(raw) as T : fallback
+  } catch {
+    return fallback
+  }
+}
+
+function writeJson(key: string, value: unknown): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(value))
+  } catch (error) {
+    console.warn('保存预报准确率数据失败:', error)
+  }
+}
+
+class ForecastAccuracyService {
+  private snapshots: Map<string, ForecastSnapshot> | null = null
+  private actuals: Record<string, ForecastActual> | null = null
+  private pending = new Map<string, Promise<ForecastAccuracyReport>>()
+
+  // 记录一批逐日数据中今天及以后的预报；同一目标日期和提前天数只保留最新一次
+  record(latitude: number, longitude: number, data: WeatherData[], timeZone: string = DateUtils.getTimeZone()): void {
+    const today = DateUtils.today(timeZone)
+    const location = locationKey(latitude, longitude)
+    const snapshots = this.getSnapshots()
+    let changed = false
+
+    data.forEach((day) => {
+      if (day.isPlaceholder || day.date < today) return
+      const leadDays = DateUtils.daysBetween(today, day.date)
+      if (leadDays > MAX_LEAD_DAYS) return
+      const snapshot: ForecastSnapshot = {
+        location,
+        targetDate: day.date,
+        leadDays,
+        issuedDate: today,
+        max: day.temperature.max,
+        min: day.temperature.min,
+        precipitation: day.precipitation,
+        weatherCode: day.weatherCode
+      }
+      const key = snapshotKey(snapshot)
+      const existing = snapshots.get(key)
+      if (existing && existing.max === snapshot.max && existing.min === snapshot.min &&
+          existing.precipitation === snapshot.precipitation) return
+      snapshots.set(key, snapshot)
+      changed = true
+    })
+
+    if (changed) {
+      this.prune(today)
+      this.persistSnapshots()
+      window.dispatchEvent(new CustomEvent('forecast:snapshots:updated', { detail: { location } }))
+    }
+  }
+
+  // 某地点已记录的预报（按目标日期、提前天数排序）
+  getSnapshotsFor(latitude: number, longitude: number): ForecastSnapshot[] {
+    const location = locationKey(latitude, longitude)
+    return Array.from(this.getSnapshots().values())
+      .filter(s => s.location === location)
+      .sort((a, b) => a.targetDate.localeCompare(b.targetDate) || a.leadDays - b.leadDays)
+  }
+
+  // 补齐已有 archive 实况的目标日期，计算各提前天数的误差
+  async evaluate(latitude: number, longitude: number, timeZone: string = DateUtils.getTimeZone()): Promise<ForecastAccuracyReport> {
+    const location = locationKey(latitude, longitude)
+    const inFlight = this.pending.get(location)
+    if (inFlight) return inFlight
+
+    const request = this.fillActuals(location, latitude, longitude, timeZone)
+      .then(() => this.buildReport(location))
+      .finally(() => {
+        this.pending.delete(location)
+      })
+    this.pending.set(location, request)
+    return request
+  }
+
+  // 清空某地点的记录
+  clear(latitude: number, longitude: number): void {
+    const location = locationKey(latitude, longitude)
+    const snapshots = this.getSnapshots()
+    Array.from(snapshots.entries()).forEach(([key, snapshot]) => {
+      if (snapshot.location === location) snapshots.delete(key)
+    })
+    const actuals = this.getActuals()
+    Object.keys(actuals).forEach((key) => {
+      if (key.startsWith(`${location}|`)) delete actuals[key]
+    })
+    this.persistSnapshots()
+    writeJson(ACTUALS_KEY, actuals)
+    window.dispatchEvent(new CustomEvent('forecast:snapshots:updated', { detail: { location } }))
+  }
+
+  // archive 有数据的目标日期中尚无实况的，按连续区间请求
+  private async fillActuals(location: string, latitude: number, longitude: number, timeZone: string): Promise<void> {
+    const archiveMaxDate = WeatherApiService.getEstimatedArchiveMaxDate(timeZone)
+    const actuals = this.getActuals()
+    const missing = Array.from(new Set(
+      Array.from(this.getSnapshots().values())
+        .filter(s => s.location === location && s.targetDate <= archiveMaxDate && !actuals[actualKey(location, s.targetDate)])
+        .map(s => s.targetDate)
+    )).sort()
+    if (missing.length === 0) return
+
+    const chunks = DateUtils.splitDateRange(missing[0], missing[missing.length - 1], MAX_ARCHIVE_REQUEST_DAYS)
+    let changed = false
+    for (const chunk of chunks) {
+      const { data } = await WeatherApiService.getArchiveWeather(latitude, longitude, chunk.start, chunk.end, 'archive', timeZone)
+      data.forEach((day) => {
+        actuals[actualKey(location, day.date)] = {
+          max: day.temperature.max,
+          min: day.temperature.min,
+          precipitation: day.precipitation
+        }
+        changed = true
+      })
+    }
+    if (changed) {
+      writeJson(ACTUALS_KEY, actuals)
+    }
+  }
+
+  private buildReport(location: string): ForecastAccuracyReport {
+    const actuals = this.getActuals()
+    const snapshots = Array.from(this.getSnapshots().values()).filter(s => s.location === location)
+    const pairs = snapshots
+      .map(snapshot => ({ snapshot, actual: actuals[actualKey(location, snapshot.targetDate)] }))
+      .filter((pair): pair is { snapshot: ForecastSnapshot; actual: ForecastActual } => !!pair.actual)
+
+    const byLead = new Map<number, typeof pairs>()
+    pairs.forEach((pair) => {
+      const list = byLead.get(pair.snapshot.leadDays) || []
+      list.push(pair)
+      byLead.set(pair.snapshot.leadDays, list)
+    })
+
+    return {
+      byLeadTime: Array.from(byLead.entries())
+        .sort((a, b) => a[0] - b[0])
+        .map(([leadDays, list]) => this.summarize(leadDays, list)),
+      overall: pairs.length > 0 ? this.summarize(-1, pairs) : null,
+      recordedSnapshots: snapshots.length,
+      pendingSnapshots: snapshots.length - pairs.length
+    }
+  }
+
+  private summarize(leadDays: number, pairs: { snapshot: ForecastSnapshot; actual: ForecastActual }[]): LeadTimeAccuracy {
+    const round = (value: number) => Math.round(value * 10) / 10
+    const n = pairs.length
+    let maxError = 0
+    let minError = 0
+    let maxBias = 0
+    const result = { rainHits: 0, rainMisses: 0, falseAlarms: 0, correctNegatives: 0 }
+
+    pairs.forEach(({ snapshot, actual }) => {
+      maxError += Math.abs(snapshot.max - actual.max)
+      minError += Math.abs(snapshot.min - actual.min)
+      maxBias += snapshot.max - actual.max
+      const forecastRain = snapshot.precipitation >= FORECAST_RAIN_THRESHOLD
+      const actualRain = actual.precipitation >= FORECAST_RAIN_THRESHOLD
+      if (forecastRain && actualRain) result.rainHits++
+      else if (actualRain) result.rainMisses++
+      else if (forecastRain) result.falseAlarms++
+      else result.correctNegatives++
+    })
+
+    return {
+      leadDays,
+      samples: n,
+      maxMae: round(maxError / n),
+      minMae: round(minError / n),
+      maxBias: round(maxBias / n),
+      ...result,
+      rainAccuracy: (result.rainHits + result.correctNegatives) / n
+    }
+  }
+
+  // 删除超过保留期的记录，数量超限时优先删除最早的目标日期
+  private prune(today: string): void {
+    const snapshots = this.getSnapshots()
+    const cutoff = DateUtils.addDays(today, -RETENTION_DAYS)
+    Array.from(snapshots.entries()).forEach(([key, snapshot]) => {
+      if (snapshot.targetDate < cutoff) snapshots.delete(key)
+    })
+    if (snapshots.size > MAX_SNAPSHOTS) {
+      const sorted = Array.from(snapshots.entries()).sort((a, b) => a[1].targetDate.localeCompare(b[1].targetDate))
+      sorted.slice(0, snapshots.size - MAX_SNAPSHOTS).forEach(([key]) => snapshots.delete(key))
+    }
+
+    const actuals = this.getActuals()
+    const remaining = new Set(Array.from(snapshots.values()).map(s => actualKey(s.location, s.targetDate)))
+    let removed = false
+    Object.keys(actuals).forEach((key) => {
+      if (!remaining.has(key)) {
+        delete actuals[key]
+        removed = true
+      }
+    })
+    if (removed) {
+      writeJson(ACTUALS_KEY, actuals)
+    }
+  }
+
+  private getSnapshots(): Map<string, ForecastSnapshot> {
+    if (!this.snapshots) {
+      const list = readJson<ForecastSnapshot[]>(SNAPSHOTS_KEY, [])
+      this.snapshots = new Map((Array.isArray(list) ? list : []).map(s => [snapshotKey(s), s]))
+    }
+    return this.snapshots
+  }
+
+  private getActuals(): Record<string, ForecastActual> {
+    if (!this.actuals) {
+      const saved = readJson<Record<string, ForecastActual>>(ACTUALS_KEY, {})
+      this.actuals = saved && typeof saved === 'object' ? saved : {}
+    }
+    return this.actuals
+  }
+
+  private persistSnapshots(): void {
+    writeJson(SNAPSHOTS_KEY, Array.from(this.getSnapshots().values()))
+  }
+}
+
+export const forecastAccuracyService = new ForecastAccuracyService()
+export default forecastAccuracyService
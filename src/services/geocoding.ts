@@ -1,4 +1,5 @@
 import axios from 'axios'
+import { t, geocodingLanguage } from '../i18n'
 
 export interface ReverseGeocodeResult {
   countryName?: string
@@ -12,7 +13,7 @@ export class GeocodingService {
   static async reverseGeocode(
     latitude: number,
     longitude: number,
-    language: string = 'zh'
+    language: string = geocodingLanguage()
   ): Promise<string> {
     try {
       const url = 'https://api.bigdatacloud.net/data/reverse-geocode-client'
@@ -34,9 +35,9 @@ export class GeocodingService {
       if (subdivision && subdivision !== city) parts.push(subdivision)
       if (country && country !== subdivision) parts.push(country)
 
-      return parts.join(' · ') || '未知位置'
+      return parts.join(' · ') || t('location.unknown')
     } catch (e) {
-      return '未知位置'
+      return t('location.unknown')
     }
   }
 
@@ -44,8 +45,8 @@ export class GeocodingService {
   static async searchCity(
     name: string,
     count: number = 7,
-    language: string = 'zh'
-  ): Promise<Array<{ label: string; value: string; lat: number; lon: number }>> {
+    language: string = geocodingLanguage()
+  ): Promise<Array<{ label: string; value: string; lat: number; lon: number; timezone?: string }>> {
     if (!name || !name.trim()) return []
     try {
       const url = 'https://geocoding-api.open-meteo.com/v1/search'
@@ -67,7 +68,9 @@ export class GeocodingService {
           label,
           value: `${lat},${lon}`,
           lat,
-          lon
+          lon,
+          // 地点的 IANA 时区，用于按当地日期划分天数
+          timezone: typeof r.timezone === 'string' ? r.timezone : undefined
         }
       })
     } catch (e) {
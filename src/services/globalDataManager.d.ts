@@ -1,8 +1,15 @@
 export interface GlobalDataManager {
-  initialize(startDate: string, endDate: string, latitude: number, longitude: number): Promise<void>
-  getDiary(date: string): any
+  initialize(startDate: string, endDate: string, latitude: number, longitude: number, signal?: AbortSignal): Promise<void>
+  getDiaries(date: string): any[]
+  setDiaries(date: string, diaries: any[]): void
   getWeatherList(): any[]
-  refreshDate(date: string): Promise<any>
+  refreshDate(date: string): Promise<any[]>
+  loadAirQuality(startDate: string, endDate: string, latitude: number, longitude: number): Promise<any[]>
+  getAirQuality(date: string): any
+  mergeAirQuality(weatherList: any[]): number
+  loadClimateNormals(latitude: number, longitude: number): Promise<any>
+  getClimateNormal(date: string): any
+  mergeClimateNormals(weatherList: any[]): number
   clearCache(): void
 }
 
@@ -1,8 +1,11 @@
 // 全局数据管理器 - 确保所有数据请求都通过缓存
 import { diaryService } from './diaryService'
 import { weatherService } from './weatherService'
+import { climatologyService, type ClimateNormals } from './climatologyService'
 import type { DiaryData } from '../types/diary'
-import type { WeatherData } from '../types/weather'
+import { AbortUtils } from '../utils/abortUtils'
+import { DiaryUtils } from '../utils/diaryUtils'
+import type { WeatherData, AirQualityData, ClimateNormal } from '../types/weather'
 import type { GlobalDataManagerInterface } from '../types/services'
 
 interface DateRange {
@@ -17,10 +20,22 @@ interface GlobalDataReadyEvent extends CustomEvent {
   }
 }
 
+interface AirQualityReadyEvent extends CustomEvent {
+  detail: {
+    airQuality: AirQualityData[]
+  }
+}
+
+interface ClimateReadyEvent extends CustomEvent {
+  detail: {
+    normals: ClimateNormals
+  }
+}
+
 interface DiaryUpdatedEvent extends CustomEvent {
   detail: {
     date: string
-    diary: DiaryData | null
+    diaries: DiaryData[]
   }
 }
 
@@ -34,46 +49,56 @@ declare global {
   interface WindowEventMap {
     'global:data:ready': GlobalDataReadyEvent
     'diary:updated': DiaryUpdatedEvent
+    'airquality:ready': AirQualityReadyEvent
+    'climate:ready': ClimateReadyEvent
   }
 }
 
 class GlobalDataManager implements GlobalDataManagerInterface {
   public isInitialized: boolean
   public currentDateRange: DateRange | null
+  private currentLocation: string | null
+  // 最近一次加载常年值的序号，用于丢弃过期的响应
+  private climateRequestId: number
   private dataCache: Map<string, any>
 
   constructor() {
     this.isInitialized = false
     this.currentDateRange = null
+    this.currentLocation = null
+    this.climateRequestId = 0
     this.dataCache = new Map()
   }
 
-  // 初始化并预加载数据
-  async initialize(startDate: string, endDate: string, latitude: number, longitude: number): Promise<void> {
+  // 初始化并预加载数据；signal 取消后不更新全局状态
+  async initialize(startDate: string, endDate: string, latitude: number, longitude: number, signal?: AbortSignal): Promise<void> {
+    const location = `${latitude},${longitude}`
     if (this.isInitialized && 
         this.currentDateRange && 
         this.currentDateRange.startDate === startDate && 
-        this.currentDateRange.endDate === endDate) {
+        this.currentDateRange.endDate === endDate &&
+        this.currentLocation === location) {
       return
     }
 
     try {
       // 并行加载天气和日记数据
       const [weatherData, diariesData] = await Promise.all([
-        weatherService.getWeatherForDateRange(latitude, longitude, startDate, endDate),
-        diaryService.getDiariesByDateRange(startDate, endDate)
+        weatherService.getWeatherForDateRange(latitude, longitude, startDate, endDate, false, signal),
+        AbortUtils.race(diaryService.getDiariesByDateRange(startDate, endDate), signal)
       ])
 
-      // 将日记数据映射到缓存中
+      // 将日记数据按条目 id 映射到缓存中（同一天可以有多条）
       const diariesMap = new Map<string, DiaryData>()
       diariesData.forEach(diary => {
         if (diary.date) {
-          diariesMap.set(diary.date, diary)
+          diariesMap.set(DiaryUtils.getEntryKey(diary), diary)
         }
       })
 
       // 更新全局状态
       this.currentDateRange = { startDate, endDate }
+      this.currentLocation = location
       this.dataCache.set('weather', weatherData)
       this.dataCache.set('diaries', diariesMap)
       this.isInitialized = true
@@ -88,16 +113,43 @@ class GlobalDataManager implements GlobalDataManagerInterface {
         detail: { weatherData, diariesData }
       }) as GlobalDataReadyEvent)
 
+      // 空气质量在后台加载，不阻塞天气和日记
+      this.loadAirQuality(startDate, endDate, latitude, longitude).catch((error) => {
+        console.warn('加载空气质量失败:', error)
+      })
+
+      // 常年值只与地点有关，首次计算需要请求多年数据，同样在后台进行
+      this.loadClimateNormals(latitude, longitude).catch((error) => {
+        console.warn('加载气候常年值失败:', error)
+      })
+
     } catch (error) {
+      if (AbortUtils.isAbortError(error)) throw error
       console.error('❌ 全局数据管理器：初始化失败', error)
       throw error
     }
   }
 
-  // 获取日记数据（优先从缓存）
-  getDiary(date: string): DiaryData | null {
+  // 获取某一天的所有日记条目（优先从缓存）
+  getDiaries(date: string): DiaryData[] {
     const diariesMap = this.dataCache.get('diaries') as Map<string, DiaryData>
-    return diariesMap ? diariesMap.get(date) || null : null
+    if (!diariesMap) return []
+    return DiaryUtils.sortEntries(Array.from(diariesMap.values()).filter(diary => diary.date === date))
+  }
+
+  // 用最新的条目列表替换某一天的日记缓存
+  setDiaries(date: string, diaries: DiaryData[]): void {
+    let diariesMap = this.dataCache.get('diaries') as Map<string, DiaryData> | undefined
+    if (!diariesMap) {
+      diariesMap = new Map<string, DiaryData>()
+      this.dataCache.set('diaries', diariesMap)
+    }
+    for (const [key, diary] of diariesMap.entries()) {
+      if (diary.date === date) {
+        diariesMap.delete(key)
+      }
+    }
+    diaries.forEach(diary => diariesMap.set(DiaryUtils.getEntryKey(diary), diary))
   }
 
   // 获取天气数据
@@ -105,26 +157,100 @@ class GlobalDataManager implements GlobalDataManagerInterface {
     return this.dataCache.get('weather') || []
   }
 
+  // 加载空气质量并按日期合并到天气列表
+  async loadAirQuality(startDate: string, endDate: string, latitude: number, longitude: number): Promise<AirQualityData[]> {
+    const locationKey = `${latitude},${longitude}`
+    let airQualityMap = this.dataCache.get('airQuality') as Map<string, AirQualityData> | undefined
+    // 位置变化后旧位置的空气质量不再适用
+    if (!airQualityMap || this.dataCache.get('airQualityLocation') !== locationKey) {
+      airQualityMap = new Map()
+      this.dataCache.set('airQuality', airQualityMap)
+      this.dataCache.set('airQualityLocation', locationKey)
+    }
+
+    const records = await weatherService.getAirQuality(latitude, longitude, startDate, endDate)
+    records.forEach(record => airQualityMap!.set(record.date, record))
+    this.mergeAirQuality(this.getWeatherList())
+
+    window.dispatchEvent(new CustomEvent('airquality:ready', {
+      detail: { airQuality: records }
+    }) as AirQualityReadyEvent)
+
+    return records
+  }
+
+  // 获取某天的空气质量
+  getAirQuality(date: string): AirQualityData | null {
+    const airQualityMap = this.dataCache.get('airQuality') as Map<string, AirQualityData> | undefined
+    return airQualityMap?.get(date) || null
+  }
+
+  // 将已加载的空气质量写入天气列表（原地更新），返回更新的条数
+  mergeAirQuality(weatherList: WeatherData[]): number {
+    let merged = 0
+    weatherList.forEach(weather => {
+      const airQuality = this.getAirQuality(weather.date)
+      if (airQuality && weather.airQuality !== airQuality) {
+        weather.airQuality = airQuality
+        merged++
+      }
+    })
+    return merged
+  }
+
+  // 加载当前地点的气候常年值并合并到天气列表
+  // 等待期间切换了地点或发起了更新的加载时，丢弃这次的结果
+  async loadClimateNormals(latitude: number, longitude: number): Promise<ClimateNormals> {
+    const location = `${latitude},${longitude}`
+    const requestId = ++this.climateRequestId
+    const normals = await climatologyService.getNormals(latitude, longitude)
+    if (requestId !== this.climateRequestId || this.currentLocation !== location) {
+      return normals
+    }
+
+    this.dataCache.set('climateNormals', normals)
+    this.dataCache.set('climateLocation', location)
+    this.mergeClimateNormals(this.getWeatherList())
+
+    window.dispatchEvent(new CustomEvent('climate:ready', {
+      detail: { normals }
+    }) as ClimateReadyEvent)
+
+    return normals
+  }
+
+  // 获取某天的常年值（只在常年值属于当前地点时返回）
+  getClimateNormal(date: string): ClimateNormal | null {
+    const normals = this.dataCache.get('climateNormals') as ClimateNormals | undefined
+    if (!normals || this.dataCache.get('climateLocation') !== this.currentLocation) return null
+    return climatologyService.getNormalForDate(normals, date)
+  }
+
+  // 将常年值写入天气列表（原地更新），返回更新的条数
+  mergeClimateNormals(weatherList: WeatherData[]): number {
+    let merged = 0
+    weatherList.forEach(weather => {
+      const normal = this.getClimateNormal(weather.date)
+      if (normal && weather.normal !== normal) {
+        weather.normal = normal
+        merged++
+      }
+    })
+    return merged
+  }
+
   // 刷新特定日期的数据
-  async refreshDate(date: string): Promise<DiaryData | null> {
+  async refreshDate(date: string): Promise<DiaryData[]> {
     try {
-      const diary = await diaryService.getDiaryByDate(date, true) // 强制刷新
-      
-      const diariesMap = this.dataCache.get('diaries') as Map<string, DiaryData>
-      if (diariesMap) {
-        if (diary) {
-          diariesMap.set(date, diary)
-        } else {
-          diariesMap.delete(date)
-        }
-      }
+      const diaries = await diaryService.getDiariesByDate(date, true) // 强制刷新
+      this.setDiaries(date, diaries)
 
       // 通知组件更新
       window.dispatchEvent(new CustomEvent('diary:updated', {
-        detail: { date, diary }
+        detail: { date, diaries }
       }) as DiaryUpdatedEvent)
 
-      return diary
+      return diaries
     } catch (error) {
       console.error(`刷新日期数据失败 (${date}):`, error)
       throw error
@@ -136,6 +262,7 @@ class GlobalDataManager implements GlobalDataManagerInterface {
     this.dataCache.clear()
     this.isInitialized = false
     this.currentDateRange = null
+    this.currentLocation = null
 
     // 清理全局引用
     delete window.__globalDataManager
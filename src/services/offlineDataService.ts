@@ -2,11 +2,15 @@
 import { WeatherData } from '../types/weather'
 import { DiaryData } from '../types/diary'
 import { cacheService } from './cacheService'
+import { DateUtils } from '../utils/dateUtils'
+import { DiaryUtils } from '../utils/diaryUtils'
+import { t } from '../i18n'
 
 export class OfflineDataService {
   private static instance: OfflineDataService
   private weatherCache = new Map<string, WeatherData>()
-  private diaryCache = new Map<string, DiaryData>()
+  // 日记按日期保存当天的所有条目
+  private diaryCache = new Map<string, DiaryData[]>()
   
   static getInstance(): OfflineDataService {
     if (!this.instance) {
@@ -36,9 +40,9 @@ export class OfflineDataService {
             }
           } else if (key.startsWith('diary_')) {
             const date = key.replace('diary_', '')
-            const data = JSON.parse(localStorage.getItem(key) || '{}')
-            if (data && data.date) {
-              this.diaryCache.set(date, data)
+            const entries = this.parseDiaryEntries(localStorage.getItem(key))
+            if (entries.length > 0) {
+              this.diaryCache.set(date, entries)
               diaryCount++
             }
           }
@@ -101,32 +105,31 @@ export class OfflineDataService {
     let cachedCount = 0
     let errorCount = 0
     
-    for (const diary of data) {
+    // 一天可以有多条日记，按日期整组缓存
+    for (const [date, entries] of DiaryUtils.groupByDate(data)) {
       try {
-        if (diary && diary.date) {
-          // 缓存到内存
-          this.diaryCache.set(diary.date, diary)
-          
-          // 同时存储到持久化缓存
-          const key = cacheService.generateKey('diary_by_date', { date: diary.date })
-          try {
-            await cacheService.set(key, diary, 24 * 60 * 60 * 1000) // 24小时
-          } catch (cacheError) {
-            console.warn('IndexedDB缓存失败，使用localStorage:', cacheError)
-          }
-          
-          // 兜底：总是存储到localStorage
-          try {
-            const localStorageKey = `diary_${diary.date}`
-            localStorage.setItem(localStorageKey, JSON.stringify(diary))
-          } catch (localError) {
-            console.warn('localStorage缓存失败:', localError)
-          }
-          
-          cachedCount++
+        // 缓存到内存
+        this.diaryCache.set(date, entries)
+        
+        // 同时存储到持久化缓存
+        const key = cacheService.generateKey('diaries_by_date', { date })
+        try {
+          await cacheService.set(key, entries, 24 * 60 * 60 * 1000) // 24小时
+        } catch (cacheError) {
+          console.warn('IndexedDB缓存失败，使用localStorage:', cacheError)
+        }
+        
+        // 兜底：总是存储到localStorage
+        try {
+          const localStorageKey = `diary_${date}`
+          localStorage.setItem(localStorageKey, JSON.stringify(entries))
+        } catch (localError) {
+          console.warn('localStorage缓存失败:', localError)
         }
+        
+        cachedCount++
       } catch (error) {
-        console.error('缓存日记数据失败:', diary?.date, error)
+        console.error('缓存日记数据失败:', date, error)
         errorCount++
       }
     }
@@ -187,37 +190,35 @@ export class OfflineDataService {
     
     dates.forEach(date => {
       // 先从内存缓存获取
-      let diary = this.diaryCache.get(date)
+      let entries = this.diaryCache.get(date)
       
       // 如果内存缓存没有，尝试从持久化缓存获取
-      if (!diary) {
-        const key = cacheService.generateKey('diary_by_date', { date })
-        diary = cacheService.get<DiaryData>(key) || undefined
-        if (diary) {
+      if (!entries) {
+        const key = cacheService.generateKey('diaries_by_date', { date })
+        entries = cacheService.get<DiaryData[]>(key) || undefined
+        if (entries) {
           // 重新加载到内存缓存
-          this.diaryCache.set(date, diary)
+          this.diaryCache.set(date, entries)
         }
       }
       
       // 如果还是没有，尝试从localStorage获取
-      if (!diary) {
+      if (!entries) {
         try {
           const localStorageKey = `diary_${date}`
-          const localData = localStorage.getItem(localStorageKey)
-          if (localData) {
-            diary = JSON.parse(localData)
+          const parsed = this.parseDiaryEntries(localStorage.getItem(localStorageKey))
+          if (parsed.length > 0) {
+            entries = parsed
             // 重新加载到内存缓存
-            if (diary) {
-              this.diaryCache.set(date, diary)
-            }
+            this.diaryCache.set(date, entries)
           }
         } catch (error) {
           console.warn('从localStorage恢复日记数据失败:', date, error)
         }
       }
       
-      if (diary) {
-        result.push(diary)
+      if (entries) {
+        result.push(...entries)
       }
     })
     
@@ -242,7 +243,7 @@ export class OfflineDataService {
       // 检查日记缓存
       if (!hasDiary) {
         const diaryInMemory = this.diaryCache.has(date)
-        const diaryKey = cacheService.generateKey('diary_by_date', { date })
+        const diaryKey = cacheService.generateKey('diaries_by_date', { date })
         const diaryInCache = cacheService.get(diaryKey) !== null
         hasDiary = diaryInMemory || diaryInCache
       }
@@ -271,25 +272,24 @@ export class OfflineDataService {
 
   // 生成占位天气数据
   private generatePlaceholderWeatherData(date: string): WeatherData {
-    const today = new Date().toISOString().slice(0, 10)
+    const today = DateUtils.today()
     const isPast = date < today
     const isToday = date === today
     
-    let description = '离线模式'
+    let description = t('placeholder.offline')
     if (isPast) {
-      description = '历史数据离线'
+      description = t('placeholder.offlinePast')
     } else if (isToday) {
-      description = '实时数据离线'
+      description = t('placeholder.offlineToday')
     } else {
-      description = '预报数据离线'
+      description = t('placeholder.offlineFuture')
     }
     
     return {
       date,
       temperature: { min: 0, max: 0, current: 0 },
-      humidity: 0,
       windSpeed: 0,
-      windDirection: '未知',
+      windDirection: t('weather.unknown'),
       precipitation: 0,
       cloudCover: 0,
       description,
@@ -321,6 +321,14 @@ export class OfflineDataService {
 
   }
 
+  // 解析 localStorage 中的日记：旧版本每天只存一条对象，新版本存当天的条目数组
+  private parseDiaryEntries(raw: string | null): DiaryData[] {
+    if (!raw) return []
+    const data = JSON.parse(raw)
+    const entries: DiaryData[] = Array.isArray(data) ? data : [data]
+    return entries.filter(diary => diary && diary.date)
+  }
+
   // 获取缓存统计信息
   getCacheStats(): { weatherCount: number; diaryCount: number } {
     return {
@@ -0,0 +1,27 @@
+// Open-Meteo 天气数据源（在线）
+import { WeatherApiService } from './weatherApi'
+import type { WeatherData, HourlyWeather, WeatherProvider } from '../types/weather'
+
+export class OpenMeteoWeatherProvider implements WeatherProvider {
+  readonly id = 'open-meteo'
+  readonly name = 'Open-Meteo 免费API'
+  readonly requiresNetwork = true
+
+  getDailyRange(latitude: number, longitude: number, startDate: string, endDate: string, timeZone?: string, signal?: AbortSignal): Promise<WeatherData[]> {
+    return WeatherApiService.getHistoricalWeather(latitude, longitude, startDate, endDate, timeZone, signal)
+  }
+
+  getCurrent(latitude: number, longitude: number, signal?: AbortSignal): Promise<Partial<WeatherData> | null> {
+    return WeatherApiService.getCurrentWeather(latitude, longitude, undefined, signal)
+  }
+
+  getForecast(latitude: number, longitude: number, days: number, signal?: AbortSignal): Promise<WeatherData[]> {
+    return WeatherApiService.getRecentWeather(latitude, longitude, days, undefined, signal)
+  }
+
+  getHourly(latitude: number, longitude: number, date: string, signal?: AbortSignal): Promise<HourlyWeather[]> {
+    return WeatherApiService.getHourlyWeather(latitude, longitude, date, undefined, signal)
+  }
+}
+
+export const openMeteoProvider = new OpenMeteoWeatherProvider()
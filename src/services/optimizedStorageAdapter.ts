@@ -1,6 +1,8 @@
 import { isSupabaseEnabled } from '../config/supabase'
 import { diaryService } from './diaryService'
 import { WeatherDiary } from '../config/supabase'
+import { TagUtils } from '../utils/tagUtils'
+import { SearchUtils } from '../utils/searchUtils'
 
 /**
  * 优化版存储适配器
@@ -9,15 +11,32 @@ import { WeatherDiary } from '../config/supabase'
 export class OptimizedStorageAdapter {
   
   /**
-   * 获取单个日记
+   * 读取本地存储中某一天的条目（旧版本每天一个对象，新版本为条目数组）
+   */
+  private static readLocalEntries(key: string): WeatherDiary[] {
+    const stored = localStorage.getItem(key)
+    if (!stored) return []
+    const parsed = JSON.parse(stored)
+    return Array.isArray(parsed) ? parsed : [parsed]
+  }
+
+  /**
+   * 读取本地存储中某一天最晚的一条
+   */
+  private static readLocalLatest(date: string): WeatherDiary | null {
+    const entries = this.readLocalEntries(`diary_${date}`)
+    return entries.length > 0 ? entries[entries.length - 1] : null
+  }
+
+  /**
+   * 获取单个日记（一天有多条时返回最晚的一条）
    */
   static async getDiary(date: string): Promise<WeatherDiary | null> {
     if (isSupabaseEnabled) {
       return await diaryService.getDiaryByDate(date)
     } else {
       // 本地存储fallback
-      const stored = localStorage.getItem(`diary_${date}`)
-      return stored ? JSON.parse(stored) : null
+      return this.readLocalLatest(date)
     }
   }
 
@@ -39,9 +58,9 @@ export class OptimizedStorageAdapter {
       // 本地存储fallback
       const diariesMap: Record<string, WeatherDiary> = {}
       dates.forEach(date => {
-        const stored = localStorage.getItem(`diary_${date}`)
-        if (stored) {
-          diariesMap[date] = JSON.parse(stored)
+        const diary = this.readLocalLatest(date)
+        if (diary) {
+          diariesMap[date] = diary
         }
       })
       return diariesMap
@@ -70,9 +89,9 @@ export class OptimizedStorageAdapter {
       
       for (let day = 1; day <= daysInMonth; day++) {
         const date = `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`
-        const stored = localStorage.getItem(`diary_${date}`)
-        if (stored) {
-          diariesMap[date] = JSON.parse(stored)
+        const diary = this.readLocalLatest(date)
+        if (diary) {
+          diariesMap[date] = diary
         }
       }
       
@@ -97,17 +116,19 @@ export class OptimizedStorageAdapter {
         updated_at: new Date().toISOString()
       }
       
-      localStorage.setItem(`diary_${diary.date}`, JSON.stringify(diaryData))
+      // 同一天可以有多条，追加到当天的条目数组
+      const entries = this.readLocalEntries(`diary_${diary.date}`)
+      localStorage.setItem(`diary_${diary.date}`, JSON.stringify([...entries, diaryData]))
       return diaryData
     }
   }
 
   /**
-   * 删除日记
+   * 删除某一天的所有日记
    */
   static async deleteDiary(date: string): Promise<boolean> {
     if (isSupabaseEnabled) {
-      return await diaryService.deleteDiary(date)
+      return await diaryService.deleteDiaryByDate(date)
     } else {
       localStorage.removeItem(`diary_${date}`)
       return true
@@ -119,12 +140,7 @@ export class OptimizedStorageAdapter {
    */
   static async searchDiaries(keyword: string, limit: number = 20): Promise<WeatherDiary[]> {
     if (isSupabaseEnabled) {
-      const allDiaries = await diaryService.getDiaries(1000)
-      return allDiaries.filter(diary => 
-        diary.content?.includes(keyword) || 
-        diary.city?.includes(keyword) || 
-        diary.mood?.includes(keyword)
-      ).slice(0, limit)
+      return await diaryService.searchDiaries({ keyword, limit })
     } else {
       // 本地存储搜索
       const results: WeatherDiary[] = []
@@ -133,14 +149,11 @@ export class OptimizedStorageAdapter {
       for (const key of keys) {
         if (results.length >= limit) break
         
-        const stored = localStorage.getItem(key)
-        if (stored) {
-          const diary = JSON.parse(stored)
-          const searchText = `${diary.content || ''} ${diary.city || ''} ${diary.mood || ''}`.toLowerCase()
-          if (searchText.includes(keyword.toLowerCase())) {
+        this.readLocalEntries(key).forEach(diary => {
+          if (SearchUtils.matches(diary, { keyword })) {
             results.push(diary)
           }
-        }
+        })
       }
       
       return results.sort((a, b) => (b.date || '').localeCompare(a.date || ''))
@@ -159,6 +172,7 @@ export class OptimizedStorageAdapter {
         totalVideos: 0,
         moodStats: {} as Record<string, number>,
         cityStats: {} as Record<string, number>,
+        tagStats: {} as Record<string, number>,
         monthlyStats: {} as Record<string, number>
       }
       
@@ -172,6 +186,7 @@ export class OptimizedStorageAdapter {
           stats.monthlyStats[month] = (stats.monthlyStats[month] || 0) + 1
         }
       })
+      stats.tagStats = TagUtils.tagStats(allDiaries)
       
       return stats
     } else {
@@ -182,35 +197,35 @@ export class OptimizedStorageAdapter {
         totalVideos: 0,
         moodStats: {} as Record<string, number>,
         cityStats: {} as Record<string, number>,
+        tagStats: {} as Record<string, number>,
         monthlyStats: {} as Record<string, number>
       }
 
-      const keys = Object.keys(localStorage).filter(key => key.startsWith('diary_'))
-      
-      keys.forEach(key => {
-        const stored = localStorage.getItem(key)
-        if (stored) {
-          const diary = JSON.parse(stored)
-          stats.totalDiaries++
-          
-          if (diary.images) {
-            stats.totalImages += diary.images.length
-          }
-          if (diary.videos) {
-            stats.totalVideos += diary.videos.length
-          }
-          if (diary.mood) {
-            stats.moodStats[diary.mood] = (stats.moodStats[diary.mood] || 0) + 1
-          }
-          if (diary.city) {
-            stats.cityStats[diary.city] = (stats.cityStats[diary.city] || 0) + 1
-          }
-          if (diary.date) {
-            const month = diary.date.substring(0, 7)
-            stats.monthlyStats[month] = (stats.monthlyStats[month] || 0) + 1
-          }
+      const entries = Object.keys(localStorage)
+        .filter(key => key.startsWith('diary_'))
+        .flatMap(key => this.readLocalEntries(key))
+
+      entries.forEach(diary => {
+        stats.totalDiaries++
+
+        if (diary.images) {
+          stats.totalImages += diary.images.length
+        }
+        if (diary.videos) {
+          stats.totalVideos += diary.videos.length
+        }
+        if (diary.mood) {
+          stats.moodStats[diary.mood] = (stats.moodStats[diary.mood] || 0) + 1
+        }
+        if (diary.city) {
+          stats.cityStats[diary.city] = (stats.cityStats[diary.city] || 0) + 1
+        }
+        if (diary.date) {
+          const month = diary.date.substring(0, 7)
+          stats.monthlyStats[month] = (stats.monthlyStats[month] || 0) + 1
         }
       })
+      stats.tagStats = TagUtils.tagStats(entries)
 
       return stats
     }
@@ -227,7 +242,7 @@ export class OptimizedStorageAdapter {
   static async deleteDiaries(dates: string[]): Promise<boolean> {
     if (isSupabaseEnabled) {
       for (const date of dates) {
-        await diaryService.deleteDiary(date)
+        await diaryService.deleteDiaryByDate(date)
       }
       return true
     } else {
@@ -249,13 +264,11 @@ export class OptimizedStorageAdapter {
       const keys = Object.keys(localStorage).filter(key => key.startsWith('diary_'))
       
       keys.forEach(key => {
-        const stored = localStorage.getItem(key)
-        if (stored) {
-          const diary = JSON.parse(stored)
+        this.readLocalEntries(key).forEach(diary => {
           if (diary.date >= startDate && diary.date <= endDate) {
             results.push(diary)
           }
-        }
+        })
       })
       
       return results.sort((a, b) => (a.date || '').localeCompare(b.date || ''))
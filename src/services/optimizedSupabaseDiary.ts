@@ -1,4 +1,5 @@
 import { supabase, WeatherDiary } from '../config/supabase'
+import { TagUtils } from '../utils/tagUtils'
 import { SupabaseStorageService } from './supabaseStorage'
 
 /**
@@ -8,7 +9,7 @@ import { SupabaseStorageService } from './supabaseStorage'
 export class OptimizedSupabaseDiaryService {
   
   /**
-   * 获取指定日期的日记
+   * 获取指定日期最晚的一条日记（一天可以有多条）
    */
   static async getDiary(date: string): Promise<WeatherDiary | null> {
     try {
@@ -20,6 +21,9 @@ export class OptimizedSupabaseDiaryService {
         .from('weather_diaries')
         .select('*')
         .eq('date', date)
+        .order('entry_time', { ascending: false, nullsFirst: false })
+        .order('created_at', { ascending: false })
+        .limit(1)
         .maybeSingle()
 
       if (error) {
@@ -88,6 +92,8 @@ export class OptimizedSupabaseDiaryService {
         .gte('date', startDate)
         .lte('date', endDate)
         .order('date', { ascending: true })
+        .order('entry_time', { ascending: true, nullsFirst: true })
+        .order('created_at', { ascending: true })
 
       if (error) {
         console.error('获取日记范围失败:', error)
@@ -112,7 +118,7 @@ export class OptimizedSupabaseDiaryService {
         throw new Error('Supabase未配置')
       }
 
-      // 检查是否已存在
+      // 检查是否已存在（按日期保存时修改当天最晚的一条）
       const existing = await this.getDiary(diary.date)
       
       if (existing) {
@@ -125,9 +131,10 @@ export class OptimizedSupabaseDiaryService {
             mood: diary.mood,
             city: diary.city,
             images: diary.images,
-            videos: diary.videos
+            videos: diary.videos,
+            tags: diary.tags || []
           })
-          .eq('date', diary.date)
+          .eq('id', existing.id)
           .select()
           .single()
 
@@ -167,22 +174,24 @@ export class OptimizedSupabaseDiaryService {
         throw new Error('Supabase未配置')
       }
 
-      // 先获取日记以删除相关文件
-      const diary = await this.getDiary(date)
+      // 先获取当天所有条目的文件，一并删除
+      const { data: diaries } = await supabase
+        .from('weather_diaries')
+        .select('images, videos')
+        .eq('date', date)
       
-      if (diary) {
-        // 删除相关文件
-        const filesToDelete: string[] = []
+      const filesToDelete: string[] = []
+      diaries?.forEach(diary => {
         if (diary.images) {
           filesToDelete.push(...diary.images)
         }
         if (diary.videos) {
           filesToDelete.push(...diary.videos)
         }
-        
-        if (filesToDelete.length > 0) {
-          await SupabaseStorageService.deleteFiles(filesToDelete)
-        }
+      })
+      
+      if (filesToDelete.length > 0) {
+        await SupabaseStorageService.deleteFiles(filesToDelete)
       }
 
       // 删除数据库记录
@@ -230,7 +239,7 @@ export class OptimizedSupabaseDiaryService {
   }
 
   /**
-   * 搜索日记内容 - 优化版本
+   * 搜索日记内容 - 优化版本（服务端 search_weather_diaries，关键词作为参数传入，不拼进过滤条件）
    */
   static async searchDiaries(keyword: string, limit: number = 20): Promise<WeatherDiary[]> {
     try {
@@ -239,11 +248,7 @@ export class OptimizedSupabaseDiaryService {
       }
 
       const { data, error } = await supabase
-        .from('weather_diaries')
-        .select('*')
-        .or(`content.ilike.%${keyword}%,city.ilike.%${keyword}%,mood.ilike.%${keyword}%`)
-        .order('date', { ascending: false })
-        .limit(limit)
+        .rpc('search_weather_diaries', { p_query: keyword, p_limit: limit })
 
       if (error) {
         console.error('搜索日记失败:', error)
@@ -268,7 +273,7 @@ export class OptimizedSupabaseDiaryService {
 
       const { data, error } = await supabase
         .from('weather_diaries')
-        .select('mood, city, date, images, videos')
+        .select('mood, city, date, images, videos, tags')
 
       if (error) {
         console.error('获取统计信息失败:', error)
@@ -281,6 +286,7 @@ export class OptimizedSupabaseDiaryService {
         totalVideos: 0,
         moodStats: {} as Record<string, number>,
         cityStats: {} as Record<string, number>,
+        tagStats: {} as Record<string, number>,
         monthlyStats: {} as Record<string, number>
       }
 
@@ -309,6 +315,8 @@ export class OptimizedSupabaseDiaryService {
           stats.monthlyStats[month] = (stats.monthlyStats[month] || 0) + 1
         }
       })
+      // 标签统计（不区分大小写，与标签筛选一致）
+      stats.tagStats = TagUtils.tagStats(data || [])
 
       return stats
     } catch (error) {
@@ -319,6 +327,7 @@ export class OptimizedSupabaseDiaryService {
         totalVideos: 0,
         moodStats: {},
         cityStats: {},
+        tagStats: {},
         monthlyStats: {}
       }
     }
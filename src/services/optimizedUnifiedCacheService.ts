@@ -2,11 +2,15 @@
 import { weatherService } from './weatherService'
 import { diaryService } from './diaryService'
 import { enhancedOfflineCacheService } from './enhancedOfflineCacheService'
+import { placeholderBackfillService } from './placeholderBackfillService'
 import { requestDeduplicator } from './requestDeduplicator'
 import { dateRangeManager } from './dateRangeManager'
 import type { WeatherData } from '../types/weather'
 import type { DiaryData } from '../types/diary'
+import { DiaryUtils } from '../utils/diaryUtils'
 import type { InitializeDataResult } from '../types/services'
+import { DateUtils } from '../utils/dateUtils'
+import { AbortUtils } from '../utils/abortUtils'
 
 interface OptimizedCacheStats {
   isInitialized: boolean
@@ -48,12 +52,14 @@ class OptimizedUnifiedCacheService {
   }
 
   // 优化的数据初始化 - 缓存优先策略
+  // signal 取消后（被新的日期范围或地点取代）不再通知组件，也不启动后台更新，以 AbortError 结束
   async initializeDataOptimized(
     startDate: string, 
     endDate: string, 
     latitude: number, 
     longitude: number, 
-    forceRefresh: boolean = false
+    forceRefresh: boolean = false,
+    signal?: AbortSignal
   ): Promise<InitializeDataResult> {
     const cacheKey = `optimized_init_${startDate}_${endDate}_${latitude}_${longitude}`
 
@@ -63,11 +69,12 @@ class OptimizedUnifiedCacheService {
     // 使用请求去重机制
     return await requestDeduplicator.executeRequest(
       cacheKey,
-      () => this._performOptimizedInitialization(startDate, endDate, latitude, longitude, forceRefresh),
+      (sharedSignal) => this._performOptimizedInitialization(startDate, endDate, latitude, longitude, forceRefresh, sharedSignal),
       { 
         forceRefresh,
         timeout: 30000,
-        maxRetries: 2
+        maxRetries: 2,
+        signal
       }
     )
   }
@@ -78,7 +85,8 @@ class OptimizedUnifiedCacheService {
     endDate: string, 
     latitude: number, 
     longitude: number, 
-    forceRefresh: boolean
+    forceRefresh: boolean,
+    signal?: AbortSignal
   ): Promise<InitializeDataResult> {
     try {
       const isOnline = navigator.onLine
@@ -88,14 +96,14 @@ class OptimizedUnifiedCacheService {
         startDate, 
         endDate,
         // 在线加载器 - 只有在线且不强制刷新时才提供
-        isOnline && !forceRefresh ? undefined : () => this.loadWeatherDataOnline(latitude, longitude, startDate, endDate, forceRefresh)
+        isOnline && !forceRefresh ? undefined : () => this.loadWeatherDataOnline(latitude, longitude, startDate, endDate, forceRefresh, signal)
       )
 
       const diaryDataPromise = enhancedOfflineCacheService.getDiaryDataCacheFirst(
         startDate,
         endDate,
         // 在线加载器 - 只有在线且不强制刷新时才提供
-        isOnline && !forceRefresh ? undefined : () => this.loadDiaryDataOnline(startDate, endDate)
+        isOnline && !forceRefresh ? undefined : () => this.loadDiaryDataOnline(startDate, endDate, signal)
       )
 
       // 并行获取缓存数据
@@ -103,9 +111,20 @@ class OptimizedUnifiedCacheService {
         weatherDataPromise,
         diaryDataPromise
       ])
+      AbortUtils.throwIfAborted(signal)
 
       // 离线模式特殊处理：如果离线且有数据（包括占位数据），立即返回
       if (!isOnline) {
+        // 不依赖网络的数据源（如离线样例数据）仍可补齐天气
+        if (!weatherService.getProvider().requiresNetwork) {
+          const offlineWeatherData = await this.loadWeatherDataOnline(latitude, longitude, startDate, endDate, forceRefresh, signal)
+          AbortUtils.throwIfAborted(signal)
+          return this.finalizeInitialization(
+            this.mergeWeatherData(weatherData, offlineWeatherData),
+            diariesData,
+            `${startDate}_${endDate}`
+          )
+        }
         return this.finalizeInitialization(weatherData, diariesData, `${startDate}_${endDate}`)
       }
 
@@ -113,9 +132,10 @@ class OptimizedUnifiedCacheService {
       if (forceRefresh || (isOnline && this.shouldLoadOnlineData(weatherData, diariesData))) {
         try {
           const [onlineWeatherData, onlineDiariesData] = await Promise.all([
-            this.loadWeatherDataOnline(latitude, longitude, startDate, endDate, true),
-            this.loadDiaryDataOnline(startDate, endDate)
+            this.loadWeatherDataOnline(latitude, longitude, startDate, endDate, true, signal),
+            this.loadDiaryDataOnline(startDate, endDate, signal)
           ])
+          AbortUtils.throwIfAborted(signal)
 
           // 批量缓存新数据
           enhancedOfflineCacheService.batchCacheWeatherData(onlineWeatherData)
@@ -130,6 +150,7 @@ class OptimizedUnifiedCacheService {
 
           return this.finalizeInitialization(mergedWeatherData, mergedDiariesData, `${startDate}_${endDate}`)
         } catch (onlineError) {
+          if (AbortUtils.isAbortError(onlineError)) throw onlineError
           console.warn('⚠️ 在线数据加载失败，使用缓存数据:', onlineError)
           return this.finalizeInitialization(weatherData, diariesData, `${startDate}_${endDate}`)
         }
@@ -137,18 +158,20 @@ class OptimizedUnifiedCacheService {
 
       // 第三步：如果在线且不强制刷新，启动后台更新
       if (isOnline && !forceRefresh) {
-        this.updateDataInBackground(startDate, endDate, latitude, longitude)
+        this.updateDataInBackground(startDate, endDate, latitude, longitude, signal)
       }
 
       return this.finalizeInitialization(weatherData, diariesData, `${startDate}_${endDate}`)
 
     } catch (error) {
+      if (AbortUtils.isAbortError(error)) throw error
       console.error('❌ 优化初始化失败:', error)
       
       // 最后的兜底：尝试从增强缓存获取任何可用数据
       try {
         const fallbackWeatherData = await enhancedOfflineCacheService.getWeatherDataCacheFirst(startDate, endDate)
         const fallbackDiariesData = await enhancedOfflineCacheService.getDiaryDataCacheFirst(startDate, endDate)
+        AbortUtils.throwIfAborted(signal)
         
         return this.finalizeInitialization(fallbackWeatherData, fallbackDiariesData, `${startDate}_${endDate}`)
       } catch (fallbackError) {
@@ -173,13 +196,14 @@ class OptimizedUnifiedCacheService {
     longitude: number, 
     startDate: string, 
     endDate: string, 
-    forceRefresh: boolean = false
+    forceRefresh: boolean = false,
+    signal?: AbortSignal
   ): Promise<WeatherData[]> {
     const weatherKey = `online_weather_${latitude}_${longitude}_${startDate}_${endDate}`
     
     return await requestDeduplicator.executeRequest(
       weatherKey,
-      async () => {
+      async (sharedSignal) => {
 
         
         // 使用优化的天气API
@@ -188,16 +212,17 @@ class OptimizedUnifiedCacheService {
           longitude,
           startDate,
           endDate,
-          forceRefresh
+          forceRefresh,
+          sharedSignal
         )
 
         // 补充当前天气信息
-        const today = new Date().toISOString().slice(0, 10)
+        const today = DateUtils.today()
         const todayWeather = weatherData.find(w => w.date === today)
 
         if (todayWeather) {
           try {
-            const currentWeather = await weatherService.getCurrentWeather(latitude, longitude, forceRefresh)
+            const currentWeather = await weatherService.getCurrentWeather(latitude, longitude, forceRefresh, sharedSignal)
             if (currentWeather?.temperature?.current !== undefined) {
               Object.assign(todayWeather, {
                 temperature: {
@@ -206,23 +231,26 @@ class OptimizedUnifiedCacheService {
                 },
                 windSpeed: currentWeather.windSpeed ?? todayWeather.windSpeed,
                 windDirection: currentWeather.windDirection ?? todayWeather.windDirection,
+                windDirectionDegrees: currentWeather.windDirectionDegrees ?? todayWeather.windDirectionDegrees,
                 description: currentWeather.description ?? todayWeather.description,
-                icon: currentWeather.icon ?? todayWeather.icon
+                icon: currentWeather.icon ?? todayWeather.icon,
+                weatherCode: currentWeather.weatherCode ?? todayWeather.weatherCode
               })
             }
           } catch (error) {
+            if (AbortUtils.isAbortError(error)) throw error
             console.warn('获取当前天气补充信息失败:', error)
           }
         }
 
         return weatherData
       },
-      { forceRefresh, timeout: 25000, maxRetries: 2 }
+      { forceRefresh, timeout: 25000, maxRetries: 2, signal }
     )
   }
 
   // 加载在线日记数据
-  private async loadDiaryDataOnline(startDate: string, endDate: string): Promise<DiaryData[]> {
+  private async loadDiaryDataOnline(startDate: string, endDate: string, signal?: AbortSignal): Promise<DiaryData[]> {
     const diaryKey = `online_diary_${startDate}_${endDate}`
     
     return await requestDeduplicator.executeRequest(
@@ -231,7 +259,7 @@ class OptimizedUnifiedCacheService {
 
         return await diaryService.getDiariesByDateRange(startDate, endDate)
       },
-      { forceRefresh: false, timeout: 15000, maxRetries: 2 }
+      { forceRefresh: false, timeout: 15000, maxRetries: 2, signal }
     )
   }
 
@@ -264,21 +292,21 @@ class OptimizedUnifiedCacheService {
     return Array.from(merged.values()).sort((a, b) => a.date.localeCompare(b.date))
   }
 
-  // 合并日记数据（在线数据优先）
+  // 合并日记数据（按条目 id，在线数据优先）
   private mergeDiaryData(cachedData: DiaryData[], onlineData: DiaryData[]): DiaryData[] {
     const merged = new Map<string, DiaryData>()
     
     // 先添加缓存数据
     cachedData.forEach(diary => {
-      merged.set(diary.date, diary)
+      merged.set(DiaryUtils.getEntryKey(diary), diary)
     })
     
     // 在线数据覆盖缓存数据
     onlineData.forEach(diary => {
-      merged.set(diary.date, diary)
+      merged.set(DiaryUtils.getEntryKey(diary), diary)
     })
     
-    return Array.from(merged.values()).sort((a, b) => a.date.localeCompare(b.date))
+    return DiaryUtils.sortEntries(Array.from(merged.values()))
   }
 
   // 完成初始化
@@ -308,19 +336,21 @@ class OptimizedUnifiedCacheService {
     startDate: string, 
     endDate: string, 
     latitude: number, 
-    longitude: number
+    longitude: number,
+    signal?: AbortSignal
   ): Promise<void> {
     const backgroundKey = `background_update_${startDate}_${endDate}_${latitude}_${longitude}`
     
     try {
       await requestDeduplicator.executeRequest(
         backgroundKey,
-        async () => {
+        async (sharedSignal) => {
           // 后台加载最新数据
           const [newWeatherData, newDiariesData] = await Promise.all([
-            this.loadWeatherDataOnline(latitude, longitude, startDate, endDate, true),
-            this.loadDiaryDataOnline(startDate, endDate)
+            this.loadWeatherDataOnline(latitude, longitude, startDate, endDate, true, sharedSignal),
+            this.loadDiaryDataOnline(startDate, endDate, sharedSignal)
           ])
+          AbortUtils.throwIfAborted(sharedSignal)
           
           // 批量缓存新数据
           enhancedOfflineCacheService.batchCacheWeatherData(newWeatherData)
@@ -340,15 +370,19 @@ class OptimizedUnifiedCacheService {
           
           return { weatherData: newWeatherData, diariesData: newDiariesData }
         },
-        { forceRefresh: false, timeout: 30000, maxRetries: 1 }
+        { forceRefresh: false, timeout: 30000, maxRetries: 1, signal }
       )
     } catch (error) {
+      if (AbortUtils.isAbortError(error)) return
       console.warn('⚠️ 后台更新失败:', error)
     }
   }
 
   // 处理网络重新连接
   private async handleNetworkOnline(): Promise<void> {
+    // 网络恢复后立即重试仍是占位数据的日期
+    placeholderBackfillService.retryNow()
+
     if (!this.isInitialized || !this.currentDateRange) return
     
     // 解析当前日期范围
@@ -372,8 +406,8 @@ class OptimizedUnifiedCacheService {
     // 增量更新天气缓存，保留现有数据
     weatherData.forEach(weather => existingWeatherCache.set(weather.date, weather))
     
-    // 增量更新日记缓存，保留现有数据
-    diariesData.forEach(diary => existingDiaryCache.set(diary.date, diary))
+    // 增量更新日记缓存（按条目 id），保留现有数据
+    diariesData.forEach(diary => existingDiaryCache.set(DiaryUtils.getEntryKey(diary), diary))
     
     // 更新全局引用
     window.__unifiedCacheService = this
@@ -446,59 +480,71 @@ class OptimizedUnifiedCacheService {
     return window.__weatherList || []
   }
 
-  // 获取日记数据
-  getDiaryData(date?: string): DiaryData | DiaryData[] | null {
-    if (date) {
-      // 从全局缓存获取单个日期的日记数据
-      const diaryCache = window.__diaryCache
-      if (diaryCache && diaryCache.has(date)) {
-        return diaryCache.get(date) || null
-      }
-      return null
-    }
-    // 返回所有日记数据（从全局缓存获取）
-    const diaryCache = window.__diaryCache
-    return diaryCache ? Array.from(diaryCache.values()) : []
+  // 获取日记数据：指定日期时返回当天所有条目（按时间排序），否则返回全部条目
+  getDiaryData(date?: string): DiaryData[] {
+    const diaryCache: Map<string, DiaryData> | undefined = window.__diaryCache
+    if (!diaryCache) return []
+    const diaries = Array.from(diaryCache.values())
+    return DiaryUtils.sortEntries(date ? diaries.filter(diary => diary.date === date) : diaries)
   }
 
-  // 设置日记数据（可选择是否触发更新事件）
-  setDiaryData(date: string, diary: DiaryData | null, notifyUpdate: boolean = false): void {
+  // 用最新的条目列表替换某一天的日记（可选择是否触发更新事件）
+  setDiaryData(date: string, diaries: DiaryData[], notifyUpdate: boolean = false): void {
     // 确保全局日记缓存存在
     if (!window.__diaryCache) {
       window.__diaryCache = new Map<string, DiaryData>()
     }
     
-    const diaryCache = window.__diaryCache
-    if (diary) {
-      diaryCache.set(date, diary)
-      // 同步更新 enhancedOfflineCacheService 的缓存（包括内存和 localStorage）
-      enhancedOfflineCacheService.cacheDiaryData(date, diary)
-    } else {
-      diaryCache.delete(date)
+    const diaryCache: Map<string, DiaryData> = window.__diaryCache
+    for (const [key, diary] of diaryCache.entries()) {
+      if (diary.date === date) {
+        diaryCache.delete(key)
+      }
     }
+    diaries.forEach(diary => diaryCache.set(DiaryUtils.getEntryKey(diary), diary))
+    // 同步更新 enhancedOfflineCacheService 的缓存（包括内存和 localStorage）
+    enhancedOfflineCacheService.replaceDiaryDataForDate(date, diaries)
     
     // 如果需要通知组件更新
     if (notifyUpdate) {
-      window.dispatchEvent(new CustomEvent('diary:updated', {
-        detail: { date, diary }
-      }))
+      this.notifyDiaryUpdated(date)
     }
   }
 
+  // 新增或修改单条日记并通知组件
+  setDiaryEntry(diary: DiaryData): void {
+    if (!window.__diaryCache) {
+      window.__diaryCache = new Map<string, DiaryData>()
+    }
+    window.__diaryCache.set(DiaryUtils.getEntryKey(diary), diary)
+    enhancedOfflineCacheService.cacheDiaryData(diary)
+    this.notifyDiaryUpdated(diary.date)
+  }
+
+  // 删除单条日记并通知组件
+  removeDiaryEntry(diary: DiaryData): void {
+    const key = DiaryUtils.getEntryKey(diary)
+    window.__diaryCache?.delete(key)
+    enhancedOfflineCacheService.removeDiaryData(key)
+    this.notifyDiaryUpdated(diary.date)
+  }
+
+  // 通知组件某一天的日记已变化，事件中带上当天的全部条目
+  private notifyDiaryUpdated(date: string): void {
+    window.dispatchEvent(new CustomEvent('diary:updated', {
+      detail: { date, diaries: this.getDiaryData(date) }
+    }))
+  }
+
   // 刷新特定日期的日记数据
-  async refreshDiaryData(date: string): Promise<DiaryData | null> {
+  async refreshDiaryData(date: string): Promise<DiaryData[]> {
     try {
-      const diary = await diaryService.getDiaryByDate(date, true) // 强制刷新
-
-      // 更新全局缓存
-      this.setDiaryData(date, diary)
+      const diaries = await diaryService.getDiariesByDate(date, true) // 强制刷新
 
-      // 通知组件更新
-      window.dispatchEvent(new CustomEvent('diary:updated', {
-        detail: { date, diary }
-      }))
+      // 更新全局缓存并通知组件
+      this.setDiaryData(date, diaries, true)
 
-      return diary
+      return diaries
     } catch (error) {
       console.error(`刷新日记数据失败 (${date}):`, error)
       throw error
@@ -0,0 +1,300 @@
+// 占位数据补齐：记录各地点仍是占位数据的日期，联网时按退避间隔只重新获取这些日期，成功后通知界面原地替换
+import { reactive } from 'vue'
+import { weatherService } from './weatherService'
+import type { WeatherData } from '../types/weather'
+import { DateUtils } from '../utils/dateUtils'
+import { AbortUtils } from '../utils/abortUtils'
+
+interface PendingDate {
+  attempts: number
+  nextRetryAt: number
+  // 首次记录的时间，超过 MAX_PENDING_AGE 后放弃
+  createdAt: number
+}
+
+interface PendingLocation {
+  latitude: number
+  longitude: number
+  timeZone: string
+  dates: Record<string, PendingDate>
+}
+
+export interface BackfillPatchedDetail {
+  latitude: number
+  longitude: number
+  weatherData: WeatherData[]
+}
+
+declare global {
+  interface WindowEventMap {
+    'weather:backfill:patched': CustomEvent<BackfillPatchedDetail>
+  }
+}
+
+const STORAGE_KEY = 'weather_backfill_pending'
+// 退避：30秒起每次翻倍，最长1小时；自动重试次数用尽或记录过久的日期直接移除，
+// 本次会话内不再自动记录，联网、刷新页面或在卡片上手动重试时重新尝试
+const BASE_RETRY_DELAY = 30 * 1000
+const MAX_RETRY_DELAY = 60 * 60 * 1000
+const MAX_AUTO_ATTEMPTS = 8
+const MAX_PENDING_AGE = 7 * 24 * 60 * 60 * 1000
+// 预报只覆盖未来16天，更远的日期本来就没有数据，不需要补齐
+const MAX_FORECAST_DAYS = 16
+
+// 正在重试的日期（供卡片显示加载状态），键为 `${地点}|${日期}`
+export const backfillState = reactive<{ retrying: Record<string, boolean> }>({ retrying: {} })
+
+function locationKey(latitude: number, longitude: number): string {
+  return `${latitude.toFixed(4)},${longitude.toFixed(4)}`
+}
+
+function backoffDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY * Math.pow(2, Math.max(0, attempts - 1)), MAX_RETRY_DELAY)
+}
+
+// 连续日期合并为区间，减少请求次数
+function groupConsecutive(dates: string[]): { start: string; end: string }[] {
+  const ranges: { start: string; end: string }[] = []
+  dates.slice().sort().forEach((date) => {
+    const last = ranges[ranges.length - 1]
+    if (last && DateUtils.addDays(last.end, 1) === date) {
+      last.end = date
+    } else {
+      ranges.push({ start: date, end: date })
+    }
+  })
+  return ranges
+}
+
+class PlaceholderBackfillService {
+  private pending: Record<string, PendingLocation> = this.load()
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private running = false
+  // 本次会话中已放弃的日期（`${地点}|${日期}`），不持久化
+  private abandoned = new Set<string>()
+
+  constructor() {
+    if (this.prune()) this.persist()
+    this.schedule()
+  }
+
+  // 根据最新的天气列表更新待补齐日期：占位日期加入，已有真实数据的日期移除；
+  // 只保留当前地点、当前列表范围内的日期
+  track(latitude: number, longitude: number, weatherList: WeatherData[], timeZone: string = DateUtils.getTimeZone()): void {
+    // 列表为空（尚未加载）时无法判断范围，不做处理
+    if (weatherList.length === 0) return
+
+    const key = locationKey(latitude, longitude)
+    const entry = this.pending[key] || { latitude, longitude, timeZone, dates: {} }
+    const horizon = DateUtils.addDays(DateUtils.today(timeZone), MAX_FORECAST_DAYS - 1)
+    let changed = !this.pending[key] || entry.timeZone !== timeZone
+    entry.timeZone = timeZone
+
+    // 其他地点的待补齐日期不再显示，直接移除
+    Object.keys(this.pending).forEach((other) => {
+      if (other !== key) {
+        delete this.pending[other]
+        changed = true
+      }
+    })
+
+    const inRange = new Set(weatherList.map(weather => weather?.date).filter(Boolean))
+    Object.keys(entry.dates).forEach((date) => {
+      if (!inRange.has(date)) {
+        delete entry.dates[date]
+        changed = true
+      }
+    })
+
+    weatherList.forEach((weather) => {
+      if (!weather?.date) return
+      if (weather.isPlaceholder && weather.date <= horizon) {
+        if (!entry.dates[weather.date] && !this.abandoned.has(`${key}|${weather.date}`)) {
+          const now = Date.now()
+          entry.dates[weather.date] = { attempts: 0, nextRetryAt: now + BASE_RETRY_DELAY, createdAt: now }
+          changed = true
+        }
+      } else if (entry.dates[weather.date]) {
+        delete entry.dates[weather.date]
+        changed = true
+      }
+    })
+
+    if (!changed) return
+    if (Object.keys(entry.dates).length > 0) {
+      this.pending[key] = entry
+    } else {
+      delete this.pending[key]
+    }
+    this.persist()
+    this.schedule()
+  }
+
+  getPendingDates(latitude: number, longitude: number): string[] {
+    return Object.keys(this.pending[locationKey(latitude, longitude)]?.dates || {}).sort()
+  }
+
+  isRetrying(latitude: number, longitude: number, date: string): boolean {
+    return !!backfillState.retrying[`${locationKey(latitude, longitude)}|${date}`]
+  }
+
+  // 网络恢复：所有待补齐日期立即重试
+  retryNow(): void {
+    const now = Date.now()
+    this.abandoned.clear()
+    this.prune()
+    Object.values(this.pending).forEach((entry) => {
+      Object.values(entry.dates).forEach((item) => {
+        item.nextRetryAt = now
+      })
+    })
+    this.persist()
+    this.schedule(0)
+  }
+
+  // 卡片上的手动重试：立即获取单个日期，返回补齐后的数据（仍失败时返回 null）
+  async retryDate(latitude: number, longitude: number, date: string, timeZone: string = DateUtils.getTimeZone()): Promise<WeatherData | null> {
+    const key = locationKey(latitude, longitude)
+    if (!this.pending[key]) {
+      this.pending[key] = { latitude, longitude, timeZone, dates: {} }
+    }
+    this.abandoned.delete(`${key}|${date}`)
+    this.pending[key].dates[date] = { attempts: 0, nextRetryAt: Date.now(), createdAt: Date.now() }
+    const patched = await this.fetchDates(this.pending[key], [date])
+    return patched[0] || null
+  }
+
+  // 安排下一次自动重试（取最早到期的日期）
+  private schedule(delay?: number): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    const dueTimes = Object.values(this.pending).flatMap(entry =>
+      Object.values(entry.dates).map(item => item.nextRetryAt)
+    )
+    if (dueTimes.length === 0) return
+    const wait = delay ?? Math.max(0, Math.min(...dueTimes) - Date.now())
+    this.timer = setTimeout(() => this.processDue(), wait)
+  }
+
+  private async processDue(): Promise<void> {
+    this.timer = null
+    // 离线时不重试，等待 online 事件
+    if (this.running || !navigator.onLine) return
+    this.running = true
+    try {
+      const now = Date.now()
+      for (const entry of Object.values(this.pending)) {
+        const due = Object.entries(entry.dates)
+          .filter(([, item]) => item.nextRetryAt <= now)
+          .map(([date]) => date)
+        if (due.length > 0) {
+          await this.fetchDates(entry, due)
+        }
+      }
+    } finally {
+      this.running = false
+      if (this.prune()) this.persist()
+      this.schedule()
+    }
+  }
+
+  // 获取指定日期，成功的日期移出待补齐列表并通知界面，失败的按退避推迟
+  private async fetchDates(entry: PendingLocation, dates: string[]): Promise<WeatherData[]> {
+    const key = locationKey(entry.latitude, entry.longitude)
+    dates.forEach(date => { backfillState.retrying[`${key}|${date}`] = true })
+
+    const patched: WeatherData[] = []
+    try {
+      for (const range of groupConsecutive(dates)) {
+        let results: WeatherData[] = []
+        try {
+          // 跳过缓存，缓存中可能还是占位数据
+          results = await weatherService.getHistoricalWeather(
+            entry.latitude, entry.longitude, range.start, range.end, true, entry.timeZone
+          )
+        } catch (error) {
+          if (AbortUtils.isAbortError(error)) throw error
+          console.warn(`补齐占位数据失败 (${range.start} ~ ${range.end}):`, error)
+        }
+        const byDate = new Map(results.filter(w => !w.isPlaceholder).map(w => [w.date, w]))
+        DateUtils.getDatesBetween(range.start, range.end).forEach((date) => {
+          const weather = byDate.get(date)
+          const item = entry.dates[date]
+          if (weather) {
+            patched.push(weather)
+            delete entry.dates[date]
+          } else if (item) {
+            item.attempts++
+            item.nextRetryAt = Date.now() + backoffDelay(item.attempts)
+            // 自动重试次数用尽，放弃这个日期
+            if (item.attempts >= MAX_AUTO_ATTEMPTS) {
+              delete entry.dates[date]
+              this.abandoned.add(`${key}|${date}`)
+            }
+          }
+        })
+      }
+    } finally {
+      dates.forEach(date => { delete backfillState.retrying[`${key}|${date}`] })
+      if (Object.keys(entry.dates).length === 0) {
+        delete this.pending[key]
+      }
+      this.persist()
+    }
+
+    if (patched.length > 0) {
+      window.dispatchEvent(new CustomEvent('weather:backfill:patched', {
+        detail: { latitude: entry.latitude, longitude: entry.longitude, weatherData: patched }
+      }))
+    }
+    return patched
+  }
+
+  // 移除重试次数用尽、记录过久（含旧版本没有记录时间）的日期和没有日期的地点，返回是否有改动
+  private prune(): boolean {
+    const now = Date.now()
+    let changed = false
+    Object.entries(this.pending).forEach(([key, entry]) => {
+      Object.entries(entry?.dates || {}).forEach(([date, item]) => {
+        const expired = typeof item?.createdAt !== 'number' || now - item.createdAt > MAX_PENDING_AGE
+        if (expired || item.attempts >= MAX_AUTO_ATTEMPTS) {
+          delete entry.dates[date]
+          this.abandoned.add(`${key}|${date}`)
+          changed = true
+        }
+      })
+      if (!entry?.dates || Object.keys(entry.dates).length === 0) {
+        delete this.pending[key]
+        changed = true
+      }
+    })
+    return changed
+  }
+
+  private load(): Record<string, PendingLocation> {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY)
+      const saved = raw ? JSON.parse(raw) : null
+      return saved && typeof saved === 'object' ? saved : {}
+    } catch {
+      return {}
+    }
+  }
+
+  private persist(): void {
+    try {
+      if (Object.keys(this.pending).length === 0) {
+        localStorage.removeItem(STORAGE_KEY)
+      } else {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(this.pending))
+      }
+    } catch (error) {
+      console.warn('保存待补齐日期失败:', error)
+    }
+  }
+}
+
+export const placeholderBackfillService = new PlaceholderBackfillService()
+export default placeholderBackfillService
@@ -1,6 +1,19 @@
 // 请求去重服务 - 防止重复API请求
+import { AbortUtils } from '../utils/abortUtils';
+
+// 进行中的共享请求：使用自己的取消控制器，只有所有等待的调用方都取消后才真正取消，
+// 避免先发起的调用方取消时连带其他调用方一起失败
+interface SharedRequest {
+  promise: Promise<any>;
+  controller: AbortController;
+  // 仍在等待且可以取消的调用方数量
+  waiters: number;
+  // 有不带 signal 的调用方在等待时，请求不会被取消
+  pinned: boolean;
+}
+
 export class RequestDeduplicator {
-  private pendingRequests = new Map<string, Promise<any>>();
+  private pendingRequests = new Map<string, SharedRequest>();
   private requestCounts = new Map<string, number>();
   private lastRequestTime = new Map<string, number>();
   
@@ -10,23 +23,30 @@ export class RequestDeduplicator {
   /**
    * 执行去重请求
    * @param key 请求的唯一标识
-   * @param requestFn 实际的请求函数
-   * @param options 配置选项
+   * @param requestFn 实际的请求函数，应使用传入的共享 signal（而不是某个调用方的 signal）
+   * @param options 配置选项（signal 取消后本次调用以 AbortError 结束；所有调用方都取消后请求本身才取消）
    */
   async executeRequest<T>(
     key: string, 
-    requestFn: () => Promise<T>,
+    requestFn: (signal: AbortSignal) => Promise<T>,
     options: {
       forceRefresh?: boolean;
       timeout?: number;
       maxRetries?: number;
+      signal?: AbortSignal;
     } = {}
   ): Promise<T> {
-    const { forceRefresh = false, timeout = 30000, maxRetries = 3 } = options;
+    const { forceRefresh = false, timeout = 30000, maxRetries = 3, signal } = options;
+    AbortUtils.throwIfAborted(signal);
     
     // 生成完整的请求键
     const fullKey = this.generateRequestKey(key, forceRefresh);
     
+    // 已被取消的同键请求不再复用，也不计入最小请求间隔
+    if (this.pendingRequests.get(fullKey)?.controller.signal.aborted) {
+      this.pendingRequests.delete(fullKey);
+      this.lastRequestTime.delete(fullKey);
+    }
 
     
     // 检查是否有类似的日记请求正在进行（防止不同日期范围的重复请求）
@@ -39,10 +59,11 @@ export class RequestDeduplicator {
 
         // 等待现有的日记请求完成
         try {
-          const existingResult = await this.pendingRequests.get(existingSimilarKey)!;
+          const existingResult = await this.join<T>(this.pendingRequests.get(existingSimilarKey)!, signal);
 
           return existingResult;
         } catch (error) {
+          if (signal?.aborted) throw error;
           console.warn(`⚠️ 现有日记请求失败，继续执行新请求: ${fullKey}`);
         }
       }
@@ -53,7 +74,7 @@ export class RequestDeduplicator {
 
       // 如果有正在进行的请求，等待它完成
       if (this.pendingRequests.has(fullKey)) {
-        return await this.pendingRequests.get(fullKey)!;
+        return await this.join<T>(this.pendingRequests.get(fullKey)!, signal);
       }
       // 否则抛出错误
       throw new Error('请求过于频繁，请稍后重试');
@@ -70,7 +91,7 @@ export class RequestDeduplicator {
 
       const count = this.requestCounts.get(fullKey) || 0;
       this.requestCounts.set(fullKey, count + 1);
-      return await this.pendingRequests.get(fullKey)!;
+      return await this.join<T>(this.pendingRequests.get(fullKey)!, signal);
     }
     
     // 创建新的请求
@@ -78,20 +99,55 @@ export class RequestDeduplicator {
     this.requestCounts.set(fullKey, 1);
     this.lastRequestTime.set(fullKey, Date.now());
     
-    const requestPromise = this.executeWithTimeout(requestFn, timeout, maxRetries);
-    this.pendingRequests.set(fullKey, requestPromise);
-    
-    try {
-      const result = await requestPromise;
+    const controller = new AbortController();
+    const entry: SharedRequest = {
+      promise: this.executeWithTimeout(() => requestFn(controller.signal), timeout, maxRetries, controller.signal),
+      controller,
+      waiters: 0,
+      pinned: false
+    };
+    this.pendingRequests.set(fullKey, entry);
 
-      return result;
-    } catch (error) {
+    // 请求结束后清理（期间可能已被新的同键请求替换）；不依赖某个调用方是否还在等待
+    entry.promise.catch((error) => {
+      if (AbortUtils.isAbortError(error)) {
+        // 取消的请求允许立即以相同参数重新发起
+        this.lastRequestTime.delete(fullKey);
+        return;
+      }
       console.error(`❌ 请求失败: ${fullKey}`, error);
-      throw error;
+    }).finally(() => {
+      if (this.pendingRequests.get(fullKey) === entry) {
+        this.pendingRequests.delete(fullKey);
+        this.requestCounts.delete(fullKey);
+      }
+    });
+
+    return await this.join<T>(entry, signal);
+  }
+
+  /**
+   * 等待共享请求：调用方取消时只结束自己的等待，最后一个可取消的调用方也取消后才取消请求
+   */
+  private async join<T>(entry: SharedRequest, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+      entry.pinned = true;
+      return await entry.promise;
+    }
+    AbortUtils.throwIfAborted(signal);
+
+    entry.waiters++;
+    const onAbort = () => {
+      entry.waiters--;
+      if (entry.waiters === 0 && !entry.pinned) {
+        entry.controller.abort();
+      }
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    try {
+      return await AbortUtils.race(entry.promise, signal);
     } finally {
-      // 清理完成的请求
-      this.pendingRequests.delete(fullKey);
-      this.requestCounts.delete(fullKey);
+      signal.removeEventListener('abort', onAbort);
     }
   }
   
@@ -101,31 +157,34 @@ export class RequestDeduplicator {
   private async executeWithTimeout<T>(
     requestFn: () => Promise<T>,
     timeout: number,
-    maxRetries: number
+    maxRetries: number,
+    signal?: AbortSignal
   ): Promise<T> {
     let lastError: any;
     
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      AbortUtils.throwIfAborted(signal);
       try {
         // 创建超时Promise
         const timeoutPromise = new Promise<never>((_, reject) => {
           setTimeout(() => reject(new Error('请求超时')), timeout);
         });
         
-        // 执行请求，带超时控制
-        const result = await Promise.race([
+        // 执行请求，带超时控制；取消时立即结束等待
+        const result = await AbortUtils.race(Promise.race([
           requestFn(),
           timeoutPromise
-        ]);
+        ]), signal);
         
         return result;
       } catch (error) {
+        if (AbortUtils.isAbortError(error)) throw error;
         lastError = error;
         
         if (attempt < maxRetries) {
           const delay = Math.min(1000 * Math.pow(2, attempt), 5000); // 指数退避，最大5秒
           console.warn(`请求失败，${delay}ms后重试 (${attempt + 1}/${maxRetries})`, error);
-          await new Promise(resolve => setTimeout(resolve, delay));
+          await AbortUtils.sleep(delay, signal);
         }
       }
     }
@@ -0,0 +1,122 @@
+// 收藏地点：本地持久化的常用地点列表，可设置"家"作为默认位置
+import { reactive } from 'vue'
+import { t } from '../i18n'
+
+export interface SavedLocation {
+  id: string
+  name: string
+  latitude: number
+  longitude: number
+  timezone?: string
+  isHome?: boolean
+}
+
+const STORAGE_KEY = 'weather_saved_locations'
+
+// 未设置"家"时使用的默认位置，名称按当前语言取 location.defaultCity
+export const FALLBACK_LOCATION: Omit<SavedLocation, 'id' | 'name'> = {
+  latitude: 22.5429,
+  longitude: 114.0596,
+  timezone: 'Asia/Shanghai'
+}
+
+function loadLocations(): SavedLocation[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    const list = raw ? JSON.parse(raw) : []
+    if (!Array.isArray(list)) return []
+    return list.filter((item: any) =>
+      item && typeof item.id === 'string' && typeof item.name === 'string' &&
+      typeof item.latitude === 'number' && typeof item.longitude === 'number'
+    )
+  } catch {
+    return []
+  }
+}
+
+// 收藏列表（响应式，顺序即显示顺序）
+export const savedLocations = reactive<SavedLocation[]>(loadLocations())
+
+class SavedLocationService {
+  getAll(): SavedLocation[] {
+    return savedLocations
+  }
+
+  // 按坐标查找（保留4位小数比较，约10米）
+  find(latitude: number, longitude: number): SavedLocation | undefined {
+    const id = this.makeId(latitude, longitude)
+    return savedLocations.find(item => item.id === id)
+  }
+
+  // 添加收藏；同一坐标已存在时更新名称和时区
+  add(location: Omit<SavedLocation, 'id'>): SavedLocation {
+    const existing = this.find(location.latitude, location.longitude)
+    if (existing) {
+      existing.name = location.name
+      if (location.timezone) existing.timezone = location.timezone
+      this.persist()
+      return existing
+    }
+    const item: SavedLocation = {
+      id: this.makeId(location.latitude, location.longitude),
+      name: location.name,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      timezone: location.timezone,
+      isHome: false
+    }
+    savedLocations.push(item)
+    if (location.isHome) this.setHome(item.id)
+    this.persist()
+    return item
+  }
+
+  remove(id: string): void {
+    const index = savedLocations.findIndex(item => item.id === id)
+    if (index < 0) return
+    savedLocations.splice(index, 1)
+    this.persist()
+  }
+
+  // 调整顺序：offset 为 -1 上移、1 下移
+  move(id: string, offset: number): void {
+    const from = savedLocations.findIndex(item => item.id === id)
+    const to = from + offset
+    if (from < 0 || to < 0 || to >= savedLocations.length) return
+    const [item] = savedLocations.splice(from, 1)
+    savedLocations.splice(to, 0, item)
+    this.persist()
+  }
+
+  // 设置"家"（只能有一个），传 null 取消
+  setHome(id: string | null): void {
+    savedLocations.forEach(item => {
+      item.isHome = item.id === id
+    })
+    this.persist()
+  }
+
+  getHome(): SavedLocation | undefined {
+    return savedLocations.find(item => item.isHome)
+  }
+
+  // 默认位置：优先使用"家"，否则为深圳
+  getDefaultLocation(): Omit<SavedLocation, 'id'> {
+    return this.getHome() || { ...FALLBACK_LOCATION, name: t('location.defaultCity') }
+  }
+
+  private makeId(latitude: number, longitude: number): string {
+    return `${latitude.toFixed(4)},${longitude.toFixed(4)}`
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(savedLocations))
+    } catch {
+      // 存储不可用时仅本次会话生效
+    }
+  }
+}
+
+export const savedLocationService = new SavedLocationService()
+export default savedLocationService
@@ -14,7 +14,12 @@ export class StorageAdapter {
   static async saveDiary(data: Partial<WeatherDiary> & { date: string }): Promise<void> {
     if (isSupabaseEnabled && supabase) {
       try {
-        await diaryService.createDiary(data as any)
+        // 带 id 时修改该条目，否则新增一条（同一天可以有多条）
+        if (data.id) {
+          await diaryService.updateDiary(data.id, data as any)
+        } else {
+          await diaryService.createDiary(data as any)
+        }
         return
       } catch (error) {
         console.warn('Supabase保存日记失败，回退到本地存储:', error)
@@ -34,7 +39,10 @@ export class StorageAdapter {
       data.images || [],
       data.mood || '',
       data.city || '',
-      (data.videos && data.videos.length > 0 ? data.videos[0] : '') || ''
+      (data.videos && data.videos.length > 0 ? data.videos[0] : '') || '',
+      data.entry_time || undefined,
+      data.id,
+      data.tags || []
     )
   }
 
@@ -56,23 +64,26 @@ export class StorageAdapter {
     
     // 转换为Supabase格式
     return {
+      id: localDiary.id,
       date: localDiary.date,
+      entry_time: localDiary.entryTime || null,
       content: localDiary.content,
       weather_data: localDiary.weather,
       images: localDiary.images,
       mood: localDiary.mood,
       city: localDiary.city,
-      videos: localDiary.video ? [localDiary.video] : []
+      videos: localDiary.video ? [localDiary.video] : [],
+      tags: localDiary.tags || []
     }
   }
 
   /**
-   * 删除日记
+   * 删除指定日期的所有日记条目
    */
   static async deleteDiary(date: string): Promise<void> {
     if (isSupabaseEnabled && supabase) {
       try {
-        await diaryService.deleteDiary(date)
+        await diaryService.deleteDiaryByDate(date)
         return
       } catch (error) {
         console.warn('Supabase删除日记失败，回退到本地存储:', error)
@@ -80,7 +91,8 @@ export class StorageAdapter {
     }
     
     // 使用本地存储
-    await diaryDb.deleteDiary(date)
+    const localDiaries = await diaryDb.getDiariesByDate(date)
+    await Promise.all(localDiaries.map(diary => diaryDb.deleteDiary(diary.id)))
   }
 
   /**
@@ -98,13 +110,16 @@ export class StorageAdapter {
     // 使用本地存储
     const localDiaries = await diaryDb.getAllDiaries()
     return localDiaries.map(diary => ({
+      id: diary.id,
       date: diary.date,
+      entry_time: diary.entryTime || null,
       content: diary.content,
       weather_data: diary.weather,
       images: diary.images,
       mood: diary.mood,
       city: diary.city,
-      video: diary.video
+      video: diary.video,
+      tags: diary.tags || []
     }))
   }
 
@@ -1,5 +1,6 @@
 import { supabase, WeatherDiary } from '../config/supabase'
-import { SupabaseStorageService } from './supabaseStorage'
+import { TagUtils } from '../utils/tagUtils'
+import { diaryDb } from './diaryDb'
 
 /**
  * Supabase天气日记服务
@@ -7,67 +8,87 @@ import { SupabaseStorageService } from './supabaseStorage'
 export class SupabaseDiaryService {
   
   /**
-   * 获取指定日期的日�?
+   * 获取指定日期的所有日记条目（按条目时间排序）
    */
-  static async getDiary(date: string): Promise<WeatherDiary | null> {
+  static async getDiaries(date: string): Promise<WeatherDiary[]> {
     try {
       if (!supabase) {
         throw new Error('Supabase未配置')
       }
-      const { data, error } = await supabase!
+      const { data, error } = await supabase
         .from('weather_diaries')
         .select('*')
         .eq('date', date)
-        .maybeSingle()
+        .order('entry_time', { ascending: true, nullsFirst: true })
+        .order('created_at', { ascending: true })
 
       if (error) {
-
         console.error('获取日记失败:', error)
         throw error
       }
 
-      return data
+      return data || []
     } catch (error) {
-      console.error('获取日记时发生错�?', error)
-      return null
+      console.error('获取日记时发生错误:', error)
+      return []
     }
   }
 
   /**
-   * 保存或更新日�?
+   * 获取指定日期最晚的一条日记
    */
-  static async saveDiary(diary: Omit<WeatherDiary, 'id' | 'created_at' | 'updated_at'>): Promise<WeatherDiary> {
+  static async getDiary(date: string): Promise<WeatherDiary | null> {
+    const diaries = await this.getDiaries(date)
+    return diaries.length > 0 ? diaries[diaries.length - 1] : null
+  }
+
+  /**
+   * 保存日记条目：带 id 时更新该条目，否则新增一条
+   */
+  static async saveDiary(diary: Omit<WeatherDiary, 'created_at' | 'updated_at'>): Promise<WeatherDiary> {
     try {
-      // 检查是否已存在
-      const existing = await this.getDiary(diary.date)
-      
-      if (existing) {
-        // 更新现有记录
-        const { data, error } = await supabase!!
+      if (diary.id) {
+        const diaryId = diary.id
+        // 没有修订记录的旧条目，修改前先保存原内容
+        await diaryDb.ensureBaselineRevision(diaryId, async () => {
+          const { data: previous } = await supabase!
+            .from('weather_diaries')
+            .select('*')
+            .eq('id', diaryId)
+            .maybeSingle()
+          return previous
+        })
+
+        // 更新现有条目
+        const { data, error } = await supabase!
           .from('weather_diaries')
           .update({
+            entry_time: diary.entry_time ?? null,
             weather_data: diary.weather_data,
             content: diary.content,
             mood: diary.mood,
             city: diary.city,
             images: diary.images,
-            videos: diary.videos || []
+            videos: diary.videos || [],
+            tags: diary.tags || []
           })
-          .eq('date', diary.date)
+          .eq('id', diary.id)
           .select()
-          .maybeSingle()
+          .single()
 
         if (error) {
           console.error('更新日记失败:', error)
           throw error
         }
 
+        await diaryDb.addRevision(data, 'update')
         return data
       } else {
-        // 创建新记�?
+        // 同一天可以有多条，直接新增
+        const { id: _id, ...fields } = diary
         const { data, error } = await supabase!
           .from('weather_diaries')
-          .insert([diary])
+          .insert([fields])
           .select()
           .single()
 
@@ -76,51 +97,40 @@ export class SupabaseDiaryService {
           throw error
         }
 
+        await diaryDb.addRevision(data, 'create')
         return data
       }
     } catch (error) {
-      console.error('保存日记时发生错�?', error)
+      console.error('保存日记时发生错误:', error)
       throw error
     }
   }
 
   /**
-   * 删除日记
+   * 删除单条日记
+   * 图片和视频文件保留，修订记录里的快照仍引用它们，恢复后可以继续显示
    */
-  static async deleteDiary(date: string): Promise<boolean> {
+  static async deleteDiary(id: string): Promise<boolean> {
     try {
-      // 先获取日记以删除相关文件
-      const diary = await this.getDiary(date)
-      
-      if (diary) {
-        // 删除相关文件
-        const filesToDelete: string[] = []
-        if (diary.images) {
-          filesToDelete.push(...diary.images)
-        }
-        if (diary.videos && diary.videos.length > 0) {
-          filesToDelete.push(...diary.videos)
-        }
-        
-        if (filesToDelete.length > 0) {
-          await SupabaseStorageService.deleteFiles(filesToDelete)
-        }
-      }
-
-      // 删除数据库记�?
-      const { error } = await supabase!
+      // 删除数据库记录，并把删除前的内容写入修订记录
+      const { data, error } = await supabase!
         .from('weather_diaries')
         .delete()
-        .eq('date', date)
+        .eq('id', id)
+        .select()
 
       if (error) {
         console.error('删除日记失败:', error)
         throw error
       }
 
+      for (const row of data || []) {
+        await diaryDb.addRevision(row, 'delete')
+      }
+
       return true
     } catch (error) {
-      console.error('删除日记时发生错�?', error)
+      console.error('删除日记时发生错误:', error)
       return false
     }
   }
@@ -136,6 +146,7 @@ export class SupabaseDiaryService {
         .gte('date', startDate)
         .lte('date', endDate)
         .order('date', { ascending: true })
+        .order('entry_time', { ascending: true, nullsFirst: true })
 
       if (error) {
         console.error('获取日记范围失败:', error)
@@ -219,15 +230,12 @@ export class SupabaseDiaryService {
   }
 
   /**
-   * 搜索日记内容
+   * 搜索日记内容（服务端 search_weather_diaries，关键词作为参数传入，不拼进过滤条件）
    */
   static async searchDiaries(keyword: string): Promise<WeatherDiary[]> {
     try {
       const { data, error } = await supabase!
-        .from('weather_diaries')
-        .select('*')
-        .or(`content.ilike.%${keyword}%,city.ilike.%${keyword}%,mood.ilike.%${keyword}%`)
-        .order('date', { ascending: false })
+        .rpc('search_weather_diaries', { p_query: keyword })
 
       if (error) {
         console.error('搜索日记失败:', error)
@@ -248,7 +256,7 @@ export class SupabaseDiaryService {
     try {
       const { data, error } = await supabase!
         .from('weather_diaries')
-        .select('mood, city, date')
+        .select('mood, city, date, tags')
 
       if (error) {
         console.error('获取统计信息失败:', error)
@@ -259,6 +267,7 @@ export class SupabaseDiaryService {
         totalDiaries: data?.length || 0,
         moodStats: {} as Record<string, number>,
         cityStats: {} as Record<string, number>,
+        tagStats: {} as Record<string, number>,
         monthlyStats: {} as Record<string, number>
       }
 
@@ -279,6 +288,8 @@ export class SupabaseDiaryService {
           stats.monthlyStats[month] = (stats.monthlyStats[month] || 0) + 1
         }
       })
+      // 标签统计（不区分大小写，与标签筛选一致）
+      stats.tagStats = TagUtils.tagStats(data || [])
 
       return stats
     } catch (error) {
@@ -287,6 +298,7 @@ export class SupabaseDiaryService {
         totalDiaries: 0,
         moodStats: {},
         cityStats: {},
+        tagStats: {},
         monthlyStats: {}
       }
     }
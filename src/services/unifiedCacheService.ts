@@ -7,6 +7,8 @@ import { dateRangeManager } from './dateRangeManager'
 import type { WeatherData } from '../types/weather'
 import type { DiaryData } from '../types/diary'
 import type { UnifiedCacheStats, InitializeDataResult } from '../types/services'
+import { DateUtils } from '../utils/dateUtils'
+import { DiaryUtils } from '../utils/diaryUtils'
 
 interface WeatherDataReadyEvent extends CustomEvent {
   detail: { weatherData: WeatherData[] }
@@ -21,7 +23,7 @@ interface UnifiedDataReadyEvent extends CustomEvent {
 }
 
 interface DiaryUpdatedEvent extends CustomEvent {
-  detail: { date: string; diary: DiaryData | null }
+  detail: { date: string; diaries: DiaryData[] }
 }
 
 declare global {
@@ -196,7 +198,7 @@ class UnifiedCacheService {
 
 
           // 如果需要当前天气补充信息，只在今天的数据需要时才请求
-          const today = new Date().toISOString().slice(0, 10)
+          const today = DateUtils.today()
           const todayWeather = weatherData.find(w => w.date === today)
 
           if (todayWeather) {
@@ -217,8 +219,10 @@ class UnifiedCacheService {
                   },
                   windSpeed: currentWeather.windSpeed ?? todayWeather.windSpeed,
                   windDirection: currentWeather.windDirection ?? todayWeather.windDirection,
+                  windDirectionDegrees: currentWeather.windDirectionDegrees ?? todayWeather.windDirectionDegrees,
                   description: currentWeather.description ?? todayWeather.description,
-                  icon: currentWeather.icon ?? todayWeather.icon
+                  icon: currentWeather.icon ?? todayWeather.icon,
+                  weatherCode: currentWeather.weatherCode ?? todayWeather.weatherCode
                 })
 
               }
@@ -292,7 +296,7 @@ class UnifiedCacheService {
     
     diaries.forEach((diary: any) => {
       if (diary && diary.date) {
-        this.diaryCache.set(diary.date, diary)
+        this.diaryCache.set(DiaryUtils.getEntryKey(diary), diary)
       }
     })
   }
@@ -331,46 +335,37 @@ class UnifiedCacheService {
     return Array.from(this.weatherCache.values())
   }
 
-  // 获取日记数据
-  getDiaryData(date?: string): DiaryData | DiaryData[] | null {
-    if (date) {
-      return this.diaryCache.get(date) || null
-    }
-    return Array.from(this.diaryCache.values())
+  // 获取日记数据：指定日期时返回当天所有条目
+  getDiaryData(date?: string): DiaryData[] {
+    const diaries = Array.from(this.diaryCache.values())
+    return DiaryUtils.sortEntries(date ? diaries.filter(diary => diary.date === date) : diaries)
   }
 
-  // 设置日记数据
-  setDiaryData(date: string, diary: DiaryData | null): void {
-    if (diary) {
-      this.diaryCache.set(date, diary)
-    } else {
-      this.diaryCache.delete(date)
+  // 用最新的条目列表替换某一天的日记
+  setDiaryData(date: string, diaries: DiaryData[]): void {
+    for (const [key, diary] of this.diaryCache.entries()) {
+      if (diary.date === date) {
+        this.diaryCache.delete(key)
+      }
     }
+    diaries.forEach(diary => this.diaryCache.set(DiaryUtils.getEntryKey(diary), diary))
 
     // 更新全局缓存
     window.__diaryCache = this.diaryCache
   }
 
   // 刷新特定日期的日记数据
-  async refreshDiaryData(date: string): Promise<DiaryData | null> {
+  async refreshDiaryData(date: string): Promise<DiaryData[]> {
     try {
-      const diary = await diaryService.getDiaryByDate(date, true) // 强制刷新
-
-      if (diary) {
-        this.diaryCache.set(date, diary)
-      } else {
-        this.diaryCache.delete(date)
-      }
-
-      // 更新全局缓存
-      window.__diaryCache = this.diaryCache
+      const diaries = await diaryService.getDiariesByDate(date, true) // 强制刷新
+      this.setDiaryData(date, diaries)
 
       // 通知组件更新
       window.dispatchEvent(new CustomEvent('diary:updated', {
-        detail: { date, diary }
+        detail: { date, diaries }
       }) as DiaryUpdatedEvent)
 
-      return diary
+      return diaries
     } catch (error) {
       console.error(`刷新日记数据失败 (${date}):`, error)
       throw error
@@ -471,10 +466,11 @@ class UnifiedCacheService {
     const nextDate = new Date(current.getTime() + 24 * 60 * 60 * 1000).toISOString().split('T')[0]
 
     // 预加载相邻日期的日记（不等待结果）
-    Promise.all([
-      this.getDiaryData(prevDate) || diaryService.getDiaryByDate(prevDate).catch(() => null),
-      this.getDiaryData(nextDate) || diaryService.getDiaryByDate(nextDate).catch(() => null)
-    ])
+    ;[prevDate, nextDate].forEach(date => {
+      if (this.getDiaryData(date).length === 0) {
+        diaryService.getDiariesByDate(date).catch(() => [])
+      }
+    })
   }
 
   // 清理缓存
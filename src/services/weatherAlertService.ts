@@ -0,0 +1,186 @@
+// 基于规则的天气预警：对当前加载范围（含预报日期）的天气数据逐条评估
+import { reactive } from 'vue'
+import type { WeatherData, WeatherAlert, WeatherAlertThresholds } from '../types/weather'
+import { DateUtils } from '../utils/dateUtils'
+import { UnitUtils } from '../utils/unitUtils'
+import { WeatherApiService } from './weatherApi'
+// 方法内的 t 指预警阈值，文案函数改名为 i18n
+import { t as i18n } from '../i18n'
+
+const STORAGE_KEY = 'weather_alert_thresholds'
+
+export const DEFAULT_ALERT_THRESHOLDS: WeatherAlertThresholds = {
+  heatTemperature: 35,
+  heatWaveDays: 3,
+  heavyRain: 50,
+  strongWind: 50, // 约为 7 级风
+  temperatureDrop: 8,
+  freezingTemperature: 0
+}
+
+function loadThresholds(): WeatherAlertThresholds {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return { ...DEFAULT_ALERT_THRESHOLDS }
+    const saved = JSON.parse(raw) as Partial<WeatherAlertThresholds>
+    const result = { ...DEFAULT_ALERT_THRESHOLDS }
+    ;(Object.keys(result) as (keyof WeatherAlertThresholds)[]).forEach((key) => {
+      if (typeof saved[key] === 'number' && !isNaN(saved[key]!)) {
+        result[key] = saved[key]!
+      }
+    })
+    return result
+  } catch {
+    return { ...DEFAULT_ALERT_THRESHOLDS }
+  }
+}
+
+// 当前预警阈值（响应式，修改后依赖它的计算属性会重新评估）
+export const alertThresholds = reactive<WeatherAlertThresholds>(loadThresholds())
+
+class WeatherAlertService {
+  // 更新并保存预警阈值
+  setThresholds(thresholds: Partial<WeatherAlertThresholds>): void {
+    Object.assign(alertThresholds, thresholds)
+    this.persist()
+  }
+
+  resetThresholds(): void {
+    Object.assign(alertThresholds, DEFAULT_ALERT_THRESHOLDS)
+    this.persist()
+  }
+
+  // 评估天气列表，返回按日期排序的预警
+  evaluate(weatherList: WeatherData[]): WeatherAlert[] {
+    const list = weatherList
+      .filter(w => w && w.date && !w.isPlaceholder)
+      .sort((a, b) => a.date.localeCompare(b.date))
+    if (list.length === 0) return []
+
+    const t = alertThresholds
+    const alerts: WeatherAlert[] = []
+
+    // 连续高温
+    this.groupConsecutive(list.filter(w => w.temperature.max >= t.heatTemperature))
+      .filter(run => run.length >= t.heatWaveDays)
+      .forEach((run) => {
+        const peak = Math.max(...run.map(w => w.temperature.max))
+        alerts.push(this.createAlert('heatWave', peak >= t.heatTemperature + 3 ? 'danger' : 'warning',
+          i18n('alerts.titles.heatWave'),
+          i18n('alerts.messages.heatWave', {
+            days: run.length,
+            threshold: UnitUtils.formatTemperature(t.heatTemperature),
+            peak: UnitUtils.formatTemperature(peak)
+          }),
+          run))
+      })
+
+    // 强降雨（单日）
+    list.filter(w => w.precipitation >= t.heavyRain).forEach((w) => {
+      const severe = w.precipitation >= t.heavyRain * 2
+      alerts.push(this.createAlert('heavyRain', severe ? 'danger' : 'warning',
+        i18n(severe ? 'alerts.titles.severeRain' : 'alerts.titles.heavyRain'),
+        i18n('alerts.messages.heavyRain', { precipitation: UnitUtils.formatPrecipitation(w.precipitation) }),
+        [w]))
+    })
+
+    // 大风（单日）
+    list.filter(w => w.windSpeed >= t.strongWind).forEach((w) => {
+      const level = UnitUtils.toBeaufort(w.windSpeed)
+      alerts.push(this.createAlert('strongWind', level >= 9 ? 'danger' : 'warning',
+        i18n('alerts.titles.strongWind', { level }),
+        i18n('alerts.messages.strongWind', {
+          speed: UnitUtils.formatWindSpeed(w.windSpeed),
+          direction: WeatherApiService.localizeWindDirection(w.windDirection)
+        }),
+        [w]))
+    })
+
+    // 骤然降温：相邻两天最低气温降幅
+    for (let i = 1; i < list.length; i++) {
+      const prev = list[i - 1]
+      const cur = list[i]
+      if (DateUtils.addDays(prev.date, 1) !== cur.date) continue
+      const drop = prev.temperature.min - cur.temperature.min
+      if (drop >= t.temperatureDrop) {
+        alerts.push(this.createAlert('temperatureDrop', drop >= t.temperatureDrop + 4 ? 'danger' : 'warning',
+          i18n(drop >= t.temperatureDrop + 4 ? 'alerts.titles.coldWave' : 'alerts.titles.temperatureDrop'),
+          i18n('alerts.messages.temperatureDrop', {
+            drop: Math.round(UnitUtils.convertTemperature(prev.temperature.min) - UnitUtils.convertTemperature(cur.temperature.min)),
+            min: UnitUtils.formatTemperature(cur.temperature.min)
+          }),
+          [cur]))
+      }
+    }
+
+    // 冰冻（连续日期合并为一条）
+    this.groupConsecutive(list.filter(w => w.temperature.min <= t.freezingTemperature)).forEach((run) => {
+      const lowest = Math.min(...run.map(w => w.temperature.min))
+      alerts.push(this.createAlert('freezing', lowest <= t.freezingTemperature - 5 ? 'danger' : 'warning',
+        i18n('alerts.titles.freezing'),
+        run.length > 1
+          ? i18n('alerts.messages.freezingDays', { days: run.length, min: UnitUtils.formatTemperature(lowest) })
+          : i18n('alerts.messages.freezing', { min: UnitUtils.formatTemperature(lowest) }),
+        run))
+    })
+
+    return alerts.sort((a, b) => a.dates[0].localeCompare(b.dates[0]))
+  }
+
+  // 按日期索引预警，供卡片显示
+  groupByDate(alerts: WeatherAlert[]): Map<string, WeatherAlert[]> {
+    const map = new Map<string, WeatherAlert[]>()
+    alerts.forEach((alert) => {
+      alert.dates.forEach((date) => {
+        if (!map.has(date)) map.set(date, [])
+        map.get(date)!.push(alert)
+      })
+    })
+    return map
+  }
+
+  private createAlert(
+    type: WeatherAlert['type'],
+    level: WeatherAlert['level'],
+    title: string,
+    message: string,
+    days: WeatherData[]
+  ): WeatherAlert {
+    const dates = days.map(d => d.date)
+    const today = DateUtils.today()
+    return {
+      id: `${type}_${dates[0]}`,
+      type,
+      level,
+      title,
+      message,
+      dates,
+      isForecast: dates.some(date => date > today)
+    }
+  }
+
+  // 将已排序的天气按连续日期分段
+  private groupConsecutive(list: WeatherData[]): WeatherData[][] {
+    const runs: WeatherData[][] = []
+    list.forEach((w) => {
+      const last = runs[runs.length - 1]
+      if (last && DateUtils.addDays(last[last.length - 1].date, 1) === w.date) {
+        last.push(w)
+      } else {
+        runs.push([w])
+      }
+    })
+    return runs
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...alertThresholds }))
+    } catch {
+      // 存储不可用时仅本次会话生效
+    }
+  }
+}
+
+export const weatherAlertService = new WeatherAlertService()
+export default weatherAlertService
@@ -1,81 +1,123 @@
 import axios from 'axios'
-import { WeatherApiResponse, WeatherData } from '../types/weather'
+import { WeatherApiResponse, WeatherData, HourlyApiResponse, HourlyWeather } from '../types/weather'
+import { DateUtils, DEFAULT_TIME_ZONE } from '../utils/dateUtils'
+import { AbortUtils } from '../utils/abortUtils'
+import { savedLocationService } from './savedLocationService'
+import { t, tm, tmIn, findMessageKey, LOCALE_OPTIONS } from '../i18n'
 
 // 使用免费的Open-Meteo API
 const ARCHIVE_API_URL = 'https://archive-api.open-meteo.com/v1/archive'
 const FORECAST_API_URL = 'https://api.open-meteo.com/v1/forecast'
-
-// 天气代码对应的描述和图标 - 完整的 Open-Meteo API 天气代码映射
-const weatherCodes: Record<number, { description: string; icon: string }> = {
+// 历史预报接口：覆盖 archive 尚未收录、又超出 forecast past_days(92天) 的日期
+const HISTORICAL_FORECAST_API_URL = 'https://historical-forecast-api.open-meteo.com/v1/forecast'
+
+// archive 与 forecast 共用的 daily 变量
+const DAILY_VARIABLES = [
+  'temperature_2m_max',
+  'temperature_2m_min',
+  'precipitation_sum',
+  'windspeed_10m_max',
+  'windgusts_10m_max',
+  'winddirection_10m_dominant',
+  'cloudcover_mean',
+  'weathercode',
+  'relative_humidity_2m_mean',
+  'apparent_temperature_max',
+  'apparent_temperature_min',
+  'pressure_msl_mean',
+  'sunrise',
+  'sunset'
+]
+// archive 接口不提供紫外线指数，只在 forecast 中请求
+const ARCHIVE_DAILY_PARAMS = DAILY_VARIABLES.join(',')
+const FORECAST_DAILY_PARAMS = [...DAILY_VARIABLES, 'uv_index_max'].join(',')
+// mapExtendedDaily 负责映射的可选字段
+type ExtendedDailyField = 'humidity' | 'apparentTemperature' | 'uvIndex' | 'pressure' | 'sunrise' | 'sunset' | 'windDirectionDegrees' | 'windGusts'
+
+// Archive API 相对今天的数据滞后天数（ERA5 通常滞后约5天）
+const ARCHIVE_LAG_DAYS = 5
+// 探测到的 archive 边界在本地保存的键与有效期
+const ARCHIVE_BOUNDARY_STORAGE_KEY = 'weather_archive_boundary'
+const ARCHIVE_BOUNDARY_TTL = 12 * 60 * 60 * 1000 // 12小时
+// 单次请求的最大天数，更长的范围拆分为多段依次请求，避免单个请求过大超时
+const MAX_REQUEST_DAYS = 92
+
+// 天气代码对应的图标 - 完整的 Open-Meteo API (WMO) 天气代码；描述文案按语言在 i18n 的 weatherCodes 中
+const weatherIcons: Record<number, string> = {
   // 晴朗天气
-  0: { description: '晴天', icon: '☀️' },
+  0: '☀️',
   
   // 多云天气
-  1: { description: '晴间多云', icon: '🌤️' },
-  2: { description: '多云', icon: '⛅' },
-  3: { description: '阴天', icon: '☁️' },
+  1: '🌤️',
+  2: '⛅',
+  3: '☁️',
   
   // 雾天
-  45: { description: '雾', icon: '🌫️' },
-  48: { description: '雾凇', icon: '🌫️' },
+  45: '🌫️',
+  48: '🌫️',
   
   // 毛毛雨
-  51: { description: '小毛毛雨', icon: '🌦️' },
-  53: { description: '中毛毛雨', icon: '🌦️' },
-  55: { description: '大毛毛雨', icon: '🌧️' },
+  51: '🌦️',
+  53: '🌦️',
+  55: '🌧️',
   
   // 冻毛毛雨
-  56: { description: '轻度冻毛毛雨', icon: '🌨️' },
-  57: { description: '重度冻毛毛雨', icon: '🌨️' },
+  56: '🌨️',
+  57: '🌨️',
   
   // 降雨
-  61: { description: '小雨', icon: '🌦️' },
-  63: { description: '中雨', icon: '🌧️' },
-  65: { description: '大雨', icon: '🌧️' },
+  61: '🌦️',
+  63: '🌧️',
+  65: '🌧️',
   
   // 冻雨
-  66: { description: '轻度冻雨', icon: '🌨️' },
-  67: { description: '重度冻雨', icon: '🌨️' },
+  66: '🌨️',
+  67: '🌨️',
   
   // 降雪
-  71: { description: '小雪', icon: '🌨️' },
-  73: { description: '中雪', icon: '❄️' },
-  75: { description: '大雪', icon: '❄️' },
+  71: '🌨️',
+  73: '❄️',
+  75: '❄️',
   
   // 雪粒
-  77: { description: '雪粒', icon: '🌨️' },
+  77: '🌨️',
   
   // 阵雨
-  80: { description: '小阵雨', icon: '🌦️' },
-  81: { description: '中阵雨', icon: '🌧️' },
-  82: { description: '大阵雨', icon: '🌧️' },
+  80: '🌦️',
+  81: '🌧️',
+  82: '🌧️',
   
   // 阵雪
-  85: { description: '小阵雪', icon: '🌨️' },
-  86: { description: '大阵雪', icon: '❄️' },
+  85: '🌨️',
+  86: '❄️',
   
   // 雷暴
-  95: { description: '雷雨', icon: '⛈️' },
+  95: '⛈️',
   
   // 雷暴伴冰雹
-  96: { description: '雷阵雨伴小冰雹', icon: '⛈️' },
-  99: { description: '雷阵雨伴大冰雹', icon: '⛈️' }
+  96: '⛈️',
+  99: '⛈️'
 }
 
 export class WeatherApiService {
-  // 通用的API请求方法，带重试机制
+  // 正在进行的 archive 边界探测（按时区），避免并发请求重复探测
+  private static archiveProbes = new Map<string, Promise<string | null>>()
+
+  // 通用的API请求方法，带重试机制；signal 取消后立即结束，不再重试
   private static async makeApiRequest<T>(
     url: string,
     params: Record<string, any>,
-    maxRetries: number = 3
+    maxRetries: number = 3,
+    signal?: AbortSignal
   ): Promise<T> {
+    AbortUtils.throwIfAborted(signal)
+
     // 离线快速失败
     if (typeof navigator !== 'undefined' && navigator.onLine === false) {
 
       throw new Error('网络不可用，请检查连接后重试')
     }
 
-    const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
     const shouldRetry = (err: any): boolean => {
       const code = err?.code
       const msg = String(err?.message || '')
@@ -92,16 +134,18 @@ export class WeatherApiService {
       try {
         const response = await axios.get<T>(url, {
           params,
-          timeout: 10000
+          timeout: 10000,
+          signal
         })
         return response.data
       } catch (error: any) {
+        if (AbortUtils.isAbortError(error)) throw AbortUtils.createAbortError()
         lastError = error
         if (attempt < maxRetries && shouldRetry(error)) {
           const base = 500
           const wait = base * Math.pow(2, attempt) + Math.floor(Math.random() * 300)
           console.warn(`API请求失败，准备重试(${attempt + 1}/${maxRetries})，等待 ${wait}ms`, error)
-          await sleep(wait)
+          await AbortUtils.sleep(wait, signal)
           continue
         }
         break
@@ -134,22 +178,31 @@ export class WeatherApiService {
     throw new Error(errorMessage)
   }
 
-  // 获取历史天气数据（archive接口）
-  private static async getArchiveWeather(
+  // 获取历史天气数据（archive接口，或 historical-forecast 接口补缺）
+  static async getArchiveWeather(
     latitude: number,
     longitude: number,
     startDate: string,
-    endDate: string
+    endDate: string,
+    source: 'archive' | 'historical-forecast' = 'archive',
+    timeZone: string = DateUtils.getTimeZone(),
+    signal?: AbortSignal
   ): Promise<{ data: WeatherData[]; missingDates: string[] }> {
     try {
-      const response = await this.makeApiRequest<WeatherApiResponse>(ARCHIVE_API_URL, {
-        latitude,
-        longitude,
-        start_date: startDate,
-        end_date: endDate,
-        daily: 'temperature_2m_max,temperature_2m_min,precipitation_sum,windspeed_10m_max,winddirection_10m_dominant,cloudcover_mean,weathercode',
-        timezone: 'Asia/Shanghai'
-      })
+      const isArchive = source === 'archive'
+      const response = await this.makeApiRequest<WeatherApiResponse>(
+        isArchive ? ARCHIVE_API_URL : HISTORICAL_FORECAST_API_URL,
+        {
+          latitude,
+          longitude,
+          start_date: startDate,
+          end_date: endDate,
+          daily: isArchive ? ARCHIVE_DAILY_PARAMS : FORECAST_DAILY_PARAMS,
+          timezone: timeZone
+        },
+        3,
+        signal
+      )
 
       const daily = response?.daily
       if (!daily || !Array.isArray(daily.time)) {
@@ -195,12 +248,11 @@ export class WeatherApiService {
         }
 
         // 数据完整，添加到结果中
-        const info = weatherCodes[wcode]
-        if (!info) {
+        if (!(wcode in weatherIcons)) {
           console.warn(`未知天气代码: ${wcode} (日期: ${date})`)
         }
-        const weatherInfo = info || { description: '未知', icon: '❓' }
-        const windDirection = typeof windDirDeg === 'number' ? this.getWindDirection(windDirDeg) : '不详'
+        const weatherInfo = this.getWeatherInfo(wcode)
+        const windDirection = typeof windDirDeg === 'number' ? this.getWindDirection(windDirDeg) : t('wind.unknown')
 
         result.push({
           date,
@@ -209,19 +261,21 @@ export class WeatherApiService {
             max: Math.round(tmax),
             current: Math.round((tmin + tmax) / 2)
           },
-          humidity: 60,
+          ...this.mapExtendedDaily(daily, index),
           windSpeed: Math.round(windSpeed),
           windDirection,
           precipitation: Math.round(precip * 100) / 100,
           cloudCover: Math.round(cloud),
           description: weatherInfo.description,
-          icon: weatherInfo.icon
+          icon: weatherInfo.icon,
+          weatherCode: wcode
         })
       })
 
       return { data: result, missingDates }
     } catch (error) {
-      console.warn('Archive API请求失败:', error)
+      if (AbortUtils.isAbortError(error)) throw error
+      console.warn(`${source === 'archive' ? 'Archive' : 'Historical forecast'} API请求失败:`, error)
       // 如果archive完全失败，所有日期都需要通过forecast补缺
       const allDates = this.generateDateRange(startDate, endDate)
       return { data: [], missingDates: allDates }
@@ -233,9 +287,12 @@ export class WeatherApiService {
     latitude: number,
     longitude: number,
     startDate: string,
-    endDate: string
+    endDate: string,
+    timeZone: string = DateUtils.getTimeZone(),
+    signal?: AbortSignal
   ): Promise<WeatherData[]> {
-    const today = new Date().toISOString().slice(0, 10)
+    // forecast 的 past_days/forecast_days 以地点当地的今天为基准
+    const today = DateUtils.today(timeZone)
     const startDateObj = new Date(startDate)
     const endDateObj = new Date(endDate)
     const todayObj = new Date(today)
@@ -274,8 +331,8 @@ export class WeatherApiService {
     const params: any = {
       latitude,
       longitude,
-      daily: 'temperature_2m_max,temperature_2m_min,precipitation_sum,windspeed_10m_max,winddirection_10m_dominant,cloudcover_mean,weathercode',
-      timezone: 'Asia/Shanghai'
+      daily: FORECAST_DAILY_PARAMS,
+      timezone: timeZone
     }
     
     // 只使用forecast_days和past_days参数，不使用start_date/end_date
@@ -285,7 +342,7 @@ export class WeatherApiService {
     params.forecast_days = forecastDays
 
 
-    const response = await this.makeApiRequest<WeatherApiResponse>(FORECAST_API_URL, params)
+    const response = await this.makeApiRequest<WeatherApiResponse>(FORECAST_API_URL, params, 3, signal)
 
     const daily = response?.daily
     if (!daily || !Array.isArray(daily.time)) {
@@ -330,12 +387,11 @@ export class WeatherApiService {
 
 
 
-      const info = weatherCodes[wcode]
-      if (!info) {
+      if (!(wcode in weatherIcons)) {
         console.warn(`未知天气代码: ${wcode} (日期: ${date})`)
       }
-      const weatherInfo = info || { description: '未知', icon: '❓' }
-      const windDirection = typeof windDirDeg === 'number' ? this.getWindDirection(windDirDeg) : '不详'
+      const weatherInfo = this.getWeatherInfo(wcode)
+      const windDirection = typeof windDirDeg === 'number' ? this.getWindDirection(windDirDeg) : t('wind.unknown')
 
       result.push({
         date,
@@ -344,13 +400,14 @@ export class WeatherApiService {
           max: Math.round(tmax),
           current: Math.round((tmin + tmax) / 2)
         },
-        humidity: 60,
+        ...this.mapExtendedDaily(daily, index),
         windSpeed: Math.round(windSpeed),
         windDirection,
         precipitation: Math.round(precip * 100) / 100,
         cloudCover: Math.round(cloud),
         description: weatherInfo.description,
-        icon: weatherInfo.icon
+        icon: weatherInfo.icon,
+        weatherCode: wcode
       })
     })
 
@@ -363,15 +420,24 @@ export class WeatherApiService {
     latitude: number = 22.5429,
     longitude: number = 114.0596,
     startDate: string,
-    endDate: string
+    endDate: string,
+    timeZone: string = DateUtils.getTimeZone(),
+    signal?: AbortSignal
   ): Promise<WeatherData[]> {
+    // 长范围（数月到一年）分段获取后合并
+    const chunks = DateUtils.splitDateRange(startDate, endDate, MAX_REQUEST_DAYS)
+    if (chunks.length > 1) {
+      const results: WeatherData[] = []
+      for (const chunk of chunks) {
+        results.push(...await this.getHistoricalWeather(latitude, longitude, chunk.start, chunk.end, timeZone, signal))
+      }
+      return results
+    }
 
-    
-    const archiveMaxDate = '2025-09-09' // Archive API的最大支持日期
-    
     try {
       let archiveData: WeatherData[] = []
       let missingDates: string[] = []
+      const archiveMaxDate = await this.resolveArchiveMaxDate(latitude, longitude, endDate, timeZone, signal)
       
       // 1. 判断是否需要调用archive接口
       if (startDate <= archiveMaxDate) {
@@ -380,7 +446,7 @@ export class WeatherApiService {
         
 
         const archiveResult = await this.getArchiveWeather(
-          latitude, longitude, startDate, archiveEndDate
+          latitude, longitude, startDate, archiveEndDate, 'archive', timeZone, signal
         )
         archiveData = archiveResult.data
         missingDates = archiveResult.missingDates
@@ -388,102 +454,308 @@ export class WeatherApiService {
 
       }
       
-      // 2. 处理超出archive范围的日期（未来日期）
-      const futureStartDate = new Date(archiveMaxDate)
-      futureStartDate.setDate(futureStartDate.getDate() + 1)
-      const futureStartDateStr = futureStartDate.toISOString().slice(0, 10)
+      // 2. 处理超出archive范围的日期（最近几天与未来日期）
+      const afterArchiveDateStr = DateUtils.addDays(archiveMaxDate, 1)
       
       if (endDate > archiveMaxDate) {
-        const futureEndDate = endDate
-        const futureDateRange = this.generateDateRange(
-          startDate > futureStartDateStr ? startDate : futureStartDateStr,
-          futureEndDate
+        const afterArchiveRange = this.generateDateRange(
+          startDate > afterArchiveDateStr ? startDate : afterArchiveDateStr,
+          endDate
         )
         
 
-        missingDates.push(...futureDateRange)
+        missingDates.push(...afterArchiveRange)
       }
       
-      // 3. 如果有缺失日期，通过forecast接口补缺
+      // 3. 如果有缺失日期：过去的日期走 historical-forecast，今天及以后走 forecast
       let forecastData: WeatherData[] = []
       if (missingDates.length > 0) {
+        const today = DateUtils.today(timeZone)
+        const yesterday = DateUtils.addDays(today, -1)
 
-        
         // 将连续的缺失日期分组，减少API调用次数
         const dateRanges = this.groupConsecutiveDates(missingDates)
         
         for (const range of dateRanges) {
-          try {
-            const rangeData = await this.getForecastWeather(
-              latitude, longitude, range.start, range.end
+          if (range.start < today) {
+            const pastEnd = range.end < today ? range.end : yesterday
+            const pastResult = await this.getArchiveWeather(
+              latitude, longitude, range.start, pastEnd, 'historical-forecast', timeZone, signal
             )
-            forecastData.push(...rangeData)
+            forecastData.push(...pastResult.data)
+
+            // historical-forecast 也缺失的日期，最后再尝试 forecast 的 past_days
+            for (const gap of this.groupConsecutiveDates(pastResult.missingDates)) {
+              try {
+                forecastData.push(...await this.getForecastWeather(latitude, longitude, gap.start, gap.end, timeZone, signal))
+              } catch (error) {
+                if (AbortUtils.isAbortError(error)) throw error
+                console.warn(`补缺日期范围 ${gap.start} 到 ${gap.end} 失败:`, error)
+              }
+            }
+          }
 
-          } catch (error) {
-            console.warn(`补缺日期范围 ${range.start} 到 ${range.end} 失败:`, error)
+          if (range.end >= today) {
+            const futureStart = range.start >= today ? range.start : today
+            try {
+              const rangeData = await this.getForecastWeather(
+                latitude, longitude, futureStart, range.end, timeZone, signal
+              )
+              forecastData.push(...rangeData)
+
+            } catch (error) {
+              if (AbortUtils.isAbortError(error)) throw error
+              console.warn(`补缺日期范围 ${futureStart} 到 ${range.end} 失败:`, error)
+            }
           }
         }
       }
       
       // 4. 合并数据并生成完整结果
       const allData = [...archiveData, ...forecastData]
-      const completeData = this.generateCompleteWeatherData(startDate, endDate, allData)
+      const completeData = this.generateCompleteWeatherData(startDate, endDate, allData, timeZone)
       
 
       return completeData
       
     } catch (error) {
+      if (AbortUtils.isAbortError(error)) throw error
       console.error('获取天气数据失败:', error)
       // 即使完全失败，也返回占位数据
-      return this.generateCompleteWeatherData(startDate, endDate, [])
+      return this.generateCompleteWeatherData(startDate, endDate, [], timeZone)
+    }
+  }
+
+  // 根据地点当地的今天推算 archive 的最大可用日期
+  static getEstimatedArchiveMaxDate(timeZone: string = DateUtils.getTimeZone()): string {
+    return DateUtils.addDays(DateUtils.today(timeZone), -ARCHIVE_LAG_DAYS)
+  }
+
+  // 读取之前探测并记住的 archive 边界（过期则忽略）；边界日期按地点当地日期计算，因此按时区分别保存
+  private static getRememberedArchiveMaxDate(timeZone: string): string | null {
+    const saved = this.readArchiveBoundaries()[timeZone]
+    if (!saved?.date || typeof saved.checkedAt !== 'number') return null
+    if (Date.now() - saved.checkedAt > ARCHIVE_BOUNDARY_TTL) return null
+    return saved.date
+  }
+
+  private static rememberArchiveMaxDate(timeZone: string, date: string): void {
+    const boundaries = this.readArchiveBoundaries()
+    // 顺便清掉过期的时区，避免记录越积越多
+    Object.keys(boundaries).forEach(zone => {
+      if (Date.now() - (boundaries[zone]?.checkedAt || 0) > ARCHIVE_BOUNDARY_TTL) delete boundaries[zone]
+    })
+    boundaries[timeZone] = { date, checkedAt: Date.now() }
+    try {
+      localStorage.setItem(ARCHIVE_BOUNDARY_STORAGE_KEY, JSON.stringify(boundaries))
+    } catch {
+      // 存储不可用时只在本次会话内使用推算值
+    }
+  }
+
+  private static readArchiveBoundaries(): Record<string, { date?: string; checkedAt?: number }> {
+    try {
+      const raw = localStorage.getItem(ARCHIVE_BOUNDARY_STORAGE_KEY)
+      const saved = raw ? JSON.parse(raw) : null
+      // 旧版本保存的是单个 { date, checkedAt }，没有时区信息，直接丢弃
+      if (!saved || typeof saved !== 'object' || 'date' in saved) return {}
+      return saved
+    } catch {
+      return {}
+    }
+  }
+
+  // 探测 archive 实际可用的最后日期：请求最近两周，取最后一个有温度的日期
+  private static async probeArchiveMaxDate(
+    latitude: number,
+    longitude: number,
+    timeZone: string
+  ): Promise<string | null> {
+    const today = DateUtils.today(timeZone)
+
+    try {
+      const response = await this.makeApiRequest<WeatherApiResponse>(ARCHIVE_API_URL, {
+        latitude,
+        longitude,
+        start_date: DateUtils.addDays(today, -14),
+        end_date: DateUtils.addDays(today, -1),
+        daily: 'temperature_2m_max',
+        timezone: timeZone
+      }, 1)
+
+      const daily = response?.daily
+      if (!daily || !Array.isArray(daily.time)) return null
+
+      for (let i = daily.time.length - 1; i >= 0; i--) {
+        const tmax = daily.temperature_2m_max?.[i]
+        if (typeof tmax === 'number' && !isNaN(tmax)) {
+          return daily.time[i]
+        }
+      }
+      return null
+    } catch (error) {
+      console.warn('探测archive边界失败，使用推算值:', error)
+      return null
+    }
+  }
+
+  // 获取 archive 边界：优先使用记住的探测结果；请求范围越过推算边界时才探测
+  // 同一时区的探测由并发请求共享，取消时只放弃等待，不中断探测本身
+  private static async resolveArchiveMaxDate(
+    latitude: number,
+    longitude: number,
+    requestEndDate: string,
+    timeZone: string,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const remembered = this.getRememberedArchiveMaxDate(timeZone)
+    if (remembered) return remembered
+
+    const estimated = this.getEstimatedArchiveMaxDate(timeZone)
+    // 请求的日期都早于推算边界，无需探测
+    if (requestEndDate <= estimated) return estimated
+
+    let probe = this.archiveProbes.get(timeZone)
+    if (!probe) {
+      probe = this.probeArchiveMaxDate(latitude, longitude, timeZone).finally(() => {
+        this.archiveProbes.delete(timeZone)
+      })
+      this.archiveProbes.set(timeZone, probe)
+    }
+    const probed = await AbortUtils.race(probe, signal)
+    if (probed) {
+      this.rememberArchiveMaxDate(timeZone, probed)
+      return probed
     }
+    return estimated
+  }
+
+  // 根据坐标获取地点的 IANA 时区（forecast 接口 timezone=auto 会返回解析后的时区）
+  static async resolveTimeZone(latitude: number, longitude: number): Promise<string> {
+    try {
+      const response = await this.makeApiRequest<{ timezone?: string }>(FORECAST_API_URL, {
+        latitude,
+        longitude,
+        daily: 'weathercode',
+        forecast_days: 1,
+        timezone: 'auto'
+      }, 1)
+      if (response?.timezone && DateUtils.isValidTimeZone(response.timezone)) {
+        return response.timezone
+      }
+    } catch (error) {
+      console.warn('获取地点时区失败，使用浏览器时区:', error)
+    }
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIME_ZONE
   }
 
   // 获取实时天气（用于今天的补充信息）
   static async getCurrentWeather(
     latitude: number = 22.5429,
-    longitude: number = 114.0596
+    longitude: number = 114.0596,
+    timeZone: string = DateUtils.getTimeZone(),
+    signal?: AbortSignal
   ): Promise<Partial<WeatherData> | null> {
     try {
       const response = await this.makeApiRequest<any>(FORECAST_API_URL, {
         latitude,
         longitude,
         current_weather: true,
-        timezone: 'Asia/Shanghai'
-      })
+        timezone: timeZone
+      }, 3, signal)
       
       const cw = response?.current_weather
       if (!cw) return null
       
-      const info = weatherCodes[cw.weathercode]
-      if (!info) {
+      if (!(cw.weathercode in weatherIcons)) {
         console.warn(`未知天气代码: ${cw.weathercode} (实时天气)`)
       }
-      const weatherInfo = info || { description: '未知', icon: '❓' }
+      const weatherInfo = this.getWeatherInfo(cw.weathercode)
       return {
         date: String(cw.time).slice(0, 10),
         temperature: { current: Math.round(cw.temperature), min: 0, max: 0 },
         windSpeed: Math.round(cw.windspeed),
         windDirection: this.getWindDirection(cw.winddirection),
+        windDirectionDegrees: Math.round(cw.winddirection),
         description: weatherInfo.description,
-        icon: weatherInfo.icon
+        icon: weatherInfo.icon,
+        weatherCode: cw.weathercode
       }
     } catch (e) {
+      if (AbortUtils.isAbortError(e)) throw e
       console.warn('实时天气获取失败', e)
       return null
     }
   }
 
+  // 获取指定日期的逐小时天气（温度、降水、云量、风）
+  static async getHourlyWeather(
+    latitude: number = 22.5429,
+    longitude: number = 114.0596,
+    date: string,
+    timeZone: string = DateUtils.getTimeZone(),
+    signal?: AbortSignal
+  ): Promise<HourlyWeather[]> {
+    // 与日数据一致：archive 覆盖范围内走 archive，之后的过去日期走 historical-forecast，今天起走 forecast
+    const today = DateUtils.today(timeZone)
+    const archiveMaxDate = await this.resolveArchiveMaxDate(latitude, longitude, date, timeZone, signal)
+    const url = date <= archiveMaxDate
+      ? ARCHIVE_API_URL
+      : date < today ? HISTORICAL_FORECAST_API_URL : FORECAST_API_URL
+    const response = await this.makeApiRequest<HourlyApiResponse>(url, {
+      latitude,
+      longitude,
+      start_date: date,
+      end_date: date,
+      hourly: 'temperature_2m,precipitation,cloudcover,windspeed_10m,winddirection_10m,weathercode',
+      timezone: timeZone
+    }, 3, signal)
+
+    const hourly = response?.hourly
+    if (!hourly || !Array.isArray(hourly.time)) {
+      throw new Error('逐小时数据格式异常')
+    }
+
+    const result: HourlyWeather[] = []
+    hourly.time.forEach((time, index) => {
+      if (!time.startsWith(date)) return
+
+      const temp = hourly.temperature_2m?.[index]
+      if (typeof temp !== 'number' || isNaN(temp)) return
+
+      const windDirDeg = hourly.winddirection_10m?.[index]
+      const wcode = hourly.weathercode?.[index] ?? 0
+      const weatherInfo = this.getWeatherInfo(wcode)
+
+      result.push({
+        time,
+        hour: Number(time.slice(11, 13)),
+        temperature: Math.round(temp * 10) / 10,
+        precipitation: Math.round((hourly.precipitation?.[index] ?? 0) * 100) / 100,
+        cloudCover: Math.round(hourly.cloudcover?.[index] ?? 0),
+        windSpeed: Math.round(hourly.windspeed_10m?.[index] ?? 0),
+        windDirection: typeof windDirDeg === 'number' ? this.getWindDirection(windDirDeg) : t('wind.unknown'),
+        description: weatherInfo.description,
+        icon: weatherInfo.icon,
+        weatherCode: wcode
+      })
+    })
+
+    return result
+  }
+
   // 获取最近几天的完整天气数据（包括今天和未来几天）
   static async getRecentWeather(
     latitude: number = 22.5429,
     longitude: number = 114.0596,
-    days: number = 7
+    days: number = 7,
+    timeZone: string = DateUtils.getTimeZone(),
+    signal?: AbortSignal
   ): Promise<WeatherData[]> {
-    const today = new Date().toISOString().slice(0, 10)
-    const endDate = new Date(Date.now() + (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+    const today = DateUtils.today(timeZone)
+    const endDate = DateUtils.addDays(today, days - 1)
     
-    return this.getForecastWeather(latitude, longitude, today, endDate)
+    return this.getForecastWeather(latitude, longitude, today, endDate, timeZone, signal)
   }
 
   // 增强版获取天气数据 - 主要保持向后兼容
@@ -491,10 +763,11 @@ export class WeatherApiService {
     latitude: number = 22.5429,
     longitude: number = 114.0596,
     startDate: string,
-    endDate: string
+    endDate: string,
+    timeZone: string = DateUtils.getTimeZone()
   ): Promise<WeatherData[]> {
     // 直接使用优化后的主方法
-    return this.getHistoricalWeather(latitude, longitude, startDate, endDate)
+    return this.getHistoricalWeather(latitude, longitude, startDate, endDate, timeZone)
   }
 
   // 工具方法：生成日期范围
@@ -545,11 +818,12 @@ export class WeatherApiService {
   private static generateCompleteWeatherData(
     startDate: string,
     endDate: string,
-    availableData: WeatherData[]
+    availableData: WeatherData[],
+    timeZone: string
   ): WeatherData[] {
     const result: WeatherData[] = []
     const dataMap = new Map<string, WeatherData>()
-    const today = new Date().toISOString().slice(0, 10)
+    const today = DateUtils.today(timeZone)
     
     // 创建可用数据的映射
     availableData.forEach(item => {
@@ -577,21 +851,20 @@ export class WeatherApiService {
     const isToday = date === today
     const isFuture = date > today
     
-    let description = '数据缺失'
+    let description = t('placeholder.missing')
     if (isPast) {
-      description = '历史数据缺失'
+      description = t('placeholder.missingPast')
     } else if (isToday) {
-      description = '实时数据缺失'
+      description = t('placeholder.missingToday')
     } else if (isFuture) {
-      description = '预报数据缺失'
+      description = t('placeholder.missingFuture')
     }
     
     return {
       date,
       temperature: { min: 0, max: 0, current: 0 },
-      humidity: 0,
       windSpeed: 0,
-      windDirection: '未知',
+      windDirection: t('weather.unknown'),
       precipitation: 0,
       cloudCover: 0,
       description,
@@ -602,17 +875,80 @@ export class WeatherApiService {
 
 
 
-  // 根据角度计算风向
-  private static getWindDirection(angle: number): string {
-    if (angle >= 337.5 || angle < 22.5) return '北风'
-    if (angle >= 22.5 && angle < 67.5) return '东北风'
-    if (angle >= 67.5 && angle < 112.5) return '东风'
-    if (angle >= 112.5 && angle < 157.5) return '东南风'
-    if (angle >= 157.5 && angle < 202.5) return '南风'
-    if (angle >= 202.5 && angle < 247.5) return '西南风'
-    if (angle >= 247.5 && angle < 292.5) return '西风'
-    if (angle >= 292.5 && angle < 337.5) return '西北风'
-    return '北风'
+  // 映射湿度、体感温度、紫外线、气压、日出日落、风向角度和阵风（缺失的字段不设置）
+  private static mapExtendedDaily(
+    daily: WeatherApiResponse['daily'],
+    index: number
+  ): Pick<WeatherData, ExtendedDailyField> {
+    const isNum = (v: unknown): v is number => typeof v === 'number' && !isNaN(v)
+    const rh = daily.relative_humidity_2m_mean?.[index]
+    const atMax = daily.apparent_temperature_max?.[index]
+    const atMin = daily.apparent_temperature_min?.[index]
+    const uv = daily.uv_index_max?.[index]
+    const pressure = daily.pressure_msl_mean?.[index]
+    const sunrise = daily.sunrise?.[index]
+    const sunset = daily.sunset?.[index]
+    const windDir = daily.winddirection_10m_dominant?.[index]
+    const gusts = daily.windgusts_10m_max?.[index]
+
+    const result: Pick<WeatherData, ExtendedDailyField> = {}
+    if (isNum(rh)) result.humidity = Math.round(rh)
+    if (isNum(atMax) && isNum(atMin)) {
+      result.apparentTemperature = { min: Math.round(atMin), max: Math.round(atMax) }
+    }
+    if (isNum(uv)) result.uvIndex = Math.round(uv * 10) / 10
+    if (isNum(pressure)) result.pressure = Math.round(pressure)
+    // Open-Meteo 返回 YYYY-MM-DDTHH:mm，只保留时分
+    if (sunrise) result.sunrise = String(sunrise).slice(11, 16)
+    if (sunset) result.sunset = String(sunset).slice(11, 16)
+    if (isNum(windDir)) result.windDirectionDegrees = Math.round(windDir)
+    if (isNum(gusts)) result.windGusts = Math.round(gusts)
+    return result
+  }
+
+  // 根据天气代码获取描述和图标
+  static getWeatherInfo(code: number): { description: string; icon: string } {
+    if (!(code in weatherIcons)) return { description: t('weather.unknown'), icon: '❓' }
+    return { description: t(`weatherCodes.${code}`), icon: weatherIcons[code] }
+  }
+
+  // 按当前语言显示天气描述：优先用天气代码，旧缓存没有代码时把已保存的描述映射回代码
+  static describe(weather: { weatherCode?: number; description?: string }): string {
+    if (typeof weather.weatherCode === 'number' && weather.weatherCode in weatherIcons) {
+      return t(`weatherCodes.${weather.weatherCode}`)
+    }
+    const description = weather.description || ''
+    const code = description ? findMessageKey('weatherCodes', description) : null
+    return code !== null ? t(`weatherCodes.${code}`) : description || t('weather.unknownWeather')
+  }
+
+  // 根据角度计算风向（八方位，按当前语言）
+  static getWindDirection(angle: number): string {
+    const index = Math.round((((angle % 360) + 360) % 360) / 45) % 8
+    return tm('wind.directions')[index]
+  }
+
+  // 把已保存的风向文字（可能是其他语言）转换为当前语言
+  static localizeWindDirection(direction: string | undefined): string {
+    if (!direction) return ''
+    for (const locale of LOCALE_OPTIONS) {
+      const index = tmIn(locale.value, 'wind.directions').indexOf(direction)
+      if (index !== -1) return tm('wind.directions')[index]
+      if (tmIn<string>(locale.value, 'wind.unknown') === direction) return t('wind.unknown')
+    }
+    return direction
+  }
+
+  // 风向角度：优先用保存的角度，旧缓存只有风向文字时按八方位换算（无法识别时返回 null）
+  static getWindDirectionDegrees(weather: { windDirection?: string; windDirectionDegrees?: number }): number | null {
+    if (typeof weather.windDirectionDegrees === 'number') return weather.windDirectionDegrees
+    const direction = weather.windDirection
+    if (!direction) return null
+    for (const locale of LOCALE_OPTIONS) {
+      const index = tmIn(locale.value, 'wind.directions').indexOf(direction)
+      if (index !== -1) return index * 45
+    }
+    return null
   }
 
   // 获取当前位置（使用增强的LocationHelper）
@@ -629,10 +965,10 @@ export class WeatherApiService {
         longitude: locationResult.longitude
       }
     } catch (error) {
-      // 最后的兜底方案：直接返回深圳坐标
-      const defaultLocation = { latitude: 22.5429, longitude: 114.0596 }
+      // 最后的兜底方案：返回默认位置（"家"或深圳）
+      const { latitude, longitude } = savedLocationService.getDefaultLocation()
       
-      return defaultLocation
+      return { latitude, longitude }
     }
   }
 }
@@ -1,9 +1,16 @@
+import type { WeatherProvider } from '../types/weather';
+
 export declare class WeatherService {
   constructor();
-  getCurrentWeather(latitude: number, longitude: number, forceRefresh?: boolean): Promise<any>;
-  getForecast(latitude: number, longitude: number, days?: number, forceRefresh?: boolean): Promise<any>;
-  getHistoricalWeather(latitude: number, longitude: number, startDate: string, endDate: string, forceRefresh?: boolean): Promise<any>;
-  getWeatherForDateRange(latitude: number, longitude: number, startDate: string, endDate: string, forceRefresh?: boolean): Promise<any>;
+  getProvider(): WeatherProvider;
+  getAvailableProviders(): WeatherProvider[];
+  setProvider(id: string): void;
+  getCurrentWeather(latitude: number, longitude: number, forceRefresh?: boolean, signal?: AbortSignal): Promise<any>;
+  getForecast(latitude: number, longitude: number, days?: number, forceRefresh?: boolean, signal?: AbortSignal): Promise<any>;
+  getHistoricalWeather(latitude: number, longitude: number, startDate: string, endDate: string, forceRefresh?: boolean, timeZone?: string, signal?: AbortSignal): Promise<any>;
+  getWeatherForDateRange(latitude: number, longitude: number, startDate: string, endDate: string, forceRefresh?: boolean, signal?: AbortSignal): Promise<any>;
+  getHourlyWeather(latitude: number, longitude: number, date: string, forceRefresh?: boolean, signal?: AbortSignal): Promise<any>;
+  getAirQuality(latitude: number, longitude: number, startDate: string, endDate: string, forceRefresh?: boolean): Promise<any>;
   clearWeatherCache(): void;
   refreshWeatherData(type: string, ...args: any[]): Promise<any>;
 }
@@ -1,31 +1,89 @@
 // 优化的天气服务
-import { WeatherApiService } from './weatherApi'
+import { openMeteoProvider } from './openMeteoProvider'
+import { fixtureWeatherProvider } from './fixtureWeatherProvider'
+import { AirQualityApiService } from './airQualityApi'
 import { cacheService } from './cacheService'
-import type { WeatherData } from '../types/weather'
+import { forecastAccuracyService } from './forecastAccuracyService'
+import { DateUtils } from '../utils/dateUtils'
+import { AbortUtils } from '../utils/abortUtils'
+import type { WeatherData, HourlyWeather, WeatherProvider, AirQualityData } from '../types/weather'
+
+// 用户选择的数据源保存在本地，优先于环境变量 VITE_WEATHER_PROVIDER
+const PROVIDER_STORAGE_KEY = 'weather_provider'
+
+// 超过该天数的范围按自然月分段获取和缓存，调整范围或加载更多时可复用已缓存的月份
+const LONG_RANGE_DAYS = 31
+// 分段获取的并发数，避免长范围一次发出过多请求
+const CHUNK_CONCURRENCY = 2
+
+const providers: Record<string, WeatherProvider> = {
+  [openMeteoProvider.id]: openMeteoProvider,
+  [fixtureWeatherProvider.id]: fixtureWeatherProvider
+}
+
+function resolveInitialProvider(): WeatherProvider {
+  let id: string | null = null
+  try {
+    id = localStorage.getItem(PROVIDER_STORAGE_KEY)
+  } catch {
+    // 存储不可用时使用环境变量
+  }
+  id = id || import.meta.env.VITE_WEATHER_PROVIDER || null
+  return (id && providers[id]) || openMeteoProvider
+}
 
 class WeatherService {
   private defaultTTL: number
   private forecastTTL: number
+  private provider: WeatherProvider
 
   constructor() {
     this.defaultTTL = 300000 // 5分钟缓存
     this.forecastTTL = 1800000 // 30分钟缓存（预报数据更新较慢）
+    this.provider = resolveInitialProvider()
+  }
+
+  getProvider(): WeatherProvider {
+    return this.provider
+  }
+
+  getAvailableProviders(): WeatherProvider[] {
+    return Object.values(providers)
+  }
+
+  // 切换数据源：清空内存缓存并通知界面重新加载
+  setProvider(id: string): void {
+    const next = providers[id]
+    if (!next) {
+      throw new Error(`未知的天气数据源: ${id}`)
+    }
+    if (next === this.provider) return
+    this.provider = next
+    try {
+      localStorage.setItem(PROVIDER_STORAGE_KEY, id)
+    } catch {
+      // 存储不可用时仅本次会话生效
+    }
+    this.clearWeatherCache()
+    window.dispatchEvent(new CustomEvent('weather:provider:changed', { detail: { id } }))
   }
 
-  async getCurrentWeather(latitude: number, longitude: number, forceRefresh: boolean = false): Promise<any> {
-    const key = cacheService.generateKey('current_weather', { latitude, longitude })
+  // signal 取消后以 AbortError 结束，不回退到缓存
+  async getCurrentWeather(latitude: number, longitude: number, forceRefresh: boolean = false, signal?: AbortSignal): Promise<any> {
+    const key = cacheService.generateKey('current_weather', { provider: this.provider.id, latitude, longitude })
     
     if (!forceRefresh && cacheService.has(key)) {
       return cacheService.get(key)
     }
 
     try {
-      const data = await WeatherApiService.getCurrentWeather(latitude, longitude)
+      const data = await this.provider.getCurrent(latitude, longitude, signal)
       if (data) {
         cacheService.set(key, data, this.defaultTTL)
       }
       return data
     } catch (error) {
+      if (AbortUtils.isAbortError(error)) throw error
       console.error('获取当前天气失败:', error)
       // 如果有缓存数据，即使过期也返回
       const cachedData = cacheService.get(key)
@@ -36,20 +94,22 @@ class WeatherService {
     }
   }
 
-  async getForecast(latitude: number, longitude: number, days: number = 7, forceRefresh: boolean = false): Promise<WeatherData[]> {
-    const key = cacheService.generateKey('forecast', { latitude, longitude, days })
+  async getForecast(latitude: number, longitude: number, days: number = 7, forceRefresh: boolean = false, signal?: AbortSignal): Promise<WeatherData[]> {
+    const key = cacheService.generateKey('forecast', { provider: this.provider.id, latitude, longitude, days })
     
     if (!forceRefresh && cacheService.has(key)) {
       return cacheService.get<WeatherData[]>(key) || []
     }
 
     try {
-      const data = await WeatherApiService.getRecentWeather(latitude, longitude, days)
+      const data = await this.provider.getForecast(latitude, longitude, days, signal)
       if (data) {
         cacheService.set(key, data, this.forecastTTL)
+        this.recordForecast(latitude, longitude, data)
       }
       return data || []
     } catch (error) {
+      if (AbortUtils.isAbortError(error)) throw error
       console.error('获取预报数据失败:', error)
       const cachedData = cacheService.get<WeatherData[]>(key)
       if (cachedData) {
@@ -59,20 +119,28 @@ class WeatherService {
     }
   }
 
-  async getHistoricalWeather(latitude: number, longitude: number, startDate: string, endDate: string, forceRefresh: boolean = false): Promise<WeatherData[]> {
-    const key = cacheService.generateKey('historical', { latitude, longitude, startDate, endDate })
+  // timeZone 用于非当前地点（如多城市对比），按该地点的当地日期划分
+  async getHistoricalWeather(latitude: number, longitude: number, startDate: string, endDate: string, forceRefresh: boolean = false, timeZone: string = DateUtils.getTimeZone(), signal?: AbortSignal): Promise<WeatherData[]> {
+    if (DateUtils.generateDateRange(startDate, endDate).length > LONG_RANGE_DAYS) {
+      return this.fetchByMonth(startDate, endDate, (start, end) =>
+        this.getHistoricalWeather(latitude, longitude, start, end, forceRefresh, timeZone, signal), signal)
+    }
+
+    const key = cacheService.generateKey('historical', { provider: this.provider.id, latitude, longitude, startDate, endDate, timeZone })
     
     if (!forceRefresh && cacheService.has(key)) {
       return cacheService.get<WeatherData[]>(key) || []
     }
 
     try {
-      const data = await WeatherApiService.getHistoricalWeather(latitude, longitude, startDate, endDate)
+      const data = await this.provider.getDailyRange(latitude, longitude, startDate, endDate, timeZone, signal)
       if (data) {
         cacheService.set(key, data, this.forecastTTL) // 历史数据缓存时间长一些
+        this.recordForecast(latitude, longitude, data, timeZone)
       }
       return data || []
     } catch (error) {
+      if (AbortUtils.isAbortError(error)) throw error
       console.error('获取历史天气失败:', error)
       const cachedData = cacheService.get<WeatherData[]>(key)
       if (cachedData) {
@@ -82,20 +150,29 @@ class WeatherService {
     }
   }
 
-  async getWeatherForDateRange(latitude: number, longitude: number, startDate: string, endDate: string, forceRefresh: boolean = false): Promise<WeatherData[]> {
-    const key = cacheService.generateKey('date_range', { latitude, longitude, startDate, endDate })
+  async getWeatherForDateRange(latitude: number, longitude: number, startDate: string, endDate: string, forceRefresh: boolean = false, signal?: AbortSignal): Promise<WeatherData[]> {
+    if (DateUtils.generateDateRange(startDate, endDate).length > LONG_RANGE_DAYS) {
+      return this.fetchByMonth(startDate, endDate, (start, end) =>
+        this.getWeatherForDateRange(latitude, longitude, start, end, forceRefresh, signal), signal)
+    }
+
+    // 日期划分取决于时区，同一坐标在不同时区下的结果不能共用缓存
+    const timeZone = DateUtils.getTimeZone()
+    const key = cacheService.generateKey('date_range', { provider: this.provider.id, latitude, longitude, startDate, endDate, timeZone })
     
     if (!forceRefresh && cacheService.has(key)) {
       return cacheService.get<WeatherData[]>(key) || []
     }
 
     try {
-      const data = await WeatherApiService.getEnhancedWeatherData(latitude, longitude, startDate, endDate)
+      const data = await this.provider.getDailyRange(latitude, longitude, startDate, endDate, timeZone, signal)
       if (data) {
         cacheService.set(key, data, this.forecastTTL)
+        this.recordForecast(latitude, longitude, data, timeZone)
       }
       return data || []
     } catch (error) {
+      if (AbortUtils.isAbortError(error)) throw error
       console.error('获取日期范围天气失败:', error)
       const cachedData = cacheService.get<WeatherData[]>(key)
       if (cachedData) {
@@ -105,11 +182,92 @@ class WeatherService {
     }
   }
 
+  async getHourlyWeather(latitude: number, longitude: number, date: string, forceRefresh: boolean = false, signal?: AbortSignal): Promise<HourlyWeather[]> {
+    const key = cacheService.generateKey('hourly', { provider: this.provider.id, latitude, longitude, date })
+    
+    if (!forceRefresh && cacheService.has(key)) {
+      return cacheService.get<HourlyWeather[]>(key) || []
+    }
+
+    try {
+      const data = await this.provider.getHourly(latitude, longitude, date, signal)
+      if (data) {
+        cacheService.set(key, data, this.forecastTTL)
+      }
+      return data || []
+    } catch (error) {
+      if (AbortUtils.isAbortError(error)) throw error
+      console.error('获取逐小时天气失败:', error)
+      const cachedData = cacheService.get<HourlyWeather[]>(key)
+      if (cachedData) {
+        return cachedData
+      }
+      throw error
+    }
+  }
+
+  // 空气质量不属于天气数据源，始终来自 Open-Meteo 空气质量接口
+  async getAirQuality(latitude: number, longitude: number, startDate: string, endDate: string, forceRefresh: boolean = false): Promise<AirQualityData[]> {
+    const key = cacheService.generateKey('air_quality', { latitude, longitude, startDate, endDate })
+    
+    if (!forceRefresh && cacheService.has(key)) {
+      return cacheService.get<AirQualityData[]>(key) || []
+    }
+
+    try {
+      const data = await AirQualityApiService.getDailyAirQuality(latitude, longitude, startDate, endDate)
+      if (data) {
+        cacheService.set(key, data, this.forecastTTL)
+      }
+      return data || []
+    } catch (error) {
+      console.error('获取空气质量失败:', error)
+      const cachedData = cacheService.get<AirQualityData[]>(key)
+      if (cachedData) {
+        return cachedData
+      }
+      throw error
+    }
+  }
+
+  // 只记录真实预报的快照（离线样例数据不参与准确率统计）
+  private recordForecast(latitude: number, longitude: number, data: WeatherData[], timeZone?: string): void {
+    if (!this.provider.requiresNetwork) return
+    try {
+      forecastAccuracyService.record(latitude, longitude, data, timeZone)
+    } catch (error) {
+      console.warn('记录预报快照失败:', error)
+    }
+  }
+
+  // 按自然月分段获取，限制并发，结果按日期顺序合并；取消后不再发起剩余分段
+  private async fetchByMonth(
+    startDate: string,
+    endDate: string,
+    fetchChunk: (start: string, end: string) => Promise<WeatherData[]>,
+    signal?: AbortSignal
+  ): Promise<WeatherData[]> {
+    const chunks = DateUtils.splitByMonth(startDate, endDate)
+    const results: WeatherData[][] = new Array(chunks.length)
+    let next = 0
+    const worker = async () => {
+      while (next < chunks.length) {
+        AbortUtils.throwIfAborted(signal)
+        const index = next++
+        results[index] = await fetchChunk(chunks[index].start, chunks[index].end)
+      }
+    }
+    await Promise.all(Array.from({ length: Math.min(CHUNK_CONCURRENCY, chunks.length) }, worker))
+    return results.flat()
+  }
+
   clearWeatherCache(): void {
     cacheService.invalidateByType('current_weather')
     cacheService.invalidateByType('forecast')
     cacheService.invalidateByType('historical')
     cacheService.invalidateByType('date_range')
+    cacheService.invalidateByType('hourly')
+    cacheService.invalidateByType('air_quality')
   }
 
   async refreshWeatherData(type: string, ...args: any[]): Promise<any> {
@@ -122,6 +280,10 @@ class WeatherService {
         return this.getHistoricalWeather(args[0], args[1], args[2], args[3], true)
       case 'dateRange':
         return this.getWeatherForDateRange(args[0], args[1], args[2], args[3], true)
+      case 'hourly':
+        return this.getHourlyWeather(args[0], args[1], args[2], true)
+      case 'airQuality':
+        return this.getAirQuality(args[0], args[1], args[2], args[3], true)
       default:
         throw new Error(`未知的天气数据类型: ${type}`)
     }
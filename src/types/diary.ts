@@ -1,21 +1,66 @@
 export interface DiaryData {
   id?: string
   date: string
+  // 条目时间（HH:mm），同一天可以有多条日记，按时间排列；旧数据没有时间
+  entry_time?: string | null
   content?: string
   mood?: string
   city?: string
   weather_data: any
   images?: string[]
   videos?: string[]
+  // 用户自定义标签，可在顶部按标签筛选卡片
+  tags?: string[]
   created_at?: string
   updated_at?: string
 }
 
+// 日记修订记录：每次保存、删除或恢复都保存一份条目快照，可对比和恢复
+export type DiaryRevisionAction = 'create' | 'update' | 'delete' | 'restore'
+
+export interface DiaryRevision {
+  id: string
+  diary_id: string
+  date: string
+  entry_time?: string | null
+  content?: string
+  mood?: string
+  city?: string
+  weather_data?: any
+  images?: string[]
+  videos?: string[]
+  tags?: string[]
+  action: DiaryRevisionAction
+  created_at: string
+}
+
+// 日记搜索条件：关键词按空白拆成多个词，每个词都要出现在正文、城市或标签中
+export interface DiarySearchQuery {
+  keyword?: string
+  startDate?: string
+  endDate?: string
+  mood?: string
+  city?: string
+  limit?: number
+}
+
+// 备份文件：单独的 JSON，或 ZIP 备份中的 diary-backup.json；version 变化时导入端据此兼容旧格式
+export interface DiaryBackup {
+  format: string
+  version: number
+  exportedAt: string
+  source: 'supabase' | 'indexeddb'
+  diaries: DiaryData[]
+  // 仅 ZIP 备份：媒体原始地址 -> 包内路径
+  media?: Record<string, string>
+}
+
 export interface DiaryServiceInterface {
   getDiaries(limit?: number, forceRefresh?: boolean): Promise<DiaryData[]>
   getDiariesByDateRange(startDate: string, endDate: string, forceRefresh?: boolean): Promise<DiaryData[]>
+  getDiariesByDate(date: string, forceRefresh?: boolean): Promise<DiaryData[]>
   getDiaryByDate(date: string, forceRefresh?: boolean): Promise<DiaryData | null>
   createDiary(diaryData: Omit<DiaryData, 'id' | 'created_at' | 'updated_at'>): Promise<DiaryData>
   updateDiary(id: string, diaryData: Partial<DiaryData>): Promise<DiaryData>
   deleteDiary(id: string): Promise<boolean>
-}
\ No newline at end of file
+}
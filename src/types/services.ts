@@ -1,10 +1,11 @@
 export interface GlobalDataManagerInterface {
   isInitialized: boolean
   currentDateRange: { startDate: string; endDate: string } | null
-  initialize(startDate: string, endDate: string, latitude: number, longitude: number): Promise<void>
-  getDiary(date: string): any
+  initialize(startDate: string, endDate: string, latitude: number, longitude: number, signal?: AbortSignal): Promise<void>
+  getDiaries(date: string): any[]
+  setDiaries(date: string, diaries: any[]): void
   getWeatherList(): any[]
-  refreshDate(date: string): Promise<any>
+  refreshDate(date: string): Promise<any[]>
   clearCache(): void
 }
 
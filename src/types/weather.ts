@@ -5,14 +5,83 @@ export interface WeatherData {
     max: number
     current: number
   }
-  humidity: number
+  humidity?: number // 日均相对湿度 %，接口缺失时为空
+  apparentTemperature?: {
+    min: number
+    max: number
+  }
+  uvIndex?: number
+  pressure?: number // 海平面气压 hPa
+  sunrise?: string // 本地时间 HH:mm
+  sunset?: string
   windSpeed: number
   windDirection: string
+  windDirectionDegrees?: number // 主导风向角度（风的来向，0=北，顺时针）
+  windGusts?: number // 最大阵风 km/h
   precipitation: number
   cloudCover: number
   description: string
   icon: string
+  weatherCode?: number // WMO 天气代码，显示时据此按当前语言取描述
   isPlaceholder?: boolean // 标记是否为占位数据
+  airQuality?: AirQualityData // 空气质量（单独请求后按日期合并）
+  normal?: ClimateNormal // 当天的气候常年值（按地点加载后合并）
+}
+
+// 某个日历日的气候常年值（多年同期平均，°C / mm）
+export interface ClimateNormal {
+  min: number
+  max: number
+  precipitation: number
+}
+
+// 每日空气质量（由逐小时数据聚合）
+export interface AirQualityData {
+  date: string
+  aqi: number // 美国 AQI 日最大值
+  pm2_5: number // 日均 μg/m³
+  pm10: number // 日均 μg/m³
+  ozone: number // 日最大 μg/m³
+  // 花粉日最大值 grains/m³，仅欧洲地区提供
+  pollen?: {
+    alder?: number
+    birch?: number
+    grass?: number
+    mugwort?: number
+    olive?: number
+    ragweed?: number
+  }
+}
+
+// 逐小时天气数据（用于单日时间线）
+export interface HourlyWeather {
+  time: string // 本地时间，格式 YYYY-MM-DDTHH:mm
+  hour: number
+  temperature: number
+  precipitation: number
+  cloudCover: number
+  windSpeed: number
+  windDirection: string
+  description: string
+  icon: string
+  weatherCode?: number
+}
+
+// 天气数据源：weatherService 只依赖此接口，可在 Open-Meteo 与离线样例数据之间切换
+export interface WeatherProvider {
+  readonly id: string
+  readonly name: string
+  // 是否需要网络；离线数据源在断网时也会被调用
+  readonly requiresNetwork: boolean
+  // 以下方法的 signal 用于取消被新请求取代的请求，取消时应以 AbortError 结束
+  // 逐日天气（范围内缺失的日期由数据源自行补占位）；timeZone 缺省为当前查看地点的时区
+  getDailyRange(latitude: number, longitude: number, startDate: string, endDate: string, timeZone?: string, signal?: AbortSignal): Promise<WeatherData[]>
+  // 实时天气
+  getCurrent(latitude: number, longitude: number, signal?: AbortSignal): Promise<Partial<WeatherData> | null>
+  // 从今天起的未来若干天预报
+  getForecast(latitude: number, longitude: number, days: number, signal?: AbortSignal): Promise<WeatherData[]>
+  // 单日逐小时天气
+  getHourly(latitude: number, longitude: number, date: string, signal?: AbortSignal): Promise<HourlyWeather[]>
 }
 
 export interface DateRange {
@@ -27,17 +96,81 @@ export interface WeatherApiResponse {
     temperature_2m_min: number[]
     precipitation_sum: number[]
     windspeed_10m_max: number[]
+    windgusts_10m_max?: number[]
     winddirection_10m_dominant?: number[]
     cloudcover_mean?: number[]
     weathercode?: number[]
+    relative_humidity_2m_mean?: number[]
+    apparent_temperature_max?: number[]
+    apparent_temperature_min?: number[]
+    uv_index_max?: number[]
+    pressure_msl_mean?: number[]
+    sunrise?: string[]
+    sunset?: string[]
   }
   daily_units: {
     temperature_2m_max: string
     temperature_2m_min: string
     precipitation_sum: string
     windspeed_10m_max: string
+    windgusts_10m_max?: string
     winddirection_10m_dominant?: string
     cloudcover_mean?: string
     weathercode?: string
+    relative_humidity_2m_mean?: string
+    apparent_temperature_max?: string
+    apparent_temperature_min?: string
+    uv_index_max?: string
+    pressure_msl_mean?: string
   }
 }
+
+export interface AirQualityApiResponse {
+  hourly: {
+    time: string[]
+    us_aqi?: (number | null)[]
+    pm2_5?: (number | null)[]
+    pm10?: (number | null)[]
+    ozone?: (number | null)[]
+    alder_pollen?: (number | null)[]
+    birch_pollen?: (number | null)[]
+    grass_pollen?: (number | null)[]
+    mugwort_pollen?: (number | null)[]
+    olive_pollen?: (number | null)[]
+    ragweed_pollen?: (number | null)[]
+  }
+}
+
+export interface HourlyApiResponse {
+  hourly: {
+    time: string[]
+    temperature_2m: number[]
+    precipitation?: number[]
+    cloudcover?: number[]
+    windspeed_10m?: number[]
+    winddirection_10m?: number[]
+    weathercode?: number[]
+  }
+}
+
+// 天气预警
+export type WeatherAlertType = 'heatWave' | 'heavyRain' | 'strongWind' | 'temperatureDrop' | 'freezing'
+
+export interface WeatherAlertThresholds {
+  heatTemperature: number // 高温日最高气温 °C
+  heatWaveDays: number // 连续高温天数
+  heavyRain: number // 日降水量 mm
+  strongWind: number // 日最大风速 km/h
+  temperatureDrop: number // 相邻两天最低气温降幅 °C
+  freezingTemperature: number // 最低气温 °C
+}
+
+export interface WeatherAlert {
+  id: string
+  type: WeatherAlertType
+  level: 'warning' | 'danger'
+  title: string
+  message: string
+  dates: string[]
+  isForecast: boolean // 是否涉及今天之后的预报日期
+}
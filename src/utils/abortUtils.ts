@@ -0,0 +1,51 @@
+// 请求取消相关工具：被新请求取代的请求通过 AbortSignal 取消，取消不算失败，不重试也不回退到缓存
+export class AbortUtils {
+  // 是否为取消导致的错误（包括 axios 的 CanceledError）
+  static isAbortError(error: unknown): boolean {
+    const err = error as { name?: string; code?: string } | null
+    return !!err && (err.name === 'AbortError' || err.name === 'CanceledError' || err.code === 'ERR_CANCELED')
+  }
+
+  static createAbortError(): Error {
+    const error = new Error('请求已取消')
+    error.name = 'AbortError'
+    return error
+  }
+
+  // 已取消时抛出取消错误，用于每个 await 之后确认结果仍然需要
+  static throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw this.createAbortError()
+    }
+  }
+
+  // 可被取消的等待（用于重试退避）
+  static sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(this.createAbortError())
+        return
+      }
+      const onAbort = () => {
+        clearTimeout(timer)
+        reject(this.createAbortError())
+      }
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve()
+      }, ms)
+      signal?.addEventListener('abort', onAbort, { once: true })
+    })
+  }
+
+  // 取消时立即以取消错误结束等待；原 Promise 仍会继续执行（用于不支持取消的操作或共享的请求）
+  static race<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return promise
+    if (signal.aborted) return Promise.reject(this.createAbortError())
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(this.createAbortError())
+      signal.addEventListener('abort', onAbort, { once: true })
+      promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort))
+    })
+  }
+}
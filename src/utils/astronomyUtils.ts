@@ -0,0 +1,156 @@
+// 天文数据本地计算：日出日落、民用晨昏蒙影、日长和月相，不依赖网络（离线时同样可用）
+// 太阳位置公式参考 NOAA / suncalc，中纬度地区误差通常在 1-2 分钟内
+import { DateUtils } from './dateUtils'
+import { t } from '../i18n'
+
+export type MoonPhaseKey =
+  | 'new'
+  | 'waxingCrescent'
+  | 'firstQuarter'
+  | 'waxingGibbous'
+  | 'full'
+  | 'waningGibbous'
+  | 'lastQuarter'
+  | 'waningCrescent'
+
+export interface SunTimes {
+  sunrise: string | null // 当地时间 HH:mm；极昼/极夜时为 null
+  sunset: string | null
+  civilDawn: string | null // 民用晨光始（太阳在地平线下 6°）
+  civilDusk: string | null // 民用昏影终
+  dayLengthMinutes: number
+  polar: 'day' | 'night' | null // 极昼 / 极夜
+}
+
+export interface MoonPhase {
+  phase: number // 0-1，0 为新月，0.5 为满月
+  illumination: number // 被照亮的比例 0-1
+  key: MoonPhaseKey
+  emoji: string
+}
+
+export interface AstronomyInfo extends SunTimes {
+  moon: MoonPhase
+}
+
+const RAD = Math.PI / 180
+const DAY_MS = 24 * 60 * 60 * 1000
+const J1970 = 2440588
+const J2000 = 2451545
+const J0 = 0.0009
+// 黄赤交角
+const OBLIQUITY = RAD * 23.4397
+// 日出日落时太阳中心的高度角（含大气折射和太阳视半径）
+const SUNRISE_ALTITUDE = -0.833
+const CIVIL_TWILIGHT_ALTITUDE = -6
+// 平均朔望月长度（天）及参考新月时刻 2000-01-06 18:14 UTC 的儒略日
+const SYNODIC_MONTH = 29.530588853
+const REFERENCE_NEW_MOON = 2451550.26
+
+const MOON_PHASES: { key: MoonPhaseKey; emoji: string }[] = [
+  { key: 'new', emoji: '🌑' },
+  { key: 'waxingCrescent', emoji: '🌒' },
+  { key: 'firstQuarter', emoji: '🌓' },
+  { key: 'waxingGibbous', emoji: '🌔' },
+  { key: 'full', emoji: '🌕' },
+  { key: 'waningGibbous', emoji: '🌖' },
+  { key: 'lastQuarter', emoji: '🌗' },
+  { key: 'waningCrescent', emoji: '🌘' }
+]
+
+export class AstronomyUtils {
+  // 某地某天（当地日期）的日出日落、晨昏蒙影与日长
+  static getSunTimes(date: string, latitude: number, longitude: number, timeZone: string = DateUtils.getTimeZone()): SunTimes {
+    const lw = -longitude * RAD
+    const phi = latitude * RAD
+    const d = AstronomyUtils.toDays(AstronomyUtils.localNoon(date, longitude))
+
+    const n = Math.round(d - J0 - lw / (2 * Math.PI))
+    const ds = J0 + lw / (2 * Math.PI) + n
+    const M = RAD * (357.5291 + 0.98560028 * ds)
+    const C = RAD * (1.9148 * Math.sin(M) + 0.02 * Math.sin(2 * M) + 0.0003 * Math.sin(3 * M))
+    const L = M + C + RAD * 102.9372 + Math.PI
+    const dec = Math.asin(Math.sin(OBLIQUITY) * Math.sin(L))
+    const jNoon = J2000 + ds + 0.0053 * Math.sin(M) - 0.0069 * Math.sin(2 * L)
+
+    // 太阳到达指定高度角时距正午的儒略日偏移；太阳整天都在该高度之上/之下时返回 null
+    const halfArc = (altitude: number): { offset: number | null; cos: number } => {
+      const cos = (Math.sin(altitude * RAD) - Math.sin(phi) * Math.sin(dec)) / (Math.cos(phi) * Math.cos(dec))
+      if (cos < -1 || cos > 1) return { offset: null, cos }
+      return { offset: Math.acos(cos) / (2 * Math.PI), cos }
+    }
+
+    const format = (julian: number | null) =>
+      julian === null ? null : AstronomyUtils.formatTime(AstronomyUtils.fromJulian(julian), timeZone)
+
+    const sun = halfArc(SUNRISE_ALTITUDE)
+    const civil = halfArc(CIVIL_TWILIGHT_ALTITUDE)
+    const polar = sun.offset === null ? (sun.cos < -1 ? 'day' : 'night') : null
+
+    return {
+      sunrise: format(sun.offset === null ? null : jNoon - sun.offset),
+      sunset: format(sun.offset === null ? null : jNoon + sun.offset),
+      civilDawn: format(civil.offset === null ? null : jNoon - civil.offset),
+      civilDusk: format(civil.offset === null ? null : jNoon + civil.offset),
+      dayLengthMinutes: sun.offset !== null
+        ? Math.round(sun.offset * 2 * 24 * 60)
+        : polar === 'day' ? 24 * 60 : 0,
+      polar
+    }
+  }
+
+  // 某天当地正午的月相（按平均朔望月推算，误差通常在 1 天以内）
+  static getMoonPhase(date: string, longitude: number = 0): MoonPhase {
+    const julian = AstronomyUtils.localNoon(date, longitude).getTime() / DAY_MS + J1970 - 0.5
+    const age = ((julian - REFERENCE_NEW_MOON) % SYNODIC_MONTH + SYNODIC_MONTH) % SYNODIC_MONTH
+    const phase = age / SYNODIC_MONTH
+    const illumination = (1 - Math.cos(2 * Math.PI * phase)) / 2
+    const { key, emoji } = MOON_PHASES[Math.round(phase * 8) % 8]
+    return {
+      phase: Math.round(phase * 1000) / 1000,
+      illumination: Math.round(illumination * 100) / 100,
+      key,
+      emoji
+    }
+  }
+
+  static getAstronomy(date: string, latitude: number, longitude: number, timeZone: string = DateUtils.getTimeZone()): AstronomyInfo {
+    return {
+      ...AstronomyUtils.getSunTimes(date, latitude, longitude, timeZone),
+      moon: AstronomyUtils.getMoonPhase(date, longitude)
+    }
+  }
+
+  // 日长显示，如 "14小时32分" / "14h 32m"，极昼/极夜显示对应文字
+  static formatDayLength(sun: Pick<SunTimes, 'dayLengthMinutes' | 'polar'>): string {
+    if (sun.polar === 'day') return t('astronomy.polarDay')
+    if (sun.polar === 'night') return t('astronomy.polarNight')
+    return t('astronomy.dayLengthValue', { h: Math.floor(sun.dayLengthMinutes / 60), m: sun.dayLengthMinutes % 60 })
+  }
+
+  static getMoonPhaseLabel(moon: MoonPhase): string {
+    return t(`astronomy.moonPhases.${moon.key}`)
+  }
+
+  // 以经度估算的当地正午（UTC 时间），用于选取当天的太阳中天
+  private static localNoon(date: string, longitude: number): Date {
+    const [year, month, day] = date.split('-').map(Number)
+    return new Date(Date.UTC(year, month - 1, day, 12) - longitude / 360 * DAY_MS)
+  }
+
+  private static toDays(date: Date): number {
+    return date.getTime() / DAY_MS - 0.5 + J1970 - J2000
+  }
+
+  private static fromJulian(julian: number): Date {
+    return new Date((julian + 0.5 - J1970) * DAY_MS)
+  }
+
+  private static formatTime(date: Date, timeZone: string): string {
+    try {
+      return new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).format(date)
+    } catch {
+      return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`
+    }
+  }
+}
@@ -0,0 +1,212 @@
+import type { DiaryBackup, DiaryData } from '../types/diary'
+import { DiaryUtils } from './diaryUtils'
+import { MoodUtils } from './moodUtils'
+import { TagUtils } from './tagUtils'
+import { UnitUtils } from './unitUtils'
+import { t } from '../i18n'
+
+// 日记备份格式：format 用于识别文件，version 只在结构不兼容时递增
+export const BACKUP_FORMAT = 'weather-duck-diary-backup'
+export const BACKUP_VERSION = 1
+
+// ZIP 备份的目录结构
+export const BACKUP_JSON_PATH = 'diary-backup.json'
+export const MARKDOWN_DIR = 'markdown'
+export const MEDIA_DIR = 'media'
+
+export interface BackupIssue {
+  index: number
+  date?: string
+  message: string
+}
+
+export interface BackupValidation {
+  // 文件整体无法识别时为 null，原因见 fatal
+  backup: DiaryBackup | null
+  fatal?: string
+  // 通过校验的条目（已整理格式），不合格的条目记在 issues 中并跳过
+  diaries: DiaryData[]
+  issues: BackupIssue[]
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const TIME_PATTERN = /^\d{1,2}:\d{2}(:\d{2})?$/
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  m4v: 'video/x-m4v',
+  ogg: 'video/ogg'
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+}
+
+function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false
+  const date = new Date(`${value}T00:00:00Z`)
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value
+}
+
+export class BackupUtils {
+  static createBackup(diaries: DiaryData[], source: DiaryBackup['source'], media?: Record<string, string>): DiaryBackup {
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: new Date().toISOString(),
+      source,
+      diaries: DiaryUtils.sortEntries(diaries),
+      ...(media && Object.keys(media).length > 0 ? { media } : {})
+    }
+  }
+
+  // 校验备份文件结构；单条不合格只跳过该条，文件本身不合格时整体拒绝
+  static validate(raw: unknown): BackupValidation {
+    const fail = (fatal: string): BackupValidation => ({ backup: null, fatal, diaries: [], issues: [] })
+    if (!raw || typeof raw !== 'object') return fail(t('backup.errors.notObject'))
+
+    const data = raw as Record<string, unknown>
+    if (data.format !== BACKUP_FORMAT) return fail(t('backup.errors.format'))
+    if (typeof data.version !== 'number' || data.version < 1) return fail(t('backup.errors.version'))
+    if (data.version > BACKUP_VERSION) {
+      return fail(t('backup.errors.newerVersion', { version: data.version, supported: BACKUP_VERSION }))
+    }
+    if (!Array.isArray(data.diaries)) return fail(t('backup.errors.diaries'))
+
+    const media: Record<string, string> = {}
+    if (data.media && typeof data.media === 'object') {
+      Object.entries(data.media as Record<string, unknown>).forEach(([url, path]) => {
+        if (typeof path === 'string') media[url] = path
+      })
+    }
+
+    const diaries: DiaryData[] = []
+    const issues: BackupIssue[] = []
+    data.diaries.forEach((item, index) => {
+      const result = this.validateEntry(item)
+      if (typeof result === 'string') {
+        const date = item && typeof item === 'object' ? String((item as any).date ?? '') : undefined
+        issues.push({ index, date: date || undefined, message: result })
+      } else {
+        diaries.push(result)
+      }
+    })
+
+    return {
+      backup: {
+        format: BACKUP_FORMAT,
+        version: data.version,
+        exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+        source: data.source === 'indexeddb' ? 'indexeddb' : 'supabase',
+        diaries,
+        media
+      },
+      diaries,
+      issues
+    }
+  }
+
+  // 返回整理后的条目，不合格时返回原因
+  private static validateEntry(item: unknown): DiaryData | string {
+    if (!item || typeof item !== 'object') return t('backup.errors.entryNotObject')
+    const entry = item as Record<string, any>
+
+    if (typeof entry.date !== 'string' || !isValidDate(entry.date)) return t('backup.errors.date')
+    if (entry.entry_time != null && (typeof entry.entry_time !== 'string' || !TIME_PATTERN.test(entry.entry_time))) {
+      return t('backup.errors.time')
+    }
+    for (const field of ['content', 'mood', 'city'] as const) {
+      if (entry[field] != null && typeof entry[field] !== 'string') return t('backup.errors.field', { field })
+    }
+    for (const field of ['images', 'videos', 'tags'] as const) {
+      if (entry[field] != null && !isStringArray(entry[field])) return t('backup.errors.field', { field })
+    }
+    if (entry.weather_data != null && typeof entry.weather_data !== 'object') {
+      return t('backup.errors.field', { field: 'weather_data' })
+    }
+
+    const diary: DiaryData = {
+      id: entry.id != null ? String(entry.id) : undefined,
+      date: entry.date,
+      entry_time: DiaryUtils.normalizeTime(entry.entry_time) || null,
+      content: entry.content || '',
+      mood: entry.mood || '',
+      city: entry.city || '',
+      weather_data: entry.weather_data ?? null,
+      images: entry.images || [],
+      videos: entry.videos || [],
+      tags: TagUtils.normalize(entry.tags),
+      created_at: typeof entry.created_at === 'string' ? entry.created_at : undefined,
+      updated_at: typeof entry.updated_at === 'string' ? entry.updated_at : undefined
+    }
+    return DiaryUtils.hasContent(diary) ? diary : t('backup.errors.empty')
+  }
+
+  // 一天一个 Markdown 文件；mediaPaths 提供时图片和视频链接指向包内文件，否则用原地址
+  static toMarkdownDay(date: string, entries: DiaryData[], mediaPaths: Record<string, string> = {}): string {
+    const link = (url: string) => mediaPaths[url] ? `../${mediaPaths[url]}` : url
+    const lines = [`# ${date}`, '']
+
+    DiaryUtils.sortEntries(entries).forEach(entry => {
+      const heading = [DiaryUtils.normalizeTime(entry.entry_time) || t('diary.noTime')]
+      if (entry.mood) heading.push(`${MoodUtils.getEmoji(entry.mood)} ${MoodUtils.getLabel(entry.mood)}`)
+      if (entry.city) heading.push(`📍 ${entry.city}`)
+      lines.push(`## ${heading.join(' · ')}`, '')
+
+      const weather = entry.weather_data
+      if (weather?.description) {
+        const range = weather.temperature
+          ? `${UnitUtils.formatTemperature(weather.temperature.min, true)}~${UnitUtils.formatTemperature(weather.temperature.max)}`
+          : ''
+        lines.push(`> ${[weather.icon, weather.description, range].filter(Boolean).join(' ')}`, '')
+      }
+      if (entry.tags && entry.tags.length > 0) {
+        lines.push(entry.tags.map(tag => `#${tag}`).join(' '), '')
+      }
+      if (entry.content?.trim()) {
+        lines.push(entry.content.trim(), '')
+      }
+      ;(entry.images || []).forEach((url, index) => {
+        lines.push(`![${t('common.imageIndex', { n: index + 1 })}](${link(url)})`)
+      })
+      ;(entry.videos || []).forEach((url, index) => {
+        lines.push(`[${t('backup.videoIndex', { n: index + 1 })}](${link(url)})`)
+      })
+      if ((entry.images || []).length + (entry.videos || []).length > 0) lines.push('')
+    })
+
+    return lines.join('\n')
+  }
+
+  // 包内媒体文件路径：序号加原文件名，避免重名
+  static mediaPath(kind: 'images' | 'videos', index: number, url: string, mimeType = ''): string {
+    let name = ''
+    try {
+      name = url.startsWith('data:') ? '' : decodeURIComponent(new URL(url).pathname.split('/').pop() || '')
+    } catch {
+      name = ''
+    }
+    name = name.replace(/[^\w.\-]+/g, '_').slice(-60)
+    if (!/\.\w+$/.test(name)) {
+      const ext = Object.keys(MIME_TYPES).find(key => MIME_TYPES[key] === mimeType.split(';')[0]) ||
+        (kind === 'images' ? 'jpg' : 'mp4')
+      name = `${name || kind.slice(0, -1)}.${ext}`
+    }
+    return `${MEDIA_DIR}/${kind}/${String(index + 1).padStart(4, '0')}-${name}`
+  }
+
+  static guessMimeType(path: string): string {
+    const ext = path.split('.').pop()?.toLowerCase() || ''
+    return MIME_TYPES[ext] || 'application/octet-stream'
+  }
+}
@@ -1,28 +1,101 @@
 import dayjs from 'dayjs'
+import { t, tm } from '../i18n'
+
+// 未指定地点时区时使用的默认时区
+export const DEFAULT_TIME_ZONE = 'Asia/Shanghai'
+
+// 允许查询的最长日期范围（天，含首尾），可覆盖一整年
+export const MAX_DATE_RANGE_DAYS = 366
 
 export class DateUtils {
-  // 格式化日期为中文显示
+  // 当前查看地点的 IANA 时区，决定"今天"和日期边界
+  private static timeZone: string = DEFAULT_TIME_ZONE
+
+  // 设置当前地点时区（无效时区会被忽略）
+  static setTimeZone(timeZone: string | undefined | null): void {
+    if (!timeZone || !DateUtils.isValidTimeZone(timeZone)) return
+    DateUtils.timeZone = timeZone
+  }
+
+  // 获取当前地点时区
+  static getTimeZone(): string {
+    return DateUtils.timeZone
+  }
+
+  // 校验是否为浏览器可识别的 IANA 时区
+  static isValidTimeZone(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone })
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  // 获取指定时区的当天日期（YYYY-MM-DD），默认使用当前地点时区
+  static today(timeZone: string = DateUtils.timeZone): string {
+    try {
+      // en-CA 的日期格式恰好是 YYYY-MM-DD
+      return new Intl.DateTimeFormat('en-CA', {
+        timeZone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit'
+      }).format(new Date())
+    } catch {
+      return dayjs().format('YYYY-MM-DD')
+    }
+  }
+
+  // 获取指定时区当前的小时（0-23），默认使用当前地点时区
+  static currentHour(timeZone: string = DateUtils.timeZone): number {
+    try {
+      const hour = new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', hourCycle: 'h23' }).format(new Date())
+      return Number(hour) % 24
+    } catch {
+      return new Date().getHours()
+    }
+  }
+
+  // 判断日期是否为当前地点的今天
+  static isToday(date: string, timeZone: string = DateUtils.timeZone): boolean {
+    return date === DateUtils.today(timeZone)
+  }
+
+  // 日期加减天数，返回 YYYY-MM-DD
+  static addDays(date: string, days: number): string {
+    return dayjs(date).add(days, 'day').format('YYYY-MM-DD')
+  }
+
+  // 两个日期相差的天数（endDate - startDate）
+  static daysBetween(startDate: string, endDate: string): number {
+    return dayjs(endDate).diff(dayjs(startDate), 'day')
+  }
+
+  // 格式化日期为当前语言的月日显示（中文 MM月DD日，英文 MMM D；dayjs 默认即英文月份名）
   static formatDate(date: string | Date): string {
-    const d = dayjs(date)
-    return d.format('MM月DD日')
+    return dayjs(date).format(t('date.shortFormat'))
   }
 
   // 格式化日期为完整显示
   static formatFullDate(date: string | Date): string {
-    const d = dayjs(date)
-    return d.format('YYYY年MM月DD日')
+    return dayjs(date).format(t('date.fullFormat'))
   }
 
   // 获取星期几
   static getWeekday(date: string | Date): string {
     const d = dayjs(date)
-    const weekdays = ['星期日', '星期一', '星期二', '星期三', '星期四', '星期五', '星期六']
-    return weekdays[d.day()]
+    return tm('date.weekdays')[d.day()]
   }
 
-  // 获取默认日期范围（今天到过去15天）
-  static getDefaultDateRange(): { startDate: string; endDate: string } {
-    const endDate = dayjs()
+  // 年月标题，如 "2025年7月" / "July 2025"
+  static formatMonthTitle(year: number, month: number): string {
+    return t('date.monthTitle', { year, month, monthName: tm('date.months')[month - 1] })
+  }
+
+  // 获取默认日期范围（当前地点的今天到过去15天）
+  static getDefaultDateRange(timeZone: string = DateUtils.timeZone): { startDate: string; endDate: string } {
+    const endDate = dayjs(DateUtils.today(timeZone))
     const startDate = endDate.subtract(14, 'day')
     
     return {
@@ -44,8 +117,8 @@ export class DateUtils {
       return false
     }
     
-    // 限制最大范围为30天
-    if (end.diff(start, 'day') > 30) {
+    // 限制最大范围（含首尾共 MAX_DATE_RANGE_DAYS 天）
+    if (end.diff(start, 'day') + 1 > MAX_DATE_RANGE_DAYS) {
       return false
     }
     
@@ -70,4 +143,30 @@ export class DateUtils {
   static getDatesBetween(startDate: string, endDate: string): string[] {
     return DateUtils.generateDateRange(startDate, endDate)
   }
+
+  // 将日期范围拆分为每段不超过 maxDays 天的连续区间
+  static splitDateRange(startDate: string, endDate: string, maxDays: number): { start: string; end: string }[] {
+    const chunks: { start: string; end: string }[] = []
+    let start = startDate
+    while (start <= endDate) {
+      const chunkEnd = DateUtils.addDays(start, maxDays - 1)
+      const end = chunkEnd < endDate ? chunkEnd : endDate
+      chunks.push({ start, end })
+      start = DateUtils.addDays(end, 1)
+    }
+    return chunks
+  }
+
+  // 按自然月拆分日期范围（首尾月按范围截断），便于分段缓存复用
+  static splitByMonth(startDate: string, endDate: string): { start: string; end: string }[] {
+    const chunks: { start: string; end: string }[] = []
+    let start = startDate
+    while (start <= endDate) {
+      const monthEnd = dayjs(start).endOf('month').format('YYYY-MM-DD')
+      const end = monthEnd < endDate ? monthEnd : endDate
+      chunks.push({ start, end })
+      start = DateUtils.addDays(end, 1)
+    }
+    return chunks
+  }
 }
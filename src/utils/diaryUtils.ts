@@ -0,0 +1,63 @@
+import type { DiaryData } from '../types/diary'
+
+// 同一天可以有多条日记：缓存按条目 id 索引，展示时按日期分组、按条目时间排序
+export class DiaryUtils {
+  // 缓存键：优先用数据库 id，离线草稿等没有 id 的条目用日期+时间+创建时间拼接
+  static getEntryKey(diary: DiaryData): string {
+    if (diary.id) return String(diary.id)
+    return `${diary.date}_${diary.entry_time || ''}_${diary.created_at || ''}`
+  }
+
+  // 数据库 TIME 列返回 HH:mm:ss，界面只用 HH:mm
+  static normalizeTime(time: string | null | undefined): string {
+    if (!time) return ''
+    const match = /^(\d{1,2}):(\d{2})/.exec(String(time).trim())
+    return match ? `${match[1].padStart(2, '0')}:${match[2]}` : ''
+  }
+
+  // 当前本地时间（HH:mm），作为新条目的默认时间
+  static currentTime(): string {
+    const now = new Date()
+    return `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`
+  }
+
+  // 日期升序，同一天内按条目时间升序；没有时间的旧条目排在当天最前，再按创建时间
+  static compareEntries(a: DiaryData, b: DiaryData): number {
+    return a.date.localeCompare(b.date) ||
+      this.normalizeTime(a.entry_time).localeCompare(this.normalizeTime(b.entry_time)) ||
+      (a.created_at || '').localeCompare(b.created_at || '')
+  }
+
+  static sortEntries(diaries: DiaryData[]): DiaryData[] {
+    return diaries.slice().sort((a, b) => this.compareEntries(a, b))
+  }
+
+  // 按日期分组，每组内已排序
+  static groupByDate(diaries: DiaryData[]): Map<string, DiaryData[]> {
+    const groups = new Map<string, DiaryData[]>()
+    this.sortEntries(diaries).forEach((diary) => {
+      if (!diary?.date) return
+      const list = groups.get(diary.date) || []
+      list.push(diary)
+      groups.set(diary.date, list)
+    })
+    return groups
+  }
+
+  // 一天中最晚的一条，卡片和图表用它代表当天的心情和摘要
+  static getLatestEntry(diaries: DiaryData[]): DiaryData | null {
+    const sorted = this.sortEntries(diaries)
+    return sorted.length > 0 ? sorted[sorted.length - 1] : null
+  }
+
+  // 是否有实际内容（空条目不算）
+  static hasContent(diary: DiaryData | null | undefined): boolean {
+    if (!diary) return false
+    return !!(diary.content?.trim() ||
+      diary.mood ||
+      diary.city?.trim() ||
+      (diary.images && diary.images.length > 0) ||
+      (diary.videos && diary.videos.length > 0) ||
+      (diary.tags && diary.tags.length > 0))
+  }
+}
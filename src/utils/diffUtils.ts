@@ -0,0 +1,120 @@
+// 文本差异：用最长公共子序列比较两段文字，结果按"相同/新增/删除"分段
+// 中文逐字比较，英文和数字按单词比较，空白和换行单独成段
+
+export type DiffType = 'same' | 'added' | 'removed'
+
+export interface DiffSegment {
+  type: DiffType
+  text: string
+}
+
+// 逐词比较的矩阵上限（约 2000 × 2000），超过后退化为逐行比较
+const MAX_CELLS = 4_000_000
+
+export class DiffUtils {
+  // 比较两段文字，返回合并后的差异分段
+  static diffText(before: string, after: string): DiffSegment[] {
+    const oldTokens = this.tokenize(before || '')
+    const newTokens = this.tokenize(after || '')
+    if (oldTokens.length * newTokens.length <= MAX_CELLS) {
+      return this.diffTokens(oldTokens, newTokens)
+    }
+    const oldLines = this.splitLines(before || '')
+    const newLines = this.splitLines(after || '')
+    if (oldLines.length * newLines.length <= MAX_CELLS) {
+      return this.diffTokens(oldLines, newLines)
+    }
+    // 行数也过多时不再逐行比较，整段显示为删除和新增
+    return this.wholeText(before || '', after || '')
+  }
+
+  // 是否有差异
+  static hasChanges(segments: DiffSegment[]): boolean {
+    return segments.some(segment => segment.type !== 'same')
+  }
+
+  // 新增和删除的字符数
+  static countChanges(segments: DiffSegment[]): { added: number; removed: number } {
+    return segments.reduce((count, segment) => {
+      if (segment.type === 'added') count.added += segment.text.length
+      if (segment.type === 'removed') count.removed += segment.text.length
+      return count
+    }, { added: 0, removed: 0 })
+  }
+
+  private static wholeText(before: string, after: string): DiffSegment[] {
+    if (before === after) return before ? [{ type: 'same', text: before }] : []
+    const segments: DiffSegment[] = []
+    if (before) segments.push({ type: 'removed', text: before })
+    if (after) segments.push({ type: 'added', text: after })
+    return segments
+  }
+
+  private static tokenize(text: string): string[] {
+    return text.match(/[A-Za-z0-9_]+|\s+|[\s\S]/g) || []
+  }
+
+  private static splitLines(text: string): string[] {
+    return text.match(/[^\n]*\n|[^\n]+/g) || []
+  }
+
+  private static diffTokens(oldTokens: string[], newTokens: string[]): DiffSegment[] {
+    // 先去掉公共的首尾，缩小矩阵
+    let start = 0
+    while (start < oldTokens.length && start < newTokens.length && oldTokens[start] === newTokens[start]) {
+      start++
+    }
+    let oldEnd = oldTokens.length
+    let newEnd = newTokens.length
+    while (oldEnd > start && newEnd > start && oldTokens[oldEnd - 1] === newTokens[newEnd - 1]) {
+      oldEnd--
+      newEnd--
+    }
+
+    const a = oldTokens.slice(start, oldEnd)
+    const b = newTokens.slice(start, newEnd)
+    const rows = a.length + 1
+    const cols = b.length + 1
+    // lcs[i * cols + j]：a[i..] 与 b[j..] 的最长公共子序列长度
+    const lcs = new Uint32Array(rows * cols)
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i * cols + j] = a[i] === b[j]
+          ? lcs[(i + 1) * cols + j + 1] + 1
+          : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1])
+      }
+    }
+
+    const segments: DiffSegment[] = []
+    const push = (type: DiffType, text: string) => {
+      const last = segments[segments.length - 1]
+      if (last && last.type === type) {
+        last.text += text
+      } else if (text) {
+        segments.push({ type, text })
+      }
+    }
+
+    push('same', oldTokens.slice(0, start).join(''))
+    let i = 0
+    let j = 0
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        push('same', a[i])
+        i++
+        j++
+      } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+        push('removed', a[i])
+        i++
+      } else {
+        push('added', b[j])
+        j++
+      }
+    }
+    while (i < a.length) push('removed', a[i++])
+    while (j < b.length) push('added', b[j++])
+    push('same', oldTokens.slice(oldEnd).join(''))
+
+    return segments
+  }
+}
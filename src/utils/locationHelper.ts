@@ -3,6 +3,8 @@
  * 提供简洁的定位功能
  */
 
+import { savedLocationService } from '../services/savedLocationService'
+
 export interface LocationResult {
   latitude: number
   longitude: number
@@ -12,10 +14,14 @@ export interface LocationResult {
 }
 
 export class LocationHelper {
-  private static readonly DEFAULT_LOCATION = {
-    latitude: 22.5429,
-    longitude: 114.0596,
-    source: 'default' as const
+  // 默认位置：收藏中设为"家"的地点，未设置时为深圳
+  private static get DEFAULT_LOCATION(): LocationResult {
+    const { latitude, longitude } = savedLocationService.getDefaultLocation()
+    return {
+      latitude,
+      longitude,
+      source: 'default'
+    }
   }
 
   /**
@@ -0,0 +1,263 @@
+// 农历与二十四节气本地计算（按北京时间）：朔日为农历月首，含冬至的月为十一月，
+// 两个十一月之间有 13 个月时，第一个不含中气的月为闰月。新月按 Meeus 算法，太阳视黄经按低精度公式（误差约 15 分钟）
+import { t, tm } from '../i18n'
+
+export interface LunarDate {
+  year: number // 农历年（以正月初一为界）
+  month: number // 1-12
+  day: number // 1-30
+  isLeap: boolean
+  monthDays: number // 本月天数（29 或 30）
+}
+
+export interface SolarTerm {
+  index: number // 0-23，按太阳视黄经 0° 春分起每 15° 一个
+  longitude: number
+  isMajor: boolean // 中气（黄经为 30° 的倍数），决定闰月
+}
+
+interface LunarMonth {
+  start: number // 朔日的日序号
+  month: number
+  isLeap: boolean
+  year: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const RAD = Math.PI / 180
+const SYNODIC_MONTH = 29.530588861
+const TROPICAL_YEAR = 365.2422
+// 力学时与世界时之差（约 69 秒）
+const DELTA_T_DAYS = 69 / 86400
+const BEIJING_OFFSET_DAYS = 8 / 24
+
+const HEAVENLY_STEMS = '甲乙丙丁戊己庚辛壬癸'
+const EARTHLY_BRANCHES = '子丑寅卯辰巳午未申酉戌亥'
+
+// 以儒略日整数作为日期序号
+function dayNumberOf(date: string): number {
+  const [year, month, day] = date.split('-').map(Number)
+  return Date.UTC(year, month - 1, day) / DAY_MS + 2440588
+}
+
+// 世界时儒略日所在的北京日期序号
+function beijingDayOf(jd: number): number {
+  return Math.floor(jd + 0.5 + BEIJING_OFFSET_DAYS)
+}
+
+// 第 k 个新月（k=0 为 2000-01-06）的世界时儒略日
+function newMoonJd(k: number): number {
+  const T = k / 1236.85
+  const T2 = T * T
+  const T3 = T2 * T
+  const T4 = T3 * T
+  const jde = 2451550.09766 + SYNODIC_MONTH * k + 0.00015437 * T2 - 0.00000015 * T3 + 0.00000000073 * T4
+  const E = 1 - 0.002516 * T - 0.0000074 * T2
+  const M = RAD * (2.5534 + 29.1053567 * k - 0.0000014 * T2 - 0.00000011 * T3)
+  const Mp = RAD * (201.5643 + 385.81693528 * k + 0.0107582 * T2 + 0.00001238 * T3 - 0.000000058 * T4)
+  const F = RAD * (160.7108 + 390.67050284 * k - 0.0016118 * T2 - 0.00000227 * T3 + 0.000000011 * T4)
+  const omega = RAD * (124.7746 - 1.56375588 * k + 0.0020672 * T2 + 0.00000215 * T3)
+
+  const correction =
+    -0.4072 * Math.sin(Mp) +
+    0.17241 * E * Math.sin(M) +
+    0.01608 * Math.sin(2 * Mp) +
+    0.01039 * Math.sin(2 * F) +
+    0.00739 * E * Math.sin(Mp - M) -
+    0.00514 * E * Math.sin(Mp + M) +
+    0.00208 * E * E * Math.sin(2 * M) -
+    0.00111 * Math.sin(Mp - 2 * F) -
+    0.00057 * Math.sin(Mp + 2 * F) +
+    0.00056 * E * Math.sin(2 * Mp + M) -
+    0.00042 * Math.sin(3 * Mp) +
+    0.00042 * E * Math.sin(M + 2 * F) +
+    0.00038 * E * Math.sin(M - 2 * F) -
+    0.00024 * E * Math.sin(2 * Mp - M) -
+    0.00017 * Math.sin(omega) -
+    0.00007 * Math.sin(Mp + 2 * M) +
+    0.00004 * Math.sin(2 * Mp - 2 * F) +
+    0.00004 * Math.sin(3 * M) +
+    0.00003 * Math.sin(Mp + M - 2 * F) +
+    0.00003 * Math.sin(2 * Mp + 2 * F) -
+    0.00003 * Math.sin(Mp + M + 2 * F) +
+    0.00003 * Math.sin(Mp - M + 2 * F) -
+    0.00002 * Math.sin(Mp - M - 2 * F) -
+    0.00002 * Math.sin(3 * Mp + M) +
+    0.00002 * Math.sin(4 * Mp)
+
+  return jde + correction - DELTA_T_DAYS
+}
+
+// 世界时儒略日的太阳视黄经（度）
+function sunLongitude(jd: number): number {
+  const T = (jd + DELTA_T_DAYS - 2451545) / 36525
+  const L0 = 280.46646 + 36000.76983 * T + 0.0003032 * T * T
+  const M = RAD * (357.52911 + 35999.05029 * T - 0.0001537 * T * T)
+  const C = (1.914602 - 0.004817 * T - 0.000014 * T * T) * Math.sin(M) +
+    (0.019993 - 0.000101 * T) * Math.sin(2 * M) +
+    0.000289 * Math.sin(3 * M)
+  const omega = RAD * (125.04 - 1934.136 * T)
+  const apparent = L0 + C - 0.00569 - 0.00478 * Math.sin(omega)
+  return ((apparent % 360) + 360) % 360
+}
+
+// 太阳到达指定黄经的时刻（从估计值出发迭代逼近）
+function solarTermJd(estimate: number, longitude: number): number {
+  let jd = estimate
+  for (let i = 0; i < 6; i++) {
+    const diff = ((longitude - sunLongitude(jd)) % 360 + 540) % 360 - 180
+    jd += diff * TROPICAL_YEAR / 360
+    if (Math.abs(diff) < 0.00001) break
+  }
+  return jd
+}
+
+const termCache = new Map<number, Map<number, SolarTerm>>()
+const monthCache = new Map<number, LunarMonth[]>()
+
+export class LunarUtils {
+  // 公历年内的 24 个节气（北京日期序号 -> 节气），从小寒到冬至
+  private static getYearTerms(year: number): Map<number, SolarTerm> {
+    const cached = termCache.get(year)
+    if (cached) return cached
+
+    const terms = new Map<number, SolarTerm>()
+    const jan6 = dayNumberOf(`${year}-01-06`) - 0.5
+    for (let i = 0; i < 24; i++) {
+      const longitude = (285 + i * 15) % 360
+      const jd = solarTermJd(jan6 + i * TROPICAL_YEAR / 24, longitude)
+      terms.set(beijingDayOf(jd), { index: longitude / 15, longitude, isMajor: longitude % 30 === 0 })
+    }
+    termCache.set(year, terms)
+    return terms
+  }
+
+  // 冬至所在的北京日期序号
+  private static winterSolstice(year: number): number {
+    const terms = LunarUtils.getYearTerms(year)
+    for (const [dayNumber, term] of terms) {
+      if (term.longitude === 270) return dayNumber
+    }
+    throw new Error(`无法计算 ${year} 年冬至`)
+  }
+
+  // 不晚于指定日期的最近一个朔日对应的新月序号
+  private static newMoonIndexOnOrBefore(dayNumber: number): number {
+    let k = Math.floor((dayNumber - 2451550.6) / SYNODIC_MONTH)
+    while (beijingDayOf(newMoonJd(k + 1)) <= dayNumber) k++
+    while (beijingDayOf(newMoonJd(k)) > dayNumber) k--
+    return k
+  }
+
+  // year 年冬至所在月（十一月）到下一个十一月之前的各月
+  private static getMonths(year: number): LunarMonth[] {
+    const cached = monthCache.get(year)
+    if (cached) return cached
+
+    const startK = LunarUtils.newMoonIndexOnOrBefore(LunarUtils.winterSolstice(year))
+    const endK = LunarUtils.newMoonIndexOnOrBefore(LunarUtils.winterSolstice(year + 1))
+    const starts: number[] = []
+    for (let k = startK; k <= endK; k++) {
+      starts.push(beijingDayOf(newMoonJd(k)))
+    }
+
+    // 13 个月时置闰：第一个不含中气的月
+    const majorTerms = [
+      ...LunarUtils.getYearTerms(year).entries(),
+      ...LunarUtils.getYearTerms(year + 1).entries()
+    ].filter(([, term]) => term.isMajor).map(([dayNumber]) => dayNumber)
+    let leapIndex = -1
+    if (endK - startK === 13) {
+      for (let i = 1; i < starts.length - 1; i++) {
+        if (!majorTerms.some(day => day >= starts[i] && day < starts[i + 1])) {
+          leapIndex = i
+          break
+        }
+      }
+    }
+
+    const months: LunarMonth[] = []
+    let month = 11
+    let lunarYear = year
+    for (let i = 0; i < starts.length - 1; i++) {
+      const isLeap = i === leapIndex
+      if (i > 0 && !isLeap) {
+        month = month % 12 + 1
+        if (month === 1) lunarYear = year + 1
+      }
+      months.push({ start: starts[i], month, isLeap, year: lunarYear })
+    }
+    monthCache.set(year, months)
+    return months
+  }
+
+  // 公历日期（YYYY-MM-DD）对应的农历日期
+  static getLunarDate(date: string): LunarDate {
+    const dayNumber = dayNumberOf(date)
+    const year = Number(date.slice(0, 4))
+    // 冬至所在月之前的日期属于上一年冬至开始的周期
+    let months = LunarUtils.getMonths(year)
+    if (dayNumber < months[0].start) {
+      months = LunarUtils.getMonths(year - 1)
+    }
+    const nextCycleStart = LunarUtils.getMonths(months[0].year + 1)[0].start
+    let index = months.length - 1
+    while (index > 0 && months[index].start > dayNumber) index--
+    const current = months[index]
+    const nextStart = index + 1 < months.length ? months[index + 1].start : nextCycleStart
+    return {
+      year: current.year,
+      month: current.month,
+      day: dayNumber - current.start + 1,
+      isLeap: current.isLeap,
+      monthDays: nextStart - current.start
+    }
+  }
+
+  // 当天交节的节气，不是节气日时返回 null
+  static getSolarTerm(date: string): SolarTerm | null {
+    return LunarUtils.getYearTerms(Number(date.slice(0, 4))).get(dayNumberOf(date)) || null
+  }
+
+  // 节气名称（随界面语言）
+  static getSolarTermName(term: SolarTerm): string {
+    return tm('calendar.solarTerms')[term.index] || ''
+  }
+
+  // 干支纪年，如 "乙巳"
+  static getGanzhiYear(lunarYear: number): string {
+    const offset = lunarYear - 4
+    return HEAVENLY_STEMS[((offset % 10) + 10) % 10] + EARTHLY_BRANCHES[((offset % 12) + 12) % 12]
+  }
+
+  static getZodiac(lunarYear: number): string {
+    return tm('calendar.zodiac')[(((lunarYear - 4) % 12) + 12) % 12] || ''
+  }
+
+  // 农历月名，如 "闰六月" / "Leap 6th month"
+  static getMonthName(lunar: LunarDate): string {
+    const name = tm('calendar.lunarMonths')[lunar.month - 1] || String(lunar.month)
+    return lunar.isLeap ? t('calendar.leapMonth', { month: name }) : name
+  }
+
+  static getDayName(lunar: LunarDate): string {
+    return tm('calendar.lunarDays')[lunar.day - 1] || String(lunar.day)
+  }
+
+  // 卡片等紧凑位置的农历文字：初一显示月名，其余显示日名
+  static formatShort(lunar: LunarDate): string {
+    return lunar.day === 1
+      ? t('calendar.lunarMonthStart', { month: LunarUtils.getMonthName(lunar) })
+      : t('calendar.lunarShort', { day: LunarUtils.getDayName(lunar), m: lunar.month, d: lunar.day })
+  }
+
+  // 完整农历日期，如 "乙巳年（蛇）六月初三"
+  static formatFull(lunar: LunarDate): string {
+    return t('calendar.lunarDate', {
+      ganzhi: LunarUtils.getGanzhiYear(lunar.year),
+      zodiac: LunarUtils.getZodiac(lunar.year),
+      month: LunarUtils.getMonthName(lunar),
+      day: LunarUtils.getDayName(lunar)
+    })
+  }
+}
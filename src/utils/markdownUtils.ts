@@ -0,0 +1,200 @@
+// 日记内容按 Markdown 书写：支持标题、列表、引用、代码、粗体/斜体/删除线、链接和图片
+// 渲染时先转义全部 HTML，只生成白名单内的标签，链接和图片地址只允许安全协议，结果可直接用于 v-html
+
+// 链接只允许 http(s) 和 mailto，图片只允许 http(s) 和 base64 图片
+const SAFE_LINK = /^(https?:\/\/|mailto:)/i
+const SAFE_IMAGE = /^(https?:\/\/|data:image\/(png|jpe?g|gif|webp);base64,)/i
+
+const PLACEHOLDER = /\u0000(\d+)\u0000/g
+
+export class MarkdownUtils {
+  static escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;')
+  }
+
+  // 把 Markdown 转成安全的 HTML
+  static render(markdown: string | null | undefined): string {
+    if (!markdown) return ''
+    const lines = markdown.replace(/\r\n?/g, '\n').split('\n')
+    const html: string[] = []
+    let paragraph: string[] = []
+    let list: { ordered: boolean; items: string[] } | null = null
+    let quote: string[] | null = null
+
+    const flushParagraph = () => {
+      if (paragraph.length > 0) {
+        html.push(`<p>${paragraph.map(line => this.renderInline(line)).join('<br>')}</p>`)
+        paragraph = []
+      }
+    }
+    const flushList = () => {
+      if (list) {
+        const tag = list.ordered ? 'ol' : 'ul'
+        html.push(`<${tag}>${list.items.map(item => `<li>${this.renderInline(item)}</li>`).join('')}</${tag}>`)
+        list = null
+      }
+    }
+    const flushQuote = () => {
+      if (quote) {
+        html.push(`<blockquote>${this.render(quote.join('\n'))}</blockquote>`)
+        quote = null
+      }
+    }
+    const flushAll = () => {
+      flushParagraph()
+      flushList()
+      flushQuote()
+    }
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i]
+
+      // 围栏代码块
+      if (/^\s*```/.test(line)) {
+        flushAll()
+        const code: string[] = []
+        i++
+        while (i < lines.length && !/^\s*```/.test(lines[i])) {
+          code.push(lines[i])
+          i++
+        }
+        html.push(`<pre><code>${this.escapeHtml(code.join('\n'))}</code></pre>`)
+        continue
+      }
+
+      // 引用（连续的 > 行合并，内部再按 Markdown 渲染）
+      const quoteMatch = /^\s*>\s?(.*)$/.exec(line)
+      if (quoteMatch) {
+        flushParagraph()
+        flushList()
+        quote = quote || []
+        quote.push(quoteMatch[1])
+        continue
+      }
+      flushQuote()
+
+      if (!line.trim()) {
+        flushParagraph()
+        flushList()
+        continue
+      }
+
+      const heading = /^\s*(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line)
+      if (heading) {
+        flushAll()
+        const level = heading[1].length
+        html.push(`<h${level}>${this.renderInline(heading[2])}</h${level}>`)
+        continue
+      }
+
+      if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+        flushAll()
+        html.push('<hr>')
+        continue
+      }
+
+      const bullet = /^\s*[-*+]\s+(.*)$/.exec(line)
+      const numbered = /^\s*\d+[.)]\s+(.*)$/.exec(line)
+      if (bullet || numbered) {
+        flushParagraph()
+        const ordered = !!numbered
+        if (list && list.ordered !== ordered) flushList()
+        list = list || { ordered, items: [] }
+        list.items.push((bullet || numbered)![1])
+        continue
+      }
+
+      // 列表项后面缩进的行算作同一项的续行
+      if (list && /^\s+\S/.test(line)) {
+        list.items[list.items.length - 1] += ` ${line.trim()}`
+        continue
+      }
+
+      flushList()
+      paragraph.push(line.trim())
+    }
+    flushAll()
+
+    return html.join('')
+  }
+
+  // 行内格式：转义后再替换，生成的属性值都已转义
+  // 代码、链接和图片生成后放入占位符，避免地址里的 * _ 被再次替换
+  private static renderInline(text: string): string {
+    const tokens: string[] = []
+    const hold = (html: string) => {
+      tokens.push(html)
+      return `\u0000${tokens.length - 1}\u0000`
+    }
+    // 占位符可能嵌套（如链接文字中的行内代码），逐层还原直到没有占位符
+    const restore = (html: string, map: (token: string) => string = token => token) => {
+      let previous: string
+      do {
+        previous = html
+        html = html.replace(PLACEHOLDER, (_, index: string) => map(tokens[Number(index)] ?? ''))
+      } while (html !== previous)
+      return html
+    }
+
+    let result = text.replace(/\u0000/g, '').replace(/`([^`]+)`/g, (_, code: string) => hold(`<code>${this.escapeHtml(code)}</code>`))
+
+    result = this.escapeHtml(result)
+
+    result = result.replace(/!\[([^\]]*)\]\(\s*([^)\s]+)\s*\)/g, (match, alt: string, url: string) => {
+      // alt 属性里不能放标签，其中的行内代码只保留文字
+      const altText = restore(alt, token => token.replace(/<[^>]+>/g, ''))
+      return SAFE_IMAGE.test(this.decodeUrl(url)) ? hold(`<img src="${url}" alt="${altText}" loading="lazy">`) : match
+    })
+    result = result.replace(/\[([^\]]+)\]\(\s*([^)\s]+)\s*\)/g, (match, label: string, url: string) => {
+      return SAFE_LINK.test(this.decodeUrl(url))
+        ? hold(`<a href="${url}" target="_blank" rel="noopener noreferrer">${this.renderEmphasis(label)}</a>`)
+        : match
+    })
+
+    return restore(this.renderEmphasis(result))
+  }
+
+  private static renderEmphasis(text: string): string {
+    return text
+      .replace(/\*\*(?=\S)(.+?)\*\*/g, '<strong>$1</strong>')
+      .replace(/__(?=\S)(.+?)__/g, '<strong>$1</strong>')
+      .replace(/~~(?=\S)(.+?)~~/g, '<del>$1</del>')
+      .replace(/(^|[^*\w])\*(?=\S)([^*]+?)\*(?!\*)/g, '$1<em>$2</em>')
+      .replace(/(^|[^_\w])_(?=\S)([^_]+?)_(?!\w)/g, '$1<em>$2</em>')
+  }
+
+  // 地址已经过转义，校验协议前还原 &amp;
+  private static decodeUrl(url: string): string {
+    return url.replace(/&amp;/g, '&').trim()
+  }
+
+  // 去掉 Markdown 标记得到纯文本，供卡片、日历、图表预览和搜索使用
+  static toPlainText(markdown: string | null | undefined): string {
+    if (!markdown) return ''
+    return markdown
+      .replace(/\r\n?/g, '\n')
+      .replace(/^\s*```.*$/gm, '')
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+      .replace(/^\s*#{1,6}\s+/gm, '')
+      .replace(/^\s*>\s?/gm, '')
+      .replace(/^\s*([-*_])(\s*\1){2,}\s*$/gm, '')
+      .replace(/^\s*(?:[-*+]|\d+[.)])\s+/gm, '')
+      .replace(/(\*\*|__|~~)(?=\S)(.+?)\1/g, '$2')
+      .replace(/(^|[^*\w])\*(?=\S)([^*]+?)\*(?!\*)/g, '$1$2')
+      .replace(/(^|[^_\w])_(?=\S)([^_]+?)_(?!\w)/g, '$1$2')
+      .replace(/`([^`]+)`/g, '$1')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim()
+  }
+
+  // 单行预览：换行合并成空格
+  static toPreviewText(markdown: string | null | undefined): string {
+    return this.toPlainText(markdown).replace(/\s+/g, ' ').trim()
+  }
+}
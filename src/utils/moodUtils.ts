@@ -0,0 +1,27 @@
+import { t } from '../i18n'
+
+// 心情选项：value 为日记中保存的值（沿用中文，兼容已有数据），显示文案按当前语言
+export const MOOD_OPTIONS = [
+  { value: '开心', key: 'happy', emoji: '😊' },
+  { value: '愉快', key: 'cheerful', emoji: '😄' },
+  { value: '平静', key: 'calm', emoji: '😌' },
+  { value: '兴奋', key: 'excited', emoji: '🤩' },
+  { value: '放松', key: 'relaxed', emoji: '😎' },
+  { value: '忧郁', key: 'melancholy', emoji: '😔' },
+  { value: '烦躁', key: 'irritable', emoji: '😤' },
+  { value: '疲惫', key: 'tired', emoji: '😴' }
+] as const
+
+export class MoodUtils {
+  // 心情对应的表情，未知心情用默认笑脸
+  static getEmoji(mood: string | undefined | null): string {
+    return MOOD_OPTIONS.find(o => o.value === mood)?.emoji || '😊'
+  }
+
+  // 心情的显示文案，未知心情原样显示
+  static getLabel(mood: string | undefined | null): string {
+    if (!mood) return ''
+    const option = MOOD_OPTIONS.find(o => o.value === mood)
+    return option ? t(`moods.${option.key}`) : mood
+  }
+}
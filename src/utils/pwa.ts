@@ -1,6 +1,7 @@
 /**
  * PWA 工具函数 - 使用 Workbox
  */
+import { t, tm } from '../i18n'
 
 // PWA 安装事件
 let deferredPrompt: BeforeInstallPromptEvent | null = null
@@ -94,113 +95,49 @@ export function getInstallGuide(browser: BrowserInfo): {
   steps: string[]
   canAutoInstall: boolean
 } {
+  // 文案见 i18n 的 pwa.guides；可自动安装时只提示点击安装按钮
+  const guide = (name: string, canAutoInstall: boolean = false, params?: Record<string, string>) => ({
+    title: t(`pwa.guides.${name}.title`, params),
+    steps: canAutoInstall ? [t('pwa.autoInstallStep')] : tm(`pwa.guides.${name}.steps`),
+    canAutoInstall
+  })
+
   if (browser.isStandalone) {
-    return {
-      title: '已安装',
-      steps: ['应用已经安装到您的设备上了！'],
-      canAutoInstall: false
-    }
+    return guide('installed')
   }
   
   // iOS Safari
   if (browser.isIOS && browser.isSafari) {
-    return {
-      title: 'iOS Safari 安装指南',
-      steps: [
-        '1. 点击底部的 "分享" 按钮 (方框+箭头图标)',
-        '2. 向下滚动并点击 "添加到主屏幕"',
-        '3. 点击右上角的 "添加"',
-        '4. 应用图标将出现在主屏幕上'
-      ],
-      canAutoInstall: false
-    }
+    return guide('iosSafari')
   }
   
   // iOS Chrome
   if (browser.isIOS && browser.isChrome) {
-    return {
-      title: 'iOS Chrome 安装指南',
-      steps: [
-        '1. 点击右上角的 "..." 菜单',
-        '2. 选择 "添加到主屏幕"',
-        '3. 点击 "添加"',
-        '注意：建议使用 Safari 浏览器获得更好的 PWA 体验'
-      ],
-      canAutoInstall: false
-    }
+    return guide('iosChrome')
   }
   
   // Android Chrome
   if (browser.isAndroid && browser.isChrome) {
-    return {
-      title: 'Android Chrome 安装指南',
-      steps: browser.canInstall 
-        ? ['点击下方的 "安装应用" 按钮即可自动安装']
-        : [
-            '1. 点击右上角的 "⋮" 菜单',
-            '2. 选择 "安装应用" 或 "添加到主屏幕"',
-            '3. 点击 "安装"',
-            '4. 应用图标将出现在主屏幕上'
-          ],
-      canAutoInstall: browser.canInstall
-    }
+    return guide('androidChrome', browser.canInstall)
   }
   
   // Android Samsung
   if (browser.isAndroid && browser.isSamsung) {
-    return {
-      title: 'Samsung 浏览器安装指南',
-      steps: browser.canInstall
-        ? ['点击下方的 "安装应用" 按钮即可自动安装']
-        : [
-            '1. 点击底部的 "≡" 菜单',
-            '2. 选择 "添加页面到"',
-            '3. 选择 "主屏幕"',
-            '4. 点击 "添加"'
-          ],
-      canAutoInstall: browser.canInstall
-    }
+    return guide('samsung', browser.canInstall)
   }
   
   // Desktop Chrome/Edge
   if (browser.isDesktop && (browser.isChrome || browser.isEdge)) {
-    return {
-      title: `${browser.name} 桌面版安装指南`,
-      steps: browser.canInstall
-        ? ['点击下方的 "安装应用" 按钮即可自动安装']
-        : [
-            '1. 点击地址栏右侧的安装图标 (⊕)',
-            '2. 或点击右上角 "⋮" 菜单',
-            '3. 选择 "安装 天气小鸭日记..."',
-            '4. 点击 "安装"'
-          ],
-      canAutoInstall: browser.canInstall
-    }
+    return guide('desktop', browser.canInstall, { browser: browser.name })
   }
   
   // Firefox (不完全支持 PWA)
   if (browser.isFirefox) {
-    return {
-      title: 'Firefox 安装说明',
-      steps: [
-        'Firefox 目前不完全支持 PWA 安装',
-        '建议使用 Chrome、Edge 或 Safari 浏览器',
-        '以获得完整的离线和安装体验'
-      ],
-      canAutoInstall: false
-    }
+    return guide('firefox')
   }
   
   // 默认指南
-  return {
-    title: '安装指南',
-    steps: [
-      '1. 在浏览器菜单中查找 "添加到主屏幕" 或 "安装应用"',
-      '2. 按照提示完成安装',
-      '3. 应用图标将出现在您的设备上'
-    ],
-    canAutoInstall: browser.canInstall
-  }
+  return { ...guide('generic'), canAutoInstall: browser.canInstall }
 }
 
 /**
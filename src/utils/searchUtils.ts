@@ -0,0 +1,140 @@
+import type { DiaryData, DiarySearchQuery } from '../types/diary'
+import { MarkdownUtils } from './markdownUtils'
+
+// 日记搜索：关键词按空白拆成多个词，每个词都要以子串形式出现在正文、城市或标签中（不区分大小写），
+// 与服务端 search_weather_diaries 的规则一致
+
+export interface HighlightSegment {
+  text: string
+  hit: boolean
+}
+
+// 中日韩文字没有空格分词，按单字和相邻两字建索引
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]/
+const TOKEN_PATTERN = /[a-z0-9]+|[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]+/g
+
+export class SearchUtils {
+  // 拆分关键词：去重、转小写
+  static parseKeyword(keyword: string | null | undefined): string[] {
+    const terms = (keyword || '').toLowerCase().split(/\s+/).filter(Boolean)
+    return Array.from(new Set(terms))
+  }
+
+  static isCjk(token: string): boolean {
+    return CJK_CHAR.test(token)
+  }
+
+  // 分词：英文和数字按单词，中文按单字加相邻两字
+  static tokenize(text: string): string[] {
+    const tokens = new Set<string>()
+    for (const word of text.toLowerCase().match(TOKEN_PATTERN) || []) {
+      if (!this.isCjk(word)) {
+        tokens.add(word)
+        continue
+      }
+      const chars = Array.from(word)
+      chars.forEach((char, index) => {
+        tokens.add(char)
+        if (index + 1 < chars.length) tokens.add(char + chars[index + 1])
+      })
+    }
+    return Array.from(tokens)
+  }
+
+  // 查询词对应的索引词：中文取相邻两字（只有一个字时取单字），英文取整个单词
+  static queryTokens(term: string): string[] {
+    const tokens: string[] = []
+    for (const word of term.toLowerCase().match(TOKEN_PATTERN) || []) {
+      if (!this.isCjk(word)) {
+        tokens.push(word)
+        continue
+      }
+      const chars = Array.from(word)
+      if (chars.length === 1) {
+        tokens.push(chars[0])
+      } else {
+        for (let i = 0; i + 1 < chars.length; i++) tokens.push(chars[i] + chars[i + 1])
+      }
+    }
+    return Array.from(new Set(tokens))
+  }
+
+  // 参与搜索的文本：去掉 Markdown 标记的正文、城市和标签
+  static getSearchText(diary: DiaryData): string {
+    return [MarkdownUtils.toPlainText(diary.content), diary.city || '', ...(diary.tags || [])].join(' ')
+  }
+
+  // 日期、心情、城市等筛选条件
+  static matchesFilters(diary: DiaryData, query: DiarySearchQuery): boolean {
+    if (query.startDate && diary.date < query.startDate) return false
+    if (query.endDate && diary.date > query.endDate) return false
+    if (query.mood && diary.mood !== query.mood) return false
+    const city = query.city?.trim().toLowerCase()
+    if (city && !(diary.city || '').toLowerCase().includes(city)) return false
+    return true
+  }
+
+  // 是否满足全部条件（关键词按子串匹配）
+  static matches(diary: DiaryData, query: DiarySearchQuery): boolean {
+    if (!this.matchesFilters(diary, query)) return false
+    const text = this.getSearchText(diary).toLowerCase()
+    return this.parseKeyword(query.keyword).every(term => text.includes(term))
+  }
+
+  // 关键词出现的总次数，用于排序
+  static countHits(text: string, terms: string[]): number {
+    const lower = text.toLowerCase()
+    return terms.reduce((total, term) => {
+      let count = 0
+      let index = lower.indexOf(term)
+      while (index !== -1) {
+        count++
+        index = lower.indexOf(term, index + term.length)
+      }
+      return total + count
+    }, 0)
+  }
+
+  // 把文字按是否命中关键词分段，模板中逐段渲染，不需要 v-html
+  static highlight(text: string, terms: string[]): HighlightSegment[] {
+    if (!text) return []
+    const lower = text.toLowerCase()
+    const marks = new Array<boolean>(text.length).fill(false)
+    terms.forEach(term => {
+      let index = lower.indexOf(term)
+      while (index !== -1) {
+        marks.fill(true, index, index + term.length)
+        index = lower.indexOf(term, index + term.length)
+      }
+    })
+
+    const segments: HighlightSegment[] = []
+    for (let i = 0; i < text.length; i++) {
+      const last = segments[segments.length - 1]
+      if (last && last.hit === marks[i]) {
+        last.text += text[i]
+      } else {
+        segments.push({ text: text[i], hit: marks[i] })
+      }
+    }
+    return segments
+  }
+
+  // 摘要：截取第一个命中位置附近的文字并高亮，没有命中时取开头
+  static buildSnippet(text: string, terms: string[], radius: number = 30): HighlightSegment[] {
+    const plain = text.replace(/\s+/g, ' ').trim()
+    if (!plain) return []
+    const lower = plain.toLowerCase()
+    const first = terms
+      .map(term => lower.indexOf(term))
+      .filter(index => index !== -1)
+      .sort((a, b) => a - b)[0]
+
+    const start = first === undefined ? 0 : Math.max(0, first - radius)
+    const end = Math.min(plain.length, (first === undefined ? 0 : first) + radius * 3)
+    const segments = this.highlight(plain.slice(start, end), terms)
+    if (start > 0) segments.unshift({ text: '…', hit: false })
+    if (end < plain.length) segments.push({ text: '…', hit: false })
+    return segments
+  }
+}
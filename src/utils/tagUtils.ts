@@ -0,0 +1,121 @@
+import { reactive } from 'vue'
+import type { DiaryData } from '../types/diary'
+
+// 日记标签：用户自定义，保存前统一去掉首尾空格和开头的 #，不区分大小写去重
+export const MAX_TAG_LENGTH = 20
+export const MAX_TAGS_PER_ENTRY = 10
+
+// 筛选模式：dim 把不匹配的卡片调暗，hide 直接隐藏
+export type TagFilterMode = 'dim' | 'hide'
+
+export interface TagFilterState {
+  tags: string[]
+  mode: TagFilterMode
+}
+
+export interface TagCount {
+  tag: string
+  count: number
+}
+
+const STORAGE_KEY = 'weather_tag_filter'
+
+function loadFilter(): TagFilterState {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return { tags: [], mode: 'dim' }
+    const saved = JSON.parse(raw) as Partial<TagFilterState>
+    return {
+      tags: TagUtils.normalize(Array.isArray(saved.tags) ? saved.tags : []),
+      mode: saved.mode === 'hide' ? 'hide' : 'dim'
+    }
+  } catch {
+    return { tags: [], mode: 'dim' }
+  }
+}
+
+function persistFilter(): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ tags: tagFilter.tags, mode: tagFilter.mode }))
+  } catch {
+    // 存储不可用时仅本次会话生效
+  }
+}
+
+export class TagUtils {
+  // 整理标签：去空格、去掉开头的 #、截断过长的标签、不区分大小写去重
+  static normalize(tags: unknown): string[] {
+    if (!Array.isArray(tags)) return []
+    const seen = new Set<string>()
+    const result: string[] = []
+    for (const item of tags) {
+      const tag = String(item ?? '').trim().replace(/^#+/, '').trim().slice(0, MAX_TAG_LENGTH)
+      const key = tag.toLowerCase()
+      if (!tag || seen.has(key)) continue
+      seen.add(key)
+      result.push(tag)
+    }
+    return result
+  }
+
+  // 一组日记条目的标签并集（同一天多条日记合并显示在卡片上）
+  static collectTags(diaries: DiaryData[]): string[] {
+    return this.normalize(diaries.flatMap(diary => diary.tags || []))
+  }
+
+  // 各标签被多少条日记使用，按次数从多到少排列
+  static countTags(diaries: Pick<DiaryData, 'tags'>[]): TagCount[] {
+    const counts = new Map<string, TagCount>()
+    for (const diary of diaries) {
+      for (const tag of this.normalize(diary.tags)) {
+        const key = tag.toLowerCase()
+        const existing = counts.get(key)
+        if (existing) {
+          existing.count++
+        } else {
+          counts.set(key, { tag, count: 1 })
+        }
+      }
+    }
+    return Array.from(counts.values()).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+  }
+
+  // 统计信息中的 标签 -> 次数，与 countTags 一样不区分大小写
+  static tagStats(diaries: Pick<DiaryData, 'tags'>[]): Record<string, number> {
+    return Object.fromEntries(this.countTags(diaries).map(({ tag, count }) => [tag, count]))
+  }
+
+  // 标签是否包含全部选中的标签（不区分大小写）；没有选中标签时都算匹配
+  static matchesTags(tags: string[], selected: string[] = tagFilter.tags): boolean {
+    if (selected.length === 0) return true
+    const owned = new Set(tags.map(tag => tag.toLowerCase()))
+    return selected.every(tag => owned.has(tag.toLowerCase()))
+  }
+
+  // 当天的日记合起来是否包含全部选中的标签
+  static matchesFilter(diaries: DiaryData[], selected: string[] = tagFilter.tags): boolean {
+    return this.matchesTags(this.collectTags(diaries), selected)
+  }
+
+  static isSelected(tag: string): boolean {
+    return tagFilter.tags.some(item => item.toLowerCase() === tag.toLowerCase())
+  }
+
+  static isFilterActive(): boolean {
+    return tagFilter.tags.length > 0
+  }
+
+  // 更新并保存筛选条件
+  static setFilter(filter: Partial<TagFilterState>): void {
+    if (filter.tags) tagFilter.tags = this.normalize(filter.tags)
+    if (filter.mode) tagFilter.mode = filter.mode
+    persistFilter()
+  }
+
+  static clearFilter(): void {
+    this.setFilter({ tags: [] })
+  }
+}
+
+// 当前标签筛选条件（响应式，卡片和列表据此调暗或隐藏）
+export const tagFilter = reactive<TagFilterState>(loadFilter())
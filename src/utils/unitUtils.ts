@@ -0,0 +1,203 @@
+import { reactive } from 'vue'
+import { t } from '../i18n'
+
+// 天气数据内部统一使用公制（°C、km/h、mm），只在显示时换算
+export type TemperatureUnit = 'celsius' | 'fahrenheit'
+export type WindSpeedUnit = 'kmh' | 'ms' | 'mph' | 'beaufort'
+export type PrecipitationUnit = 'mm' | 'inch'
+
+export interface UnitPreferences {
+  temperature: TemperatureUnit
+  windSpeed: WindSpeedUnit
+  precipitation: PrecipitationUnit
+}
+
+// 可选单位（界面文案见 i18n 的 units.options）
+export const UNIT_OPTIONS = {
+  temperature: [
+    { value: 'celsius' },
+    { value: 'fahrenheit' }
+  ],
+  windSpeed: [
+    { value: 'kmh' },
+    { value: 'ms' },
+    { value: 'mph' },
+    { value: 'beaufort' }
+  ],
+  precipitation: [
+    { value: 'mm' },
+    { value: 'inch' }
+  ]
+} as const
+
+const STORAGE_KEY = 'weather_unit_preferences'
+
+const DEFAULT_PREFERENCES: UnitPreferences = {
+  temperature: 'celsius',
+  windSpeed: 'kmh',
+  precipitation: 'mm'
+}
+
+// 蒲福风级上限（km/h），下标即风力等级
+const BEAUFORT_LIMITS = [1, 5, 11, 19, 28, 38, 49, 61, 74, 88, 102, 117]
+
+// 风速分档（按蒲福风级），风向玫瑰图和风向箭头共用配色；文案见 windRose.bins
+export const WIND_SPEED_BINS = [
+  { key: 'light', minLevel: 0, maxLevel: 2, color: '#74b9ff' },
+  { key: 'moderate', minLevel: 3, maxLevel: 4, color: '#00b894' },
+  { key: 'fresh', minLevel: 5, maxLevel: 6, color: '#fdcb6e' },
+  { key: 'strong', minLevel: 7, maxLevel: 12, color: '#e17055' }
+] as const
+
+function loadPreferences(): UnitPreferences {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return { ...DEFAULT_PREFERENCES }
+    const saved = JSON.parse(raw) as Partial<UnitPreferences>
+    return {
+      temperature: UNIT_OPTIONS.temperature.some(o => o.value === saved.temperature)
+        ? saved.temperature! : DEFAULT_PREFERENCES.temperature,
+      windSpeed: UNIT_OPTIONS.windSpeed.some(o => o.value === saved.windSpeed)
+        ? saved.windSpeed! : DEFAULT_PREFERENCES.windSpeed,
+      precipitation: UNIT_OPTIONS.precipitation.some(o => o.value === saved.precipitation)
+        ? saved.precipitation! : DEFAULT_PREFERENCES.precipitation
+    }
+  } catch {
+    return { ...DEFAULT_PREFERENCES }
+  }
+}
+
+// 当前单位偏好（响应式，模板中调用 UnitUtils 格式化方法会随偏好自动刷新）
+export const unitPreferences = reactive<UnitPreferences>(loadPreferences())
+
+export class UnitUtils {
+  // 更新并保存单位偏好
+  static setPreferences(prefs: Partial<UnitPreferences>): void {
+    Object.assign(unitPreferences, prefs)
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...unitPreferences }))
+    } catch {
+      // 存储不可用时仅本次会话生效
+    }
+    window.dispatchEvent(new CustomEvent('units:changed', { detail: { ...unitPreferences } }))
+  }
+
+  // 温度换算（输入 °C）
+  static convertTemperature(celsius: number, unit: TemperatureUnit = unitPreferences.temperature): number {
+    const value = unit === 'fahrenheit' ? celsius * 9 / 5 + 32 : celsius
+    return Math.round(value)
+  }
+
+  // 温度反向换算为 °C（用于用户按所选单位输入的值），保留一位小数
+  static toCelsius(value: number, unit: TemperatureUnit = unitPreferences.temperature): number {
+    const celsius = unit === 'fahrenheit' ? (value - 32) * 5 / 9 : value
+    return Math.round(celsius * 10) / 10
+  }
+
+  static temperatureSymbol(unit: TemperatureUnit = unitPreferences.temperature): string {
+    return unit === 'fahrenheit' ? '°F' : '°C'
+  }
+
+  // 格式化温度，short 为 true 时只带 "°"（卡片等紧凑位置）
+  static formatTemperature(celsius: number, short: boolean = false): string {
+    const value = UnitUtils.convertTemperature(celsius)
+    return short ? `${value}°` : `${value}${UnitUtils.temperatureSymbol()}`
+  }
+
+  // 温差换算（输入 °C 差值），保留一位小数；温差只需按比例换算，不加偏移
+  static convertTemperatureDelta(deltaCelsius: number, unit: TemperatureUnit = unitPreferences.temperature): number {
+    const value = unit === 'fahrenheit' ? deltaCelsius * 9 / 5 : deltaCelsius
+    return Math.round(value * 10) / 10
+  }
+
+  // 温差反向换算为 °C 差值，保留一位小数
+  static toCelsiusDelta(delta: number, unit: TemperatureUnit = unitPreferences.temperature): number {
+    const value = unit === 'fahrenheit' ? delta * 5 / 9 : delta
+    return Math.round(value * 10) / 10
+  }
+
+  // 格式化温差（输入 °C 差值），保留一位小数，默认带正负号，如 "+3.2°"
+  static formatTemperatureDelta(deltaCelsius: number, signed: boolean = true): string {
+    const rounded = UnitUtils.convertTemperatureDelta(deltaCelsius)
+    return `${signed && rounded > 0 ? '+' : ''}${rounded.toFixed(1)}°`
+  }
+
+  // 风速换算（输入 km/h），风力等级返回 0-12 级
+  static convertWindSpeed(kmh: number, unit: WindSpeedUnit = unitPreferences.windSpeed): number {
+    switch (unit) {
+      case 'ms':
+        return Math.round(kmh / 3.6 * 10) / 10
+      case 'mph':
+        return Math.round(kmh / 1.609344)
+      case 'beaufort':
+        return UnitUtils.toBeaufort(kmh)
+      default:
+        return Math.round(kmh)
+    }
+  }
+
+  // 风速反向换算为 km/h，保留一位小数；风力等级取该级的下限风速
+  static toKmh(value: number, unit: WindSpeedUnit = unitPreferences.windSpeed): number {
+    switch (unit) {
+      case 'ms':
+        return Math.round(value * 3.6 * 10) / 10
+      case 'mph':
+        return Math.round(value * 1.609344 * 10) / 10
+      case 'beaufort': {
+        const level = Math.min(12, Math.max(0, Math.round(value)))
+        return level === 0 ? 0 : BEAUFORT_LIMITS[level - 1]
+      }
+      default:
+        return Math.round(value * 10) / 10
+    }
+  }
+
+  static toBeaufort(kmh: number): number {
+    const level = BEAUFORT_LIMITS.findIndex(limit => kmh < limit)
+    return level === -1 ? 12 : level
+  }
+
+  // 风速（km/h）所在的分档下标，对应 WIND_SPEED_BINS
+  static getWindSpeedBin(kmh: number): number {
+    const level = UnitUtils.toBeaufort(kmh)
+    const index = WIND_SPEED_BINS.findIndex(bin => level <= bin.maxLevel)
+    return index === -1 ? WIND_SPEED_BINS.length - 1 : index
+  }
+
+  static windSpeedSymbol(unit: WindSpeedUnit = unitPreferences.windSpeed): string {
+    switch (unit) {
+      case 'ms':
+        return 'm/s'
+      case 'mph':
+        return 'mph'
+      case 'beaufort':
+        return t('units.beaufortSymbol')
+      default:
+        return 'km/h'
+    }
+  }
+
+  static formatWindSpeed(kmh: number): string {
+    return `${UnitUtils.convertWindSpeed(kmh)}${UnitUtils.windSpeedSymbol()}`
+  }
+
+  // 降水换算（输入 mm），英寸保留两位小数
+  static convertPrecipitation(mm: number, unit: PrecipitationUnit = unitPreferences.precipitation): number {
+    if (unit === 'inch') return Math.round(mm / 25.4 * 100) / 100
+    return Math.round(mm * 100) / 100
+  }
+
+  // 降水反向换算为 mm，保留一位小数
+  static toMillimeters(value: number, unit: PrecipitationUnit = unitPreferences.precipitation): number {
+    const mm = unit === 'inch' ? value * 25.4 : value
+    return Math.round(mm * 10) / 10
+  }
+
+  static precipitationSymbol(unit: PrecipitationUnit = unitPreferences.precipitation): string {
+    return unit === 'inch' ? 'in' : 'mm'
+  }
+
+  static formatPrecipitation(mm: number): string {
+    return `${UnitUtils.convertPrecipitation(mm)}${UnitUtils.precipitationSymbol()}`
+  }
+}
@@ -0,0 +1,171 @@
+// ZIP 打包和解包，用于日记备份
+// 写入时不压缩（图片和视频本身已压缩，文字部分很小），读取时支持不压缩和 deflate（其他工具重新打包的备份）
+
+export interface ZipEntry {
+  path: string
+  data: Uint8Array | string
+  modified?: Date
+}
+
+// 不支持 ZIP64：单个文件和整个包都不能超过 4GB，文件数不超过 65535
+const MAX_UINT32 = 0xffffffff
+const MAX_ENTRIES = 0xffff
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+export class ZipUtils {
+  static crc32(data: Uint8Array): number {
+    let crc = 0xffffffff
+    for (let i = 0; i < data.length; i++) {
+      crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+    }
+    return (crc ^ 0xffffffff) >>> 0
+  }
+
+  // 打包成 ZIP（不压缩），文件名按 UTF-8 保存
+  static createZip(entries: ZipEntry[]): Blob {
+    if (entries.length > MAX_ENTRIES) {
+      throw new Error('ZIP 文件数超出上限')
+    }
+
+    const parts: Uint8Array[] = []
+    const central: Uint8Array[] = []
+    let offset = 0
+
+    for (const entry of entries) {
+      const name = encoder.encode(entry.path)
+      const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data
+      const crc = this.crc32(data)
+      const { time, date } = this.toDosDateTime(entry.modified || new Date())
+      if (data.length > MAX_UINT32 || offset > MAX_UINT32) {
+        throw new Error('ZIP 文件大小超出上限')
+      }
+
+      const local = new DataView(new ArrayBuffer(30))
+      local.setUint32(0, 0x04034b50, true)
+      local.setUint16(4, 20, true) // 解压所需版本
+      local.setUint16(6, 0x0800, true) // 文件名为 UTF-8
+      local.setUint16(8, 0, true) // 不压缩
+      local.setUint16(10, time, true)
+      local.setUint16(12, date, true)
+      local.setUint32(14, crc, true)
+      local.setUint32(18, data.length, true)
+      local.setUint32(22, data.length, true)
+      local.setUint16(26, name.length, true)
+      local.setUint16(28, 0, true)
+
+      const header = new DataView(new ArrayBuffer(46))
+      header.setUint32(0, 0x02014b50, true)
+      header.setUint16(4, 20, true)
+      header.setUint16(6, 20, true)
+      header.setUint16(8, 0x0800, true)
+      header.setUint16(10, 0, true)
+      header.setUint16(12, time, true)
+      header.setUint16(14, date, true)
+      header.setUint32(16, crc, true)
+      header.setUint32(20, data.length, true)
+      header.setUint32(24, data.length, true)
+      header.setUint16(28, name.length, true)
+      header.setUint32(42, offset, true)
+
+      parts.push(new Uint8Array(local.buffer), name, data)
+      central.push(new Uint8Array(header.buffer), name)
+      offset += 30 + name.length + data.length
+    }
+
+    const centralSize = central.reduce((size, part) => size + part.length, 0)
+    const end = new DataView(new ArrayBuffer(22))
+    end.setUint32(0, 0x06054b50, true)
+    end.setUint16(8, entries.length, true)
+    end.setUint16(10, entries.length, true)
+    end.setUint32(12, centralSize, true)
+    end.setUint32(16, offset, true)
+
+    return new Blob([...parts, ...central, new Uint8Array(end.buffer)] as BlobPart[], { type: 'application/zip' })
+  }
+
+  // 解包：返回 路径 -> 文件内容，目录项跳过
+  static async readZip(buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> {
+    const view = new DataView(buffer)
+    const bytes = new Uint8Array(buffer)
+    const endOffset = this.findEndOfCentralDirectory(view)
+    if (endOffset < 0) {
+      throw new Error('不是有效的 ZIP 文件')
+    }
+
+    const count = view.getUint16(endOffset + 10, true)
+    let pointer = view.getUint32(endOffset + 16, true)
+    const files = new Map<string, Uint8Array>()
+
+    for (let i = 0; i < count; i++) {
+      if (view.getUint32(pointer, true) !== 0x02014b50) {
+        throw new Error('ZIP 目录损坏')
+      }
+      const method = view.getUint16(pointer + 10, true)
+      const compressedSize = view.getUint32(pointer + 20, true)
+      const nameLength = view.getUint16(pointer + 28, true)
+      const extraLength = view.getUint16(pointer + 30, true)
+      const commentLength = view.getUint16(pointer + 32, true)
+      const localOffset = view.getUint32(pointer + 42, true)
+      const path = decoder.decode(bytes.subarray(pointer + 46, pointer + 46 + nameLength))
+      pointer += 46 + nameLength + extraLength + commentLength
+
+      if (path.endsWith('/')) continue
+
+      // 本地文件头的扩展字段长度可能与目录中的不同，以本地文件头为准
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true)
+      const raw = bytes.subarray(dataStart, dataStart + compressedSize)
+      if (method === 0) {
+        files.set(path, raw.slice())
+      } else if (method === 8) {
+        files.set(path, await this.inflate(raw))
+      } else {
+        throw new Error(`不支持的压缩方式：${method}`)
+      }
+    }
+
+    return files
+  }
+
+  static decodeText(data: Uint8Array): string {
+    return decoder.decode(data)
+  }
+
+  private static findEndOfCentralDirectory(view: DataView): number {
+    // 末尾注释最长 65535 字节
+    const min = Math.max(0, view.byteLength - 22 - 0xffff)
+    for (let i = view.byteLength - 22; i >= min; i--) {
+      if (view.getUint32(i, true) === 0x06054b50) return i
+    }
+    return -1
+  }
+
+  private static async inflate(data: Uint8Array): Promise<Uint8Array> {
+    if (typeof DecompressionStream === 'undefined') {
+      throw new Error('当前浏览器不支持解压 deflate 格式的 ZIP')
+    }
+    const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+    return new Uint8Array(await new Response(stream).arrayBuffer())
+  }
+
+  private static toDosDateTime(value: Date): { time: number; date: number } {
+    const year = Math.max(1980, value.getFullYear())
+    return {
+      time: (value.getHours() << 11) | (value.getMinutes() << 5) | (value.getSeconds() >> 1),
+      date: ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate()
+    }
+  }
+}
@@ -0,0 +1,93 @@
+// 测试日记备份 - ZIP 打包/解包往返、备份文件整体校验和逐条校验
+import { ZipUtils } from '../src/utils/zipUtils'
+import { BackupUtils, BACKUP_FORMAT, BACKUP_VERSION } from '../src/utils/backupUtils'
+import { t } from '../src/i18n'
+
+function check(name: string, passed: boolean, detail?: unknown): boolean {
+  console.log(`${passed ? '✅' : '❌'} ${name}`)
+  if (!passed && detail !== undefined) {
+    console.log(`   实际: ${JSON.stringify(detail)}`)
+  }
+  return passed
+}
+
+function sameBytes(a: Uint8Array | undefined, b: Uint8Array): boolean {
+  return !!a && a.length === b.length && a.every((value, index) => value === b[index])
+}
+
+async function testZipRoundTrip(): Promise<boolean[]> {
+  console.log('🧪 测试 ZIP 打包和解包...')
+
+  const binary = new Uint8Array(512).map((_, index) => (index * 37) & 0xff)
+  const text = '今天天气晴 ☀️ sunny'
+  const blob = ZipUtils.createZip([
+    { path: 'diary-backup.json', data: text },
+    { path: 'markdown/2024-03-01 日记.md', data: '# 2024-03-01' },
+    { path: 'media/images/0001-照片.png', data: binary },
+    { path: 'media/empty.bin', data: new Uint8Array(0) }
+  ])
+  const files = await ZipUtils.readZip(await blob.arrayBuffer())
+
+  return [
+    check('文件数一致', files.size === 4, [...files.keys()]),
+    check('UTF-8 文本内容不变', ZipUtils.decodeText(files.get('diary-backup.json') || new Uint8Array()) === text),
+    check('中文文件名保留', files.has('markdown/2024-03-01 日记.md') && files.has('media/images/0001-照片.png'), [...files.keys()]),
+    check('二进制内容逐字节一致', sameBytes(files.get('media/images/0001-照片.png'), binary)),
+    check('空文件可以往返', sameBytes(files.get('media/empty.bin'), new Uint8Array(0))),
+    check('CRC32 与标准值一致', ZipUtils.crc32(new TextEncoder().encode('123456789')) === 0xcbf43926),
+    await ZipUtils.readZip(new ArrayBuffer(64)).then(() => check('非 ZIP 数据被拒绝', false), () => check('非 ZIP 数据被拒绝', true))
+  ]
+}
+
+function testValidate(): boolean[] {
+  console.log('\n🧪 测试备份文件校验...')
+
+  const wrongFormat = BackupUtils.validate({ format: 'other', version: 1, diaries: [] })
+  const newer = BackupUtils.validate({ format: BACKUP_FORMAT, version: BACKUP_VERSION + 1, diaries: [] })
+  const noDiaries = BackupUtils.validate({ format: BACKUP_FORMAT, version: BACKUP_VERSION })
+
+  const result = BackupUtils.validate({
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    diaries: [
+      { date: '2024-03-01', entry_time: '8:05', content: '晴', tags: ['Travel'] },
+      { date: '2024-02-30', content: '不存在的日期' },
+      { date: '2024-03-02', entry_time: '25点', content: '时间格式不对' },
+      { date: '2024-03-03', content: '  ', images: [], videos: [] },
+      { date: '2024-03-04', images: 'a.png' },
+      '不是对象',
+      { date: '2024-02-29', content: '闰年' }
+    ]
+  })
+  const issueAt = (index: number) => result.issues.find(issue => issue.index === index)
+
+  return [
+    check('format 不对时整体拒绝', wrongFormat.backup === null && wrongFormat.fatal === t('backup.errors.format'), wrongFormat.fatal),
+    check('更新版本的备份整体拒绝', newer.backup === null &&
+      newer.fatal === t('backup.errors.newerVersion', { version: BACKUP_VERSION + 1, supported: BACKUP_VERSION }), newer.fatal),
+    check('缺少 diaries 时整体拒绝', noDiaries.backup === null && noDiaries.fatal === t('backup.errors.diaries'), noDiaries.fatal),
+    check('合格条目保留并整理时间', result.diaries.length === 2 && result.diaries[0].entry_time === '08:05', result.diaries),
+    check('不合格条目只逐条报告', result.backup !== null && result.issues.length === 5, result.issues),
+    check('2024-02-30 报告日期无效', issueAt(1)?.message === t('backup.errors.date') && issueAt(1)?.date === '2024-02-30', issueAt(1)),
+    check('entry_time 格式错误', issueAt(2)?.message === t('backup.errors.time'), issueAt(2)),
+    check('空条目被跳过', issueAt(3)?.message === t('backup.errors.empty'), issueAt(3)),
+    check('字段类型错误', issueAt(4)?.message === t('backup.errors.field', { field: 'images' }), issueAt(4)),
+    check('非对象条目', issueAt(5)?.message === t('backup.errors.entryNotObject') && issueAt(5)?.date === undefined, issueAt(5))
+  ]
+}
+
+async function testBackupUtils(): Promise<boolean> {
+  const results = [...await testZipRoundTrip(), ...testValidate()]
+  const failed = results.filter(passed => !passed).length
+  console.log(failed === 0 ? '\n✅ 全部通过' : `\n❌ ${failed} 项失败`)
+  return failed === 0
+}
+
+// 如果在Node.js环境中运行
+if (typeof window === 'undefined') {
+  testBackupUtils().then((passed) => {
+    if (!passed) process.exitCode = 1
+  })
+}
+
+export { testBackupUtils }
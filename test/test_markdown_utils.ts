@@ -0,0 +1,55 @@
+// 测试日记 Markdown 渲染 - 嵌套的行内标记（链接、图片中的行内代码）
+import { MarkdownUtils } from '../src/utils/markdownUtils'
+
+function check(name: string, actual: string, expected: string): boolean {
+  const passed = actual === expected
+  console.log(`${passed ? '✅' : '❌'} ${name}`)
+  if (!passed) {
+    console.log(`   期望: ${expected}`)
+    console.log(`   实际: ${actual}`)
+  }
+  return passed
+}
+
+function testMarkdownUtils(): boolean {
+  console.log('🧪 测试 Markdown 行内渲染...')
+
+  const results = [
+    check(
+      '链接文字中的行内代码',
+      MarkdownUtils.render('[`x`](https://a.com)'),
+      '<p><a href="https://a.com" target="_blank" rel="noopener noreferrer"><code>x</code></a></p>'
+    ),
+    check(
+      '图片说明中的行内代码只保留文字',
+      MarkdownUtils.render('![`a<b`](https://a.com/p.png)'),
+      '<p><img src="https://a.com/p.png" alt="a&lt;b" loading="lazy"></p>'
+    ),
+    check(
+      '链接文字中的代码和粗体',
+      MarkdownUtils.render('[**加粗** `code`](https://a.com)'),
+      '<p><a href="https://a.com" target="_blank" rel="noopener noreferrer"><strong>加粗</strong> <code>code</code></a></p>'
+    ),
+    check(
+      '不安全的链接保持原文',
+      MarkdownUtils.render('[`x`](javascript:alert(1))'),
+      '<p>[<code>x</code>](javascript:alert(1))</p>'
+    ),
+    check(
+      '输入中的占位符字符被去掉',
+      MarkdownUtils.render('a\u00000\u0000b `c`'),
+      '<p>a0b <code>c</code></p>'
+    )
+  ]
+
+  const failed = results.filter(passed => !passed).length
+  console.log(failed === 0 ? '\n✅ 全部通过' : `\n❌ ${failed} 项失败`)
+  return failed === 0
+}
+
+// 如果在Node.js环境中运行
+if (typeof window === 'undefined') {
+  if (!testMarkdownUtils()) process.exitCode = 1
+}
+
+export { testMarkdownUtils }